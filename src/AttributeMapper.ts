@@ -0,0 +1,66 @@
+import { ValidationError } from "./errors";
+import { AttributeMapping, AttributeRule, MappedAttributes } from "./types";
+
+interface ResolvedRule {
+    from: string[];
+    multiple: boolean;
+    required: boolean;
+}
+
+/**
+ * Turns `ParsedAssertion.attributes` into a normalized user profile. Mappings
+ * are merged field by field from left to right, so a later mapping can add
+ * fields, replace a field's sources, or only mark a built-in field `required`:
+ *
+ *     new AttributeMapper(ATTRIBUTE_PROFILES.okta, { email: { required: true } })
+ */
+export class AttributeMapper {
+    private readonly rules = new Map<string, ResolvedRule>();
+
+    constructor(...mappings: AttributeMapping[]) {
+        if (mappings.length === 0) {
+            throw new Error("AttributeMapper needs at least one mapping.");
+        }
+        for (const mapping of mappings) {
+            for (const [field, value] of Object.entries(mapping)) {
+                const rule: AttributeRule =
+                    typeof value === "string" || Array.isArray(value) ? { from: value } : value;
+                const previous = this.rules.get(field);
+                this.rules.set(field, {
+                    from: rule.from === undefined ? previous?.from ?? [] : [rule.from].flat(),
+                    multiple: rule.multiple ?? previous?.multiple ?? false,
+                    required: rule.required ?? previous?.required ?? false,
+                });
+            }
+        }
+        for (const [field, rule] of this.rules) {
+            if (rule.from.length === 0) {
+                throw new Error(`Attribute mapping for ${field} names no source attribute.`);
+            }
+        }
+    }
+
+    /**
+     * Maps attributes keyed by Name. Each field takes its values from the first
+     * source attribute that has any. Throws `ValidationError` with code
+     * `ATTRIBUTE_MISSING` when a required field has none.
+     */
+    map(attributes: Record<string, string[]>): MappedAttributes {
+        const result: MappedAttributes = {};
+        const missing: string[] = [];
+        for (const [field, rule] of this.rules) {
+            const source = rule.from.find((name) => (attributes[name] ?? []).length > 0);
+            const values = source ? attributes[source] : [];
+            if (rule.required && values.length === 0) missing.push(field);
+            result[field] = rule.multiple ? [...values] : values[0] ?? null;
+        }
+        if (missing.length > 0) {
+            throw new ValidationError(
+                "ATTRIBUTE_MISSING",
+                `Assertion is missing required attributes: ${missing.join(", ")}.`,
+                { expected: missing.join(", ") }
+            );
+        }
+        return result;
+    }
+}
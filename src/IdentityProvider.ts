@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import { Element, Node } from "@xmldom/xmldom";
+import { Endpoint, IdPMetadataOptions, IdPOptions, IndexedEndpoint } from "./types";
+import {
+    BINDINGS,
+    METADATA_XML_LIMITS,
+    NS,
+    childElements,
+    dateTimeAttribute,
+    parseXML,
+} from "./xml";
+import { Clock, toPEMCertificate } from "./utils";
+import { MalformedXMLError, TimeWindowError } from "./errors";
+import { verifyMetadataSignature } from "./metadata";
+
+export class IdentityProvider {
+    readonly entityID: string;
+    readonly singleSignOnServices: Endpoint[];
+    readonly singleLogoutServices: Endpoint[];
+    readonly artifactResolutionServices: IndexedEndpoint[];
+    readonly signingCertificates: string[];
+    readonly encryptionCertificates: string[];
+    readonly nameIDFormats: string[];
+    readonly wantAuthnRequestsSigned: boolean;
+    readonly validUntil: Date | null;
+
+    constructor(options: IdPOptions) {
+        if (!options.entityID || options.entityID.length === 0) {
+            throw new Error("entityID is required.");
+        }
+        for (const endpoint of [
+            ...(options.singleSignOnServices ?? []),
+            ...(options.singleLogoutServices ?? []),
+            ...(options.artifactResolutionServices ?? []),
+        ]) {
+            new URL(endpoint.location); // throws if malformed
+        }
+
+        this.entityID = options.entityID;
+        this.singleSignOnServices = options.singleSignOnServices ?? [];
+        this.singleLogoutServices = options.singleLogoutServices ?? [];
+        this.artifactResolutionServices = options.artifactResolutionServices ?? [];
+        this.signingCertificates = (options.signingCertificates ?? []).map(toPEMCertificate);
+        this.encryptionCertificates = (options.encryptionCertificates ?? []).map(toPEMCertificate);
+        this.nameIDFormats = options.nameIDFormats ?? [];
+        this.wantAuthnRequestsSigned = options.wantAuthnRequestsSigned ?? false;
+        this.validUntil = options.validUntil ?? null;
+    }
+
+    /**
+     * Builds an IdP from its `md:EntityDescriptor` metadata. When the document is an
+     * `md:EntitiesDescriptor` aggregate, pass `entityID` to pick the IdP out of it.
+     * `options` sets the time and tolerance `validUntil` is checked against,
+     * and with `trustedSigners` requires the document to be signed.
+     */
+    static fromMetadata(
+        xml: string,
+        entityID?: string,
+        options: IdPMetadataOptions = {}
+    ): IdentityProvider {
+        const doc = parseXML(xml, METADATA_XML_LIMITS);
+        if (options.trustedSigners) {
+            verifyMetadataSignature(doc.documentElement as Element, options.trustedSigners);
+        }
+        const descriptors = doc.getElementsByTagNameNS(NS.md, "EntityDescriptor");
+
+        let entity: Element | null = null;
+        for (let i = 0; i < descriptors.length; i++) {
+            const candidate = descriptors[i];
+            if (childElements(candidate, NS.md, "IDPSSODescriptor").length === 0) continue;
+            if (entityID && candidate.getAttribute("entityID") !== entityID) continue;
+            if (entity) {
+                throw new MalformedXMLError(
+                    "Metadata describes more than one IdP; specify an entityID."
+                );
+            }
+            entity = candidate;
+        }
+        if (!entity) {
+            throw new MalformedXMLError(
+                entityID
+                    ? `No IDPSSODescriptor found for entityID ${entityID}.`
+                    : "No IDPSSODescriptor found in metadata."
+            );
+        }
+
+        const descriptor = childElements(entity, NS.md, "IDPSSODescriptor")[0];
+        const protocols = (descriptor.getAttribute("protocolSupportEnumeration") ?? "").split(/\s+/);
+        if (!protocols.includes(NS.samlp)) {
+            throw new MalformedXMLError("IDPSSODescriptor does not support the SAML 2.0 protocol.");
+        }
+
+        const signingCertificates: string[] = [];
+        const encryptionCertificates: string[] = [];
+        for (const keyDescriptor of childElements(descriptor, NS.md, "KeyDescriptor")) {
+            const use = keyDescriptor.getAttribute("use");
+            const certs = keyDescriptor.getElementsByTagNameNS(NS.ds, "X509Certificate");
+            for (let i = 0; i < certs.length; i++) {
+                const body = (certs[i].textContent ?? "").replace(/\s+/g, "");
+                if (!body) continue;
+                if (use !== "encryption") signingCertificates.push(body);
+                if (use !== "signing") encryptionCertificates.push(body);
+            }
+        }
+
+        const validUntil = earliestValidUntil(entity);
+        const metadataClock = new Clock(options);
+        if (validUntil && metadataClock.hasReached(validUntil)) {
+            throw new TimeWindowError(
+                "METADATA_EXPIRED",
+                `IdP metadata has expired. validUntil: ${validUntil.toISOString()}`,
+                { notOnOrAfter: validUntil, now: metadataClock.now() }
+            );
+        }
+
+        return new IdentityProvider({
+            entityID: entity.getAttribute("entityID") ?? "",
+            singleSignOnServices: endpointsOf(descriptor, "SingleSignOnService"),
+            singleLogoutServices: endpointsOf(descriptor, "SingleLogoutService"),
+            artifactResolutionServices: indexedEndpointsOf(descriptor, "ArtifactResolutionService"),
+            signingCertificates,
+            encryptionCertificates,
+            nameIDFormats: childElements(descriptor, NS.md, "NameIDFormat")
+                .map((el) => (el.textContent ?? "").trim())
+                .filter(Boolean),
+            wantAuthnRequestsSigned: descriptor.getAttribute("WantAuthnRequestsSigned") === "true",
+            validUntil,
+        });
+    }
+
+    /** Reads an IdP metadata file from disk and parses it with `fromMetadata`. */
+    static fromMetadataFile(
+        path: string,
+        entityID?: string,
+        options: IdPMetadataOptions = {}
+    ): IdentityProvider {
+        return IdentityProvider.fromMetadata(fs.readFileSync(path, "utf-8"), entityID, options);
+    }
+
+    /** Returns the SSO endpoint URL for `binding`, or `null` if the IdP does not offer it. */
+    singleSignOnURL(binding: string = BINDINGS.redirect): string | null {
+        return this.singleSignOnServices.find((e) => e.binding === binding)?.location ?? null;
+    }
+
+    /** Returns the SLO endpoint for `binding`, or `null` if the IdP does not offer it. */
+    singleLogoutService(binding: string = BINDINGS.redirect): Endpoint | null {
+        return this.singleLogoutServices.find((e) => e.binding === binding) ?? null;
+    }
+
+    /**
+     * Returns the SOAP ArtifactResolutionService with `index`, as named by an
+     * artifact's EndpointIndex, or `null` if the IdP publishes none. Endpoints
+     * without an explicit index take their position in the list.
+     */
+    artifactResolutionService(index: number): IndexedEndpoint | null {
+        return (
+            this.artifactResolutionServices.find(
+                (e, i) => e.binding === BINDINGS.soap && (e.index ?? i) === index
+            ) ?? null
+        );
+    }
+}
+
+function endpointsOf(descriptor: Element, localName: string): Endpoint[] {
+    return childElements(descriptor, NS.md, localName).map(endpointOf);
+}
+
+/** Indexed endpoints without a valid `index` attribute take their position in the list. */
+function indexedEndpointsOf(descriptor: Element, localName: string): IndexedEndpoint[] {
+    return childElements(descriptor, NS.md, localName).map((el, i) => {
+        const index = el.getAttribute("index");
+        return {
+            ...endpointOf(el),
+            index: index && /^\d+$/.test(index) ? Number(index) : i,
+            isDefault: el.getAttribute("isDefault") === "true",
+        };
+    });
+}
+
+function endpointOf(el: Element): Endpoint {
+    const endpoint: Endpoint = {
+        binding: el.getAttribute("Binding") ?? "",
+        location: el.getAttribute("Location") ?? "",
+    };
+    const responseLocation = el.getAttribute("ResponseLocation");
+    if (responseLocation) endpoint.responseLocation = responseLocation;
+    return endpoint;
+}
+
+/** `validUntil` may appear on the IDPSSODescriptor, the EntityDescriptor or any enclosing aggregate. */
+function earliestValidUntil(entity: Element): Date | null {
+    let earliest: Date | null = null;
+    let node: Node | null = childElements(entity, NS.md, "IDPSSODescriptor")[0];
+    for (; node && node.nodeType === Node.ELEMENT_NODE; node = node.parentNode) {
+        const date = dateTimeAttribute(node as Element, "validUntil");
+        if (date && (!earliest || date < earliest)) earliest = date;
+    }
+    return earliest;
+}
@@ -0,0 +1,144 @@
+import * as crypto from "node:crypto";
+import { RelayStateOptions, RelayStateStore } from "./types";
+import { ValidationError } from "./errors";
+import { isSameSitePath } from "./utils";
+
+/**
+ * Protects the `RelayState` that travels through the IdP. With `secret` the
+ * value is sent with an HMAC-SHA256 tag; with `store` only an opaque key is
+ * sent. Either way the value must be a same-site path or a URL on one of the
+ * `allowedOrigins`, so a tampered or forged RelayState cannot become an open
+ * redirect.
+ */
+export class RelayStateCodec {
+    private readonly options: RelayStateOptions;
+
+    constructor(options: RelayStateOptions) {
+        if (options.secret !== undefined && options.store !== undefined) {
+            throw new Error("relayState takes either a secret or a store, not both.");
+        }
+        if (options.secret !== undefined && Buffer.byteLength(options.secret) < 32) {
+            throw new Error("relayState.secret must be at least 32 bytes.");
+        }
+        for (const origin of options.allowedOrigins ?? []) {
+            if (new URL(origin).origin !== origin) {
+                throw new Error(
+                    `Allowed origin ${origin} must be a bare origin such as https://example.com.`
+                );
+            }
+        }
+        this.options = options;
+    }
+
+    /** Returns the value to send as `RelayState` for `target`. */
+    async encode(target: string): Promise<string> {
+        this.checkTarget(target);
+        const { secret, store } = this.options;
+        if (store) {
+            const key = crypto.randomBytes(16).toString("base64url");
+            await store.save(key, target);
+            return key;
+        }
+        if (secret !== undefined) {
+            return `${target}.${this.tag(target)}`;
+        }
+        return target;
+    }
+
+    /** Recovers and re-checks the target from a `RelayState` the IdP sent back. */
+    async decode(relayState: string): Promise<string> {
+        const { secret, store } = this.options;
+        let target = relayState;
+        if (store) {
+            const stored = await store.take(relayState);
+            if (stored === null) {
+                throw new ValidationError(
+                    "RELAY_STATE_INVALID",
+                    "RelayState does not match a stored value.",
+                    { actual: relayState }
+                );
+            }
+            target = stored;
+        } else if (secret !== undefined) {
+            const separator = relayState.lastIndexOf(".");
+            target = relayState.slice(0, Math.max(separator, 0));
+            const expected = Buffer.from(this.tag(target));
+            const actual = Buffer.from(relayState.slice(separator + 1));
+            if (
+                separator === -1 ||
+                expected.length !== actual.length ||
+                !crypto.timingSafeEqual(expected, actual)
+            ) {
+                throw new ValidationError(
+                    "RELAY_STATE_INVALID",
+                    "RelayState integrity check failed.",
+                    { actual: relayState }
+                );
+            }
+        }
+        this.checkTarget(target);
+        return target;
+    }
+
+    private tag(target: string): string {
+        return crypto
+            .createHmac("sha256", this.options.secret as string | Buffer)
+            .update(target, "utf-8")
+            .digest()
+            .subarray(0, 16)
+            .toString("base64url");
+    }
+
+    /** Same-site paths are always allowed; absolute URLs only on an allowed origin. */
+    private checkTarget(target: string): void {
+        if (isSameSitePath(target)) return;
+
+        let origin: string | null = null;
+        try {
+            origin = new URL(target).origin;
+        } catch {
+            // Not an absolute URL either.
+        }
+        if (!origin || !(this.options.allowedOrigins ?? []).includes(origin)) {
+            throw new ValidationError(
+                "RELAY_STATE_INVALID",
+                `RelayState ${target} is not a relative path or a URL on an allowed origin.`,
+                { actual: target }
+            );
+        }
+    }
+}
+
+/**
+ * Process-local `RelayStateStore`. Entries expire after `ttlMs`, measured on
+ * the `now` clock, and can be taken once.
+ */
+export class InMemoryRelayStateStore implements RelayStateStore {
+    private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+    private readonly ttlMs: number;
+    private readonly now: () => Date;
+
+    constructor(ttlMs = 1000 * 60 * 10, now: () => Date = () => new Date()) {
+        if (!(ttlMs > 0)) {
+            throw new Error("ttlMs must be a positive number.");
+        }
+        this.ttlMs = ttlMs;
+        this.now = now;
+    }
+
+    save(key: string, value: string): Promise<void> {
+        const now = this.now().getTime();
+        for (const [k, entry] of this.entries) {
+            if (entry.expiresAt <= now) this.entries.delete(k);
+        }
+        this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+        return Promise.resolve();
+    }
+
+    take(key: string): Promise<string | null> {
+        const entry = this.entries.get(key);
+        this.entries.delete(key);
+        const live = entry && entry.expiresAt > this.now().getTime();
+        return Promise.resolve(live ? entry.value : null);
+    }
+}
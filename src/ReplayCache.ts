@@ -0,0 +1,26 @@
+import { ReplayCache } from "./types";
+
+/**
+ * Process-local `ReplayCache`. Expired entries are pruned whenever a new one is
+ * saved. Use a shared implementation when responses for the same IdP can reach
+ * more than one instance. Pass the `now` given to `SAMLResponse`, if any, so
+ * entries expire on the same clock.
+ */
+export class InMemoryReplayCache implements ReplayCache {
+    private readonly entries = new Map<string, number>();
+    private readonly now: () => Date;
+
+    constructor(now: () => Date = () => new Date()) {
+        this.now = now;
+    }
+
+    saveIfAbsent(id: string, expiresAt: Date): Promise<boolean> {
+        const now = this.now().getTime();
+        for (const [key, expiry] of this.entries) {
+            if (expiry <= now) this.entries.delete(key);
+        }
+        if (this.entries.has(id)) return Promise.resolve(false);
+        this.entries.set(id, expiresAt.getTime());
+        return Promise.resolve(true);
+    }
+}
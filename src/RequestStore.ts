@@ -0,0 +1,36 @@
+import { RequestStore } from "./types";
+
+/**
+ * Process-local `RequestStore`. Entries expire after `ttlMs`; expired entries
+ * are pruned whenever a new one is saved. Use a shared implementation when the
+ * ACS can be served by a different instance than the one that sent the request.
+ * `now` defaults to the system clock.
+ */
+export class InMemoryRequestStore implements RequestStore {
+    private readonly entries = new Map<string, number>();
+    private readonly ttlMs: number;
+    private readonly now: () => Date;
+
+    constructor(ttlMs = 1000 * 60 * 5, now: () => Date = () => new Date()) {
+        if (!(ttlMs > 0)) {
+            throw new Error("ttlMs must be a positive number.");
+        }
+        this.ttlMs = ttlMs;
+        this.now = now;
+    }
+
+    save(id: string): Promise<void> {
+        const now = this.now().getTime();
+        for (const [key, expiresAt] of this.entries) {
+            if (expiresAt <= now) this.entries.delete(key);
+        }
+        this.entries.set(id, now + this.ttlMs);
+        return Promise.resolve();
+    }
+
+    consume(id: string): Promise<boolean> {
+        const expiresAt = this.entries.get(id);
+        this.entries.delete(id);
+        return Promise.resolve(expiresAt !== undefined && expiresAt > this.now().getTime());
+    }
+}
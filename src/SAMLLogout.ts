@@ -0,0 +1,351 @@
+import { create } from "xmlbuilder2";
+import { Element } from "@xmldom/xmldom";
+import { IdentityProvider } from "./IdentityProvider";
+import { ServiceProvider } from "./ServiceProvider";
+import {
+    DecodedMessage,
+    InboundMessage,
+    PostBindingMessage,
+    PostFormOptions,
+    buildPostForm,
+    buildRedirectURL,
+    decodeMessage,
+} from "./bindings";
+import { SigningOptions, signXML, verifyDetached, verifyEnvelopedSignature } from "./signature";
+import {
+    LogoutSubject,
+    ParsedLogoutRequest,
+    ParsedLogoutResponse,
+    SAMLLogoutOptions,
+    XMLLimits,
+} from "./types";
+import { Clock, generateRandomEntityID } from "./utils";
+import {
+    BINDINGS,
+    NS,
+    STATUS_SUCCESS,
+    childElements,
+    dateTimeAttribute,
+    parseXML,
+    readStatus,
+    resolveXMLLimits,
+} from "./xml";
+import {
+    MalformedXMLError,
+    SignatureError,
+    StatusError,
+    TimeWindowError,
+    ValidationError,
+} from "./errors";
+
+/** SP-initiated and IdP-initiated Single Logout over the HTTP-Redirect and HTTP-POST bindings. */
+export class SAMLLogout {
+    private readonly idp: IdentityProvider;
+    private readonly sp: ServiceProvider;
+    private readonly logoutEndpoint: string;
+    private readonly signing: SigningOptions | null;
+    private readonly requireSignedMessages: boolean;
+    private readonly clock: Clock;
+    private readonly xmlLimits: Required<XMLLimits>;
+
+    constructor(
+        identityProvider: IdentityProvider,
+        serviceProvider: ServiceProvider,
+        options: SAMLLogoutOptions = {}
+    ) {
+        if (identityProvider.singleLogoutServices.length === 0) {
+            throw new Error(`IdP ${identityProvider.entityID} has no SingleLogoutService.`);
+        }
+        this.idp = identityProvider;
+        this.sp = serviceProvider;
+        const logoutEndpoint =
+            options.logoutEndpoint ?? serviceProvider.singleLogoutServices[0]?.location;
+        if (!logoutEndpoint) {
+            throw new Error(
+                "logoutEndpoint is required when the SP metadata has no SingleLogoutService."
+            );
+        }
+        new URL(logoutEndpoint); // throws if malformed
+        this.logoutEndpoint = logoutEndpoint;
+
+        this.signing =
+            options.signMessages ?? true
+                ? {
+                      privateKey: serviceProvider.privateKey,
+                      certificate: serviceProvider.certificate,
+                      algorithm: options.signatureAlgorithm,
+                  }
+                : null;
+        this.requireSignedMessages = options.requireSignedMessages ?? true;
+        this.clock = new Clock(options);
+        this.xmlLimits = resolveXMLLimits(options.xmlLimits);
+    }
+
+    /** Builds the HTTP-Redirect URL for an SP-initiated LogoutRequest. */
+    createLogoutRequestURL(
+        subject: LogoutSubject,
+        relayState?: string
+    ): { id: string; url: string } {
+        const endpoint = this.endpoint(BINDINGS.redirect);
+        const { id, xml } = this.buildLogoutRequest(subject, endpoint);
+        return {
+            id,
+            url: buildRedirectURL(endpoint, "SAMLRequest", xml, {
+                relayState,
+                signing: this.signing ?? undefined,
+            }),
+        };
+    }
+
+    /** Builds the HTTP-POST message for an SP-initiated LogoutRequest. */
+    createLogoutRequestPost(
+        subject: LogoutSubject,
+        relayState?: string
+    ): PostBindingMessage & { id: string } {
+        const endpoint = this.endpoint(BINDINGS.post);
+        const { id, xml } = this.buildLogoutRequest(subject, endpoint);
+        return { id, ...this.postMessage(endpoint, "SAMLRequest", xml, relayState) };
+    }
+
+    /** Renders `createLogoutRequestPost` as a self-submitting HTML page. */
+    createLogoutRequestForm(
+        subject: LogoutSubject,
+        relayState?: string,
+        options: PostFormOptions = {}
+    ): { id: string; html: string } {
+        const message = this.createLogoutRequestPost(subject, relayState);
+        return { id: message.id, html: buildPostForm(message, options) };
+    }
+
+    /**
+     * Decodes and validates an IdP-initiated LogoutRequest: signature, Issuer,
+     * Destination and NotOnOrAfter. Terminate the matching local sessions, then
+     * answer with `createLogoutResponseURL` or `createLogoutResponsePost`.
+     */
+    processLogoutRequest(message: InboundMessage): ParsedLogoutRequest {
+        const decoded = decodeMessage(message);
+        const root = this.validateMessage(decoded, "LogoutRequest");
+        const id = root.getAttribute("ID");
+        if (!id) throw new MalformedXMLError("LogoutRequest has no ID.");
+
+        const notOnOrAfter = dateTimeAttribute(root, "NotOnOrAfter");
+        if (notOnOrAfter && this.clock.hasReached(notOnOrAfter)) {
+            throw new TimeWindowError(
+                "MESSAGE_EXPIRED",
+                `LogoutRequest has expired. NotOnOrAfter: ${notOnOrAfter.toISOString()}`,
+                { notOnOrAfter, now: this.clock.now() }
+            );
+        }
+
+        const nameIDNode = childElements(root, NS.saml, "NameID")[0];
+        return {
+            xml: decoded.xml,
+            id,
+            issuer: this.idp.entityID,
+            nameID: nameIDNode?.textContent ?? null,
+            sessionIndexes: childElements(root, NS.samlp, "SessionIndex").map(
+                (el) => el.textContent ?? ""
+            ),
+            notOnOrAfter,
+            relayState: decoded.relayState,
+        };
+    }
+
+    /** Builds the HTTP-Redirect URL answering an IdP-initiated LogoutRequest. */
+    createLogoutResponseURL(request: ParsedLogoutRequest, statusCode = STATUS_SUCCESS): string {
+        const endpoint = this.endpoint(BINDINGS.redirect, true);
+        return buildRedirectURL(
+            endpoint,
+            "SAMLResponse",
+            this.buildLogoutResponse(request.id, statusCode, endpoint),
+            { relayState: request.relayState ?? undefined, signing: this.signing ?? undefined }
+        );
+    }
+
+    /** Builds the HTTP-POST message answering an IdP-initiated LogoutRequest. */
+    createLogoutResponsePost(
+        request: ParsedLogoutRequest,
+        statusCode = STATUS_SUCCESS
+    ): PostBindingMessage {
+        const endpoint = this.endpoint(BINDINGS.post, true);
+        return this.postMessage(
+            endpoint,
+            "SAMLResponse",
+            this.buildLogoutResponse(request.id, statusCode, endpoint),
+            request.relayState ?? undefined
+        );
+    }
+
+    /** Renders `createLogoutResponsePost` as a self-submitting HTML page. */
+    createLogoutResponseForm(
+        request: ParsedLogoutRequest,
+        statusCode = STATUS_SUCCESS,
+        options: PostFormOptions = {}
+    ): string {
+        return buildPostForm(this.createLogoutResponsePost(request, statusCode), options);
+    }
+
+    /**
+     * Decodes and validates the IdP's LogoutResponse to an SP-initiated logout.
+     * Pass the `id` returned when the request was created to check `InResponseTo`.
+     * Throws unless the IdP reports Success.
+     */
+    processLogoutResponse(message: InboundMessage, requestID?: string): ParsedLogoutResponse {
+        const decoded = decodeMessage(message);
+        const root = this.validateMessage(decoded, "LogoutResponse");
+
+        const inResponseTo = root.getAttribute("InResponseTo") || null;
+        if (requestID !== undefined && inResponseTo !== requestID) {
+            throw new ValidationError(
+                "IN_RESPONSE_TO_MISMATCH",
+                `LogoutResponse InResponseTo ${inResponseTo} does not match request ${requestID}.`,
+                { expected: requestID, actual: inResponseTo }
+            );
+        }
+
+        const status = readStatus(root) ?? { codes: [], message: null, detail: null };
+        const statusCode = status.codes[0] ?? null;
+        if (statusCode !== STATUS_SUCCESS) {
+            throw new StatusError(
+                `IdP reported logout failure. StatusCode: ${status.codes.join(" / ") || null}`,
+                status
+            );
+        }
+
+        return {
+            xml: decoded.xml,
+            id: root.getAttribute("ID") ?? "",
+            inResponseTo,
+            issuer: this.idp.entityID,
+            statusCode,
+            relayState: decoded.relayState,
+        };
+    }
+
+    private endpoint(binding: string, response = false): string {
+        const service = this.idp.singleLogoutService(binding);
+        if (!service) {
+            throw new Error(`IdP ${this.idp.entityID} has no SingleLogoutService for ${binding}.`);
+        }
+        return response ? service.responseLocation ?? service.location : service.location;
+    }
+
+    private postMessage(
+        action: string,
+        messageType: "SAMLRequest" | "SAMLResponse",
+        xml: string,
+        relayState?: string
+    ): PostBindingMessage {
+        const signed = this.signing ? signXML(xml, this.signing, "Issuer") : xml;
+        const message: PostBindingMessage = {
+            action,
+            fields: { [messageType]: Buffer.from(signed, "utf-8").toString("base64") },
+        };
+        if (relayState !== undefined) message.fields.RelayState = relayState;
+        return message;
+    }
+
+    private buildLogoutRequest(
+        subject: LogoutSubject,
+        destination: string
+    ): { id: string; xml: string } {
+        if (!subject.nameID) {
+            throw new Error("nameID is required to build a LogoutRequest.");
+        }
+        const id = generateRandomEntityID();
+        const xml = create({
+            "samlp:LogoutRequest": {
+                "@xmlns:samlp": NS.samlp,
+                "@xmlns:saml": NS.saml,
+                "@ID": id,
+                "@Version": "2.0",
+                "@IssueInstant": this.clock.now().toISOString(),
+                "@Destination": destination,
+                "saml:Issuer": this.sp.entityID,
+                "saml:NameID": {
+                    ...(subject.nameQualifier ? { "@NameQualifier": subject.nameQualifier } : {}),
+                    ...(subject.spNameQualifier
+                        ? { "@SPNameQualifier": subject.spNameQualifier }
+                        : {}),
+                    ...(subject.nameIDFormat ? { "@Format": subject.nameIDFormat } : {}),
+                    "#": subject.nameID,
+                },
+                ...(subject.sessionIndex ? { "samlp:SessionIndex": subject.sessionIndex } : {}),
+            },
+        }).end();
+        return { id, xml };
+    }
+
+    private buildLogoutResponse(
+        inResponseTo: string,
+        statusCode: string,
+        destination: string
+    ): string {
+        return create({
+            "samlp:LogoutResponse": {
+                "@xmlns:samlp": NS.samlp,
+                "@xmlns:saml": NS.saml,
+                "@ID": generateRandomEntityID(),
+                "@Version": "2.0",
+                "@IssueInstant": this.clock.now().toISOString(),
+                "@Destination": destination,
+                "@InResponseTo": inResponseTo,
+                "saml:Issuer": this.sp.entityID,
+                "samlp:Status": {
+                    "samlp:StatusCode": { "@Value": statusCode },
+                },
+            },
+        }).end();
+    }
+
+    /** Checks the element type, signature, Issuer and Destination shared by both logout messages. */
+    private validateMessage(decoded: DecodedMessage, localName: string): Element {
+        const root = parseXML(decoded.xml, this.xmlLimits).documentElement;
+        if (!root || root.namespaceURI !== NS.samlp || root.localName !== localName) {
+            throw new MalformedXMLError(`Expected a samlp:${localName}.`);
+        }
+        if (root.getAttribute("Version") !== "2.0") {
+            throw new MalformedXMLError(
+                `Unsupported SAML version: ${root.getAttribute("Version")}`
+            );
+        }
+
+        const trusted = { certificates: this.idp.signingCertificates };
+        let signed: boolean;
+        if (decoded.redirectSignature) {
+            const { signedContent, sigAlg, signature } = decoded.redirectSignature;
+            if (!verifyDetached(signedContent, sigAlg, signature, trusted)) {
+                throw new SignatureError(
+                    "SIGNATURE_INVALID",
+                    `Signature on ${localName} is not valid for any trusted certificate.`
+                );
+            }
+            signed = true;
+        } else {
+            signed = verifyEnvelopedSignature(root, trusted);
+        }
+        if (this.requireSignedMessages && !signed) {
+            throw new SignatureError("SIGNATURE_MISSING", `${localName} is not signed.`);
+        }
+
+        const issuer = childElements(root, NS.saml, "Issuer")[0]?.textContent?.trim() ?? null;
+        if (issuer !== this.idp.entityID) {
+            throw new ValidationError(
+                "ISSUER_MISMATCH",
+                `${localName} Issuer ${issuer} does not match IdP ${this.idp.entityID}.`,
+                { expected: this.idp.entityID, actual: issuer }
+            );
+        }
+
+        const destination = root.getAttribute("Destination");
+        if (destination && destination !== this.logoutEndpoint) {
+            throw new ValidationError(
+                "DESTINATION_MISMATCH",
+                `${localName} Destination ${destination} does not match ${this.logoutEndpoint}.`,
+                { expected: this.logoutEndpoint, actual: destination }
+            );
+        }
+
+        return root;
+    }
+}
@@ -1,47 +1,301 @@
 import { create } from "xmlbuilder2";
+import { IdentityProvider } from "./IdentityProvider";
+import { PostBindingMessage, PostFormOptions, buildPostForm, buildRedirectURL } from "./bindings";
+import { SigningOptions, signXML } from "./signature";
+import {
+    AuthnRequestOptions,
+    IdPEntry,
+    RequestStore,
+    SAMLRequestOptions,
+    Scoping,
+} from "./types";
 import { generateRandomEntityID } from "./utils";
+import { BINDINGS, NS } from "./xml";
+import { RelayStateCodec } from "./RelayState";
+
+const COMPARISONS = ["exact", "minimum", "maximum", "better"];
 
 export class SAMLRequest {
-    private readonly idpURL: URL;
+    private readonly redirectURL: URL | null;
+    private readonly postURL: URL | null;
     private readonly assertionEndpoint: string;
+    private readonly issuer: string;
+    private readonly signing: SigningOptions | null;
+    private readonly requestStore: RequestStore | null;
+    private readonly relayState: RelayStateCodec | null;
+    private readonly authnDefaults: AuthnRequestOptions;
 
-    constructor(idpURL: string, assertionEndpoint: string) {
+    /** `idp` is either the IdP's SSO URL or an `IdentityProvider` built from its metadata. */
+    constructor(
+        idp: string | IdentityProvider,
+        assertionEndpoint: string,
+        options: SAMLRequestOptions = {}
+    ) {
         if (!assertionEndpoint || assertionEndpoint.length === 0) {
             throw new Error("assertionEndpoint is required.");
         }
-        this.idpURL = new URL(idpURL);   // throws if malformed
+        if (typeof idp === "string") {
+            this.redirectURL = new URL(idp);   // throws if malformed
+            this.postURL = this.redirectURL;
+        } else {
+            const redirectURL = idp.singleSignOnURL(BINDINGS.redirect);
+            const postURL = idp.singleSignOnURL(BINDINGS.post);
+            if (!redirectURL && !postURL) {
+                throw new Error(`IdP ${idp.entityID} has no HTTP-Redirect or HTTP-POST SSO endpoint.`);
+            }
+            this.redirectURL = redirectURL ? new URL(redirectURL) : null;
+            this.postURL = postURL ? new URL(postURL) : null;
+        }
         new URL(assertionEndpoint);       // throws if malformed
         this.assertionEndpoint = assertionEndpoint;
+
+        const sp = options.serviceProvider;
+        this.issuer = sp?.entityID ?? assertionEndpoint;
+
+        if (options.signRequests ?? !!sp) {
+            if (!sp) {
+                throw new Error("serviceProvider is required to sign requests.");
+            }
+            this.signing = {
+                privateKey: sp.privateKey,
+                certificate: sp.certificate,
+                algorithm: options.signatureAlgorithm,
+            };
+        } else {
+            this.signing = null;
+        }
+
+        this.requestStore = options.requestStore ?? null;
+        this.relayState = options.relayState ? new RelayStateCodec(options.relayState) : null;
+        this.authnDefaults = options.authnRequest ?? {};
+        validateAuthnOptions(this.authnDefaults);
+
+        if (typeof idp !== "string" && idp.wantAuthnRequestsSigned && !this.signing) {
+            throw new Error(`IdP ${idp.entityID} requires signed AuthnRequests.`);
+        }
+    }
+
+    /** Returns the AuthnRequest XML; `options` override the constructor's `authnRequest`. */
+    generateAuthNRequest(options: AuthnRequestOptions = {}): string {
+        return this.buildAuthNRequest(this.defaultDestination, options).xml;
+    }
+
+    /** Like `generateAuthNRequest`, but returns the request ID and records it in the request store. */
+    async createAuthNRequest(
+        options: AuthnRequestOptions = {}
+    ): Promise<{ id: string; xml: string }> {
+        return this.record(this.buildAuthNRequest(this.defaultDestination, options));
+    }
+
+    private get defaultDestination(): URL {
+        return (this.redirectURL ?? this.postURL) as URL;
     }
 
-    generateAuthNRequest(): string {
+    private async record<T extends { id: string }>(request: T): Promise<T> {
+        if (this.requestStore) await this.requestStore.save(request.id);
+        return request;
+    }
+
+    private buildAuthNRequest(
+        destination: URL,
+        overrides: AuthnRequestOptions
+    ): { id: string; xml: string } {
+        const options = { ...this.authnDefaults, ...overrides };
+        validateAuthnOptions(options);
+
         const id = generateRandomEntityID();
         const issueInstant = new Date().toISOString();
 
-        return create({
-            "samlp:AuthnRequest": {
-                "@xmlns:samlp": "urn:oasis:names:tc:SAML:2.0:protocol",
-                "@xmlns:saml": "urn:oasis:names:tc:SAML:2.0:assertion",
-                "@ID": id,
-                "@Version": "2.0",
-                "@IssueInstant": issueInstant,
-                "@Destination": this.idpURL.toString(),
-                "@AssertionConsumerServiceURL": this.assertionEndpoint,
-                "@ProtocolBinding": "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST",
-                "saml:Issuer": this.assertionEndpoint,
-                "samlp:NameIDPolicy": {
-                    "@Format": "urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified",
-                    "@AllowCreate": "true",
-                },
-            },
-        }).end();
-    }
-
-    /** Returns the full redirect URL with SAMLRequest encoded in the query string. */
-    createAuthNURL(): string {
-        const encoded = Buffer.from(this.generateAuthNRequest()).toString("base64");
-        const url = new URL(this.idpURL.toString());
-        url.searchParams.set("SAMLRequest", encoded);
-        return url.toString();
-    }
-}
\ No newline at end of file
+        // Attributes and children follow the order of the AuthnRequestType schema.
+        const request: Record<string, unknown> = {
+            "@xmlns:samlp": NS.samlp,
+            "@xmlns:saml": NS.saml,
+            "@ID": id,
+            "@Version": "2.0",
+            "@IssueInstant": issueInstant,
+            "@Destination": destination.toString(),
+        };
+        if (options.providerName !== undefined) request["@ProviderName"] = options.providerName;
+        if (options.forceAuthn !== undefined) request["@ForceAuthn"] = String(options.forceAuthn);
+        if (options.isPassive !== undefined) request["@IsPassive"] = String(options.isPassive);
+        if (options.assertionConsumerServiceIndex !== undefined) {
+            request["@AssertionConsumerServiceIndex"] = options.assertionConsumerServiceIndex;
+        } else {
+            request["@AssertionConsumerServiceURL"] =
+                options.assertionConsumerServiceURL ?? this.assertionEndpoint;
+            request["@ProtocolBinding"] = BINDINGS.post;
+        }
+        if (options.attributeConsumingServiceIndex !== undefined) {
+            request["@AttributeConsumingServiceIndex"] = options.attributeConsumingServiceIndex;
+        }
+
+        request["saml:Issuer"] = this.issuer;
+        if (options.nameIDPolicy !== null) {
+            const policy = options.nameIDPolicy ?? {};
+            request["samlp:NameIDPolicy"] = {
+                "@Format": policy.format ?? "urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified",
+                ...(policy.spNameQualifier !== undefined
+                    ? { "@SPNameQualifier": policy.spNameQualifier }
+                    : {}),
+                "@AllowCreate": String(policy.allowCreate ?? true),
+            };
+        }
+        if (options.requestedAuthnContext) {
+            const { classRefs, comparison } = options.requestedAuthnContext;
+            request["samlp:RequestedAuthnContext"] = {
+                "@Comparison": comparison ?? "exact",
+                "saml:AuthnContextClassRef": classRefs,
+            };
+        }
+        if (options.scoping) request["samlp:Scoping"] = scopingElement(options.scoping);
+
+        const xml = create({ "samlp:AuthnRequest": request }).end();
+        return { id, xml };
+    }
+
+    /**
+     * Returns the HTTP-Redirect binding URL: the AuthnRequest is DEFLATEd and
+     * Base64-encoded into `SAMLRequest`, and the query string is signed with the
+     * SP key when signing is enabled. The request ID is neither returned nor
+     * recorded; use `createAuthNRedirect` to correlate the response or to
+     * send a protected `RelayState`.
+     */
+    createAuthNURL(relayState?: string, options: AuthnRequestOptions = {}): string {
+        if (this.relayState && relayState !== undefined) {
+            throw new Error("relayState protection is asynchronous; use createAuthNRedirect.");
+        }
+        return this.buildRedirect(relayState, options).url;
+    }
+
+    /**
+     * Like `createAuthNURL`, but returns the request ID and records it in the
+     * request store. `relayState` is protected when `relayState` options are set.
+     */
+    async createAuthNRedirect(
+        relayState?: string,
+        options: AuthnRequestOptions = {}
+    ): Promise<{ id: string; url: string }> {
+        return this.record(this.buildRedirect(await this.encodeRelayState(relayState), options));
+    }
+
+    /**
+     * Returns the HTTP-POST binding message and the request ID, which is recorded
+     * in the request store. When signing is enabled the AuthnRequest carries an
+     * enveloped `ds:Signature` right after `saml:Issuer`.
+     */
+    async createAuthNPost(
+        relayState?: string,
+        options: AuthnRequestOptions = {}
+    ): Promise<PostBindingMessage & { id: string }> {
+        if (!this.postURL) {
+            throw new Error("IdP has no HTTP-POST SSO endpoint.");
+        }
+        const encodedRelayState = await this.encodeRelayState(relayState);
+        const request = this.buildAuthNRequest(this.postURL, options);
+        const xml = this.signing ? signXML(request.xml, this.signing, "Issuer") : request.xml;
+
+        const message: PostBindingMessage & { id: string } = {
+            id: request.id,
+            action: this.postURL.toString(),
+            fields: { SAMLRequest: Buffer.from(xml, "utf-8").toString("base64") },
+        };
+        if (encodedRelayState !== undefined) message.fields.RelayState = encodedRelayState;
+        return this.record(message);
+    }
+
+    /** Renders `createAuthNPost` as a self-submitting HTML page a route handler can return as-is. */
+    async createAuthNForm(
+        relayState?: string,
+        formOptions: PostFormOptions = {},
+        options: AuthnRequestOptions = {}
+    ): Promise<{ id: string; html: string }> {
+        const message = await this.createAuthNPost(relayState, options);
+        return { id: message.id, html: buildPostForm(message, formOptions) };
+    }
+
+    private async encodeRelayState(relayState?: string): Promise<string | undefined> {
+        if (relayState === undefined || !this.relayState) return relayState;
+        return this.relayState.encode(relayState);
+    }
+
+    private buildRedirect(
+        relayState: string | undefined,
+        options: AuthnRequestOptions
+    ): { id: string; url: string } {
+        if (!this.redirectURL) {
+            throw new Error("IdP has no HTTP-Redirect SSO endpoint.");
+        }
+        const { id, xml } = this.buildAuthNRequest(this.redirectURL, options);
+        const url = buildRedirectURL(this.redirectURL.toString(), "SAMLRequest", xml, {
+            relayState,
+            signing: this.signing ?? undefined,
+        });
+        return { id, url };
+    }
+}
+
+/** Rejects AuthnRequest option combinations the SAML schema or profile does not allow. */
+function validateAuthnOptions(options: AuthnRequestOptions): void {
+    if (options.forceAuthn && options.isPassive) {
+        throw new Error("forceAuthn and isPassive cannot both be true.");
+    }
+    if (
+        options.assertionConsumerServiceIndex !== undefined &&
+        options.assertionConsumerServiceURL !== undefined
+    ) {
+        throw new Error(
+            "assertionConsumerServiceIndex cannot be combined with assertionConsumerServiceURL."
+        );
+    }
+    if (options.assertionConsumerServiceURL !== undefined) {
+        new URL(options.assertionConsumerServiceURL); // throws if malformed
+    }
+    const indexes = ["assertionConsumerServiceIndex", "attributeConsumingServiceIndex"] as const;
+    for (const name of indexes) {
+        const index = options[name];
+        if (index !== undefined && !(Number.isInteger(index) && index >= 0 && index <= 0xffff)) {
+            throw new Error(`${name} must be an integer between 0 and 65535.`);
+        }
+    }
+
+    const context = options.requestedAuthnContext;
+    if (context) {
+        if (context.classRefs.length === 0) {
+            throw new Error("requestedAuthnContext needs at least one class reference.");
+        }
+        if (context.comparison !== undefined && !COMPARISONS.includes(context.comparison)) {
+            throw new Error(`Unknown AuthnContext comparison: ${context.comparison}`);
+        }
+    }
+
+    const scoping = options.scoping;
+    if (scoping) {
+        const { proxyCount, idpList } = scoping;
+        if (proxyCount !== undefined && !(Number.isInteger(proxyCount) && proxyCount >= 0)) {
+            throw new Error("scoping.proxyCount must be a non-negative integer.");
+        }
+        if (idpList && idpList.length === 0) {
+            throw new Error("scoping.idpList needs at least one IdP.");
+        }
+    }
+}
+
+function scopingElement({ proxyCount, idpList, requesterIDs }: Scoping): Record<string, unknown> {
+    const scoping: Record<string, unknown> = {};
+    if (proxyCount !== undefined) scoping["@ProxyCount"] = proxyCount;
+    if (idpList) {
+        scoping["samlp:IDPList"] = {
+            "samlp:IDPEntry": idpList.map((entry) => {
+                const { providerID, name, loc }: IdPEntry =
+                    typeof entry === "string" ? { providerID: entry } : entry;
+                return {
+                    "@ProviderID": providerID,
+                    ...(name !== undefined ? { "@Name": name } : {}),
+                    ...(loc !== undefined ? { "@Loc": loc } : {}),
+                };
+            }),
+        };
+    }
+    if (requesterIDs) scoping["samlp:RequesterID"] = requesterIDs;
+    return scoping;
+}
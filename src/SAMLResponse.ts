@@ -1,172 +1,987 @@
-import { DOMParser, DOMParserOptions } from "@xmldom/xmldom";
+import * as crypto from "node:crypto";
+import { Document, Element, XMLSerializer } from "@xmldom/xmldom";
 import * as xmlenc from "xml-encryption";
 import { IncomingMessage } from "http";
+import {
+    BodyLimits,
+    DecryptionKey,
+    KeyStatus,
+    ParsedAssertion,
+    SAMLAttribute,
+    SAMLResponseOptions,
+    SAMLStatus,
+    SOAPTransport,
+    SignedElements,
+    XMLLimits,
+} from "./types";
+import {
+    NS,
+    STATUS_SUCCESS,
+    childElements,
+    dateTimeAttribute,
+    elementChildren,
+    parseXML,
+    readStatus,
+    resolveXMLLimits,
+} from "./xml";
+import { TrustedKeys, verifyEnvelopedSignature } from "./signature";
+import {
+    BindingError,
+    DecryptionError,
+    MalformedXMLError,
+    ReplayError,
+    SignatureError,
+    StatusError,
+    TimeWindowError,
+    ValidationError,
+} from "./errors";
+import { Clock, extractPEMBody, toPEMCertificate } from "./utils";
+import { RelayStateCodec } from "./RelayState";
+import {
+    FormBody,
+    decodeBase64,
+    readFetchBody,
+    readFormFields,
+    requestFormBody,
+    resolveBodyLimits,
+} from "./bindings";
+import { readAttribute } from "./attributes";
+import {
+    SOAP_HEADERS,
+    artifactSourceID,
+    buildArtifactResolve,
+    buildSOAPEnvelope,
+    fetchSOAPTransport,
+    parseArtifact,
+    readSOAPBody,
+} from "./artifact";
 
-// Pre-declare all SAML namespace prefixes so the parser never throws a
-// NamespaceError on fragments where xmlns:* attributes are absent.
-// NamespaceErrors are fatalErrors inside @xmldom/xmldom's SAX layer and are
-// thrown before the onError handler is ever called, so the only reliable fix
-// is to seed the parser with the known prefixes upfront.
-const PARSER_OPTIONS: DOMParserOptions = {
-    xmlns: {
-        saml:   "urn:oasis:names:tc:SAML:2.0:assertion",
-        saml2:  "urn:oasis:names:tc:SAML:2.0:assertion",
-        samlp:  "urn:oasis:names:tc:SAML:2.0:protocol",
-        samlp2: "urn:oasis:names:tc:SAML:2.0:protocol",
-        ds:     "http://www.w3.org/2000/09/xmldsig#",
-        xenc:   "http://www.w3.org/2001/04/xmlenc#",
-        md:     "urn:oasis:names:tc:SAML:2.0:metadata",
-    },
-};
-import { DecryptOptions, ParsedAssertion } from "./types";
+// How long to remember an assertion that carries no expiry of its own.
+const DEFAULT_REPLAY_RETENTION_MS = 1000 * 60 * 60 * 24;
+
+const BEARER = "urn:oasis:names:tc:SAML:2.0:cm:bearer";
+
+const KEY_ORDER: KeyStatus[] = ["active", "next", "retiring"];
+
+const NOT_POST = "SAML responses must arrive via HTTP POST, or via GET carrying a SAMLart.";
+
+/** A decryption key with the `ds:KeyInfo` values that identify it. */
+interface CandidateKey {
+    privateKey: string;
+    certificate: string | null;
+    serialNumber: string | null;
+}
 
 export class SAMLResponse {
-    private readonly decryptOptions: DecryptOptions;
+    private readonly options: SAMLResponseOptions;
+    private readonly clock: Clock;
+    private readonly relayState: RelayStateCodec | null;
+    private readonly keys: CandidateKey[];
+    private readonly bodyLimits: Required<BodyLimits>;
+    private readonly xmlLimits: Required<XMLLimits>;
+    private readonly soapTransport: SOAPTransport;
 
-    constructor(decryptOptions: DecryptOptions) {
-        if (!decryptOptions.privateKey) {
+    constructor(options: SAMLResponseOptions) {
+        if (options.keys && options.privateKey) {
+            throw new Error("Pass either privateKey or keys, not both.");
+        }
+        if (options.keys ? options.keys.length === 0 : !options.privateKey) {
             throw new Error("privateKey is required to decrypt assertions.");
         }
-        this.decryptOptions = decryptOptions;
+        this.options = options;
+        const requiresSignature = options.requireSignedAssertion || options.requireSignedResponse;
+        if (requiresSignature && !this.trustedKeys) {
+            throw new Error(
+                "idpCertificates, idpFingerprints or an identityProvider with signing " +
+                    "certificates are required to verify signatures."
+            );
+        }
+        this.keys = candidateKeys(options.keys ?? [{ privateKey: options.privateKey as string }]);
+        this.clock = new Clock(options);
+        this.relayState = options.relayState ? new RelayStateCodec(options.relayState) : null;
+        this.bodyLimits = resolveBodyLimits(options.bodyLimits);
+        this.xmlLimits = resolveXMLLimits(options.xmlLimits);
+        this.soapTransport =
+            options.artifactResolution?.transport ?? fetchSOAPTransport(this.bodyLimits);
+    }
+
+    /**
+     * Parse and decrypt a SAML response from an incoming HTTP POST request, or
+     * resolve the artifact of an HTTP-Artifact GET. The `RelayState` sent
+     * alongside it is returned on the result. A body that a body parser
+     * already left on `req.body` is used instead of the stream.
+     */
+    async processRequest(req: IncomingMessage & { body?: unknown }): Promise<ParsedAssertion> {
+        const url = req.url ?? "";
+        if (req.method === "GET" && hasArtifact(url)) return this.processQuery(url);
+        if (req.method !== "POST") {
+            throw new BindingError(NOT_POST);
+        }
+        return this.processBody(await requestFormBody(req, req.body, this.bodyLimits));
     }
 
-    /** Parse and decrypt a SAML response from an incoming HTTP POST request. */
-    async processRequest(req: IncomingMessage): Promise<ParsedAssertion | null> {
-        const rawXML = await this.extractXMLFromRequest(req);
-        if (!rawXML) return null;
-        return this.processXML(rawXML);
+    /**
+     * Parse and decrypt a SAML response from a POST body that was already read:
+     * the object from Express `urlencoded()`, `@fastify/formbody` or
+     * `koa-bodyparser`, or the raw urlencoded text.
+     */
+    async processBody(body: FormBody): Promise<ParsedAssertion> {
+        const fields = readFormFields(body);
+        if (fields.SAMLart !== undefined) {
+            if (fields.SAMLResponse !== undefined) {
+                throw new BindingError("The request body carries both SAMLResponse and SAMLart.");
+            }
+            return this.processArtifact(fields.SAMLart, fields.RelayState ?? null);
+        }
+        if (!fields.SAMLResponse) {
+            throw new BindingError("No SAMLResponse parameter in the request body.");
+        }
+        const xml = decodeBase64(fields.SAMLResponse, "SAMLResponse").toString("utf-8");
+        if (xml.length === 0) {
+            throw new BindingError("SAMLResponse parameter is empty.");
+        }
+        return this.processXML(xml, fields.RelayState ?? null);
+    }
+
+    /**
+     * Parse and decrypt a SAML response from a Fetch API `Request`, as received
+     * by Next.js route handlers, Hono and other Fetch-style runtimes.
+     */
+    async processFetchRequest(request: Request): Promise<ParsedAssertion> {
+        if (request.method === "GET" && hasArtifact(request.url)) {
+            return this.processQuery(request.url);
+        }
+        if (request.method !== "POST") {
+            throw new BindingError(NOT_POST);
+        }
+        return this.processBody(await readFetchBody(request, this.bodyLimits));
+    }
+
+    /**
+     * Resolve the `SAMLart` artifact in the query string, or full URL, of an
+     * HTTP-Artifact GET. The `RelayState` beside it is returned on the result.
+     */
+    async processQuery(query: string): Promise<ParsedAssertion> {
+        const params = new URLSearchParams(query.slice(query.indexOf("?") + 1));
+        const artifacts = params.getAll("SAMLart");
+        if (artifacts.length !== 1) {
+            throw new BindingError(
+                artifacts.length === 0
+                    ? "No SAMLart parameter in the query string."
+                    : "SAMLart appears more than once in the query string."
+            );
+        }
+        return this.processArtifact(artifacts[0], params.get("RelayState"));
     }
 
-    /** Parse and decrypt a SAML response from a raw XML string. */
-    async processXML(xml: string): Promise<ParsedAssertion | null> {
-        const normalised = xml.replace(/\r\n?/g, "\n");
-        const doc = new DOMParser(PARSER_OPTIONS).parseFromString(normalised, "text/xml");
+    /**
+     * Resolve an artifact received on the HTTP-Artifact binding. A signed
+     * ArtifactResolve is sent over SOAP to the IdP ArtifactResolutionService
+     * that the artifact's EndpointIndex names. The Response carried by the
+     * ArtifactResponse is then processed exactly as `processXML` would.
+     */
+    async processArtifact(
+        artifact: string,
+        relayState: string | null = null
+    ): Promise<ParsedAssertion> {
+        const { identityProvider: idp, serviceProvider: sp } = this.options;
+        const { artifactResolution = {} } = this.options;
+        if (!idp || !sp) {
+            throw new Error(
+                "identityProvider and serviceProvider are required to resolve artifacts."
+            );
+        }
+        const { endpointIndex, sourceID } = parseArtifact(artifact);
+        if (!sourceID.equals(artifactSourceID(idp.entityID))) {
+            throw new ValidationError(
+                "ISSUER_MISMATCH",
+                `Artifact SourceID does not match IdP ${idp.entityID}.`,
+                { expected: idp.entityID, actual: sourceID.toString("hex") }
+            );
+        }
+        const endpoint = idp.artifactResolutionService(endpointIndex);
+        if (!endpoint) {
+            throw new BindingError(
+                `IdP ${idp.entityID} has no SOAP ArtifactResolutionService with index ` +
+                    `${endpointIndex}.`
+            );
+        }
+
+        const request = buildArtifactResolve(artifact, {
+            issuer: sp.entityID,
+            destination: endpoint.location,
+            issueInstant: this.clock.now(),
+            signing:
+                artifactResolution.signRequests ?? true
+                    ? {
+                          privateKey: sp.privateKey,
+                          certificate: sp.certificate,
+                          algorithm: artifactResolution.signatureAlgorithm,
+                      }
+                    : null,
+        });
+        const reply = await this.soapTransport({
+            url: endpoint.location,
+            headers: { ...SOAP_HEADERS },
+            body: buildSOAPEnvelope(request.xml),
+        });
+        if (Buffer.byteLength(reply.body, "utf-8") > this.bodyLimits.maxBytes) {
+            throw new BindingError(`The SOAP response exceeds ${this.bodyLimits.maxBytes} bytes.`);
+        }
+
+        let message: Element;
+        try {
+            message = readSOAPBody(reply.body, this.xmlLimits);
+        } catch (err) {
+            // SOAP faults arrive with HTTP 500; anything else unparseable is reported by status.
+            if (reply.status === 200 || !(err instanceof MalformedXMLError)) throw err;
+            throw new BindingError(`ArtifactResolutionService answered HTTP ${reply.status}.`);
+        }
+        if (reply.status !== 200) {
+            throw new BindingError(`ArtifactResolutionService answered HTTP ${reply.status}.`);
+        }
+        const responseNode = this.validateArtifactResponse(message, request.id);
+        return this.processMessage(responseNode, relayState);
+    }
+
+    /**
+     * Parse and decrypt a SAML response from a raw XML string. Every rejection
+     * is a `SAMLError` whose `code` says which check failed. `relayState` is the
+     * value that arrived with the response; with `relayState` options configured
+     * it is verified and unwrapped only after the assertion itself is accepted.
+     */
+    async processXML(xml: string, relayState: string | null = null): Promise<ParsedAssertion> {
+        const doc = parseXML(xml, this.xmlLimits);
+        return this.processMessage(doc.documentElement as Element, relayState);
+    }
+
+    /** Validates a Response or Assertion, parsed by `processXML` or resolved from an artifact. */
+    private async processMessage(
+        root: Element,
+        relayState: string | null
+    ): Promise<ParsedAssertion> {
+        const responseNode = isElement(root, NS.samlp, "Response") ? root : null;
+        if (
+            !responseNode &&
+            !isElement(root, NS.saml, "Assertion") &&
+            !isElement(root, NS.saml, "EncryptedAssertion")
+        ) {
+            throw new MalformedXMLError(
+                `Expected a samlp:Response or saml:Assertion, not ${root.tagName} ` +
+                    `in namespace ${root.namespaceURI}.`
+            );
+        }
+        checkUniqueIDs(root);
+
+        const signed: SignedElements = {
+            response: responseNode ? this.verifySignature(responseNode) : false,
+            assertion: false,
+        };
 
-        const encryptedNode =
-            doc.getElementsByTagName("saml2:EncryptedAssertion")[0] ??
-            doc.getElementsByTagName("EncryptedAssertion")[0] ??
-            null;
+        const status = responseNode ? readStatus(responseNode) : null;
+        if (status && status.codes[0] !== STATUS_SUCCESS) {
+            throw new StatusError(
+                `IdP did not return Success. StatusCode: ${status.codes.join(" / ") || null}` +
+                    (status.message ? ` (${status.message})` : ""),
+                status
+            );
+        }
 
+        const selected = selectAssertion(root, responseNode);
         let assertionXML: string;
+        let assertionNode: Element;
 
-        if (encryptedNode) {
-            assertionXML = await this.decryptNode(encryptedNode.toString());
+        if (isElement(selected, NS.saml, "EncryptedAssertion")) {
+            assertionXML = await this.decryptNode(selected);
+            const decrypted = parseXML(assertionXML, this.xmlLimits).documentElement;
+            if (!decrypted || !isElement(decrypted, NS.saml, "Assertion")) {
+                throw new MalformedXMLError("EncryptedAssertion does not contain an Assertion.");
+            }
+            checkUniqueIDs(decrypted);
+            assertionNode = selectAssertion(decrypted, null);
         } else {
-            const plainNode =
-                doc.getElementsByTagName("saml2:Assertion")[0] ??
-                doc.getElementsByTagName("Assertion")[0] ??
-                null;
-            if (!plainNode) return null;
-            assertionXML = plainNode.toString();
+            assertionNode = selected;
+            assertionXML = new XMLSerializer().serializeToString(assertionNode);
         }
 
-        return this.parseAssertion(assertionXML);
-    }
+        signed.assertion = this.verifySignature(assertionNode);
+        this.enforceSignaturePolicy(signed);
+        // The signature covers the encrypted form, so identifiers are decrypted only now.
+        if (await this.decryptIdentifiers(assertionNode)) {
+            assertionXML = new XMLSerializer().serializeToString(assertionNode);
+        }
+        this.validateProfile(responseNode, assertionNode, signed);
 
-    private decryptNode(encryptedXML: string): Promise<string> {
-        const options = {
-            key: this.decryptOptions.privateKey,
-            disallowDecryptionWithInsecureAlgorithm: true,
-            warnInsecureAlgorithm: true,
+        const parsed = this.parseAssertion(assertionNode, assertionXML, signed, status);
+        await this.recordAssertion(assertionNode, parsed.notOnOrAfter);
+        await this.consumeInResponseTo(responseNode, assertionNode);
+        return {
+            ...parsed,
+            relayState:
+                this.relayState && relayState !== null
+                    ? await this.relayState.decode(relayState)
+                    : relayState,
         };
+    }
 
-        return new Promise((resolve, reject) => {
-            xmlenc.decrypt(
-                encryptedXML,
-                options,
-                (err: Error | null, result: string) => {
-                    if (err) reject(new Error(`Decryption failed: ${err.message}`));
-                    else resolve(result);
+    /**
+     * Checks the ArtifactResponse answering the ArtifactResolve `requestID`
+     * and returns the samlp:Response it carries. A signature on the
+     * ArtifactResponse must verify when present, but it does not stand in for
+     * the signature the Response or its Assertion needs.
+     */
+    private validateArtifactResponse(message: Element, requestID: string): Element {
+        if (!isElement(message, NS.samlp, "ArtifactResponse")) {
+            throw new MalformedXMLError(
+                `Expected a samlp:ArtifactResponse, not ${message.tagName} ` +
+                    `in namespace ${message.namespaceURI}.`
+            );
+        }
+        checkUniqueIDs(message);
+        this.verifySignature(message);
+
+        const inResponseTo = message.getAttribute("InResponseTo");
+        if (inResponseTo !== requestID) {
+            throw new ValidationError(
+                "IN_RESPONSE_TO_MISMATCH",
+                `ArtifactResponse InResponseTo ${inResponseTo} does not match ${requestID}.`,
+                { expected: requestID, actual: inResponseTo }
+            );
+        }
+        const idpEntityID = this.options.idpEntityID ?? this.options.identityProvider?.entityID;
+        const issuer = issuerOf(message);
+        const checkIssuer = !!idpEntityID && this.options.checks?.issuer !== false;
+        if (checkIssuer && issuer !== null && issuer !== idpEntityID) {
+            throw new ValidationError(
+                "ISSUER_MISMATCH",
+                `ArtifactResponse Issuer ${issuer} does not match IdP ${idpEntityID}.`,
+                { expected: idpEntityID, actual: issuer }
+            );
+        }
+        const status = readStatus(message);
+        if (!status) {
+            throw new MalformedXMLError("ArtifactResponse has no Status.");
+        }
+        if (status.codes[0] !== STATUS_SUCCESS) {
+            throw new StatusError(
+                `ArtifactResolutionService did not return Success. StatusCode: ` +
+                    `${status.codes.join(" / ") || null}` +
+                    (status.message ? ` (${status.message})` : ""),
+                status
+            );
+        }
+
+        // The resolved message follows the Issuer, Signature, Extensions and Status.
+        const carried = elementChildren(message).filter(
+            (el) =>
+                !isElement(el, NS.saml, "Issuer") &&
+                !isElement(el, NS.ds, "Signature") &&
+                !isElement(el, NS.samlp, "Extensions") &&
+                !isElement(el, NS.samlp, "Status")
+        );
+        if (carried.length === 0) {
+            throw new ValidationError(
+                "ASSERTION_MISSING",
+                "ArtifactResponse carries no message; the artifact is unknown, expired " +
+                    "or already resolved."
+            );
+        }
+        if (carried.length > 1 || !isElement(carried[0], NS.samlp, "Response")) {
+            throw new MalformedXMLError(
+                "ArtifactResponse must carry exactly one samlp:Response, not " +
+                    carried.map((el) => el.tagName).join(", ") + "."
+            );
+        }
+        // Only the Response is checked for stray assertions from here on.
+        const responseNode = carried[0];
+        for (const localName of ["Assertion", "EncryptedAssertion"]) {
+            const inMessage = message.getElementsByTagNameNS(NS.saml, localName).length;
+            if (inMessage !== responseNode.getElementsByTagNameNS(NS.saml, localName).length) {
+                throw new MalformedXMLError(
+                    `Unexpected saml:${localName} outside the Response in the ArtifactResponse.`
+                );
+            }
+        }
+        return responseNode;
+    }
+
+    /**
+     * Applies the Web Browser SSO profile checks: Issuer, Destination, Audience
+     * and bearer SubjectConfirmation. Each runs only when the value it compares
+     * against is configured and it has not been turned off in `checks`.
+     */
+    private validateProfile(
+        responseNode: Element | null,
+        assertionNode: Element,
+        signed: SignedElements
+    ): void {
+        const { serviceProvider, identityProvider, checks = {} } = this.options;
+        const audience = serviceProvider?.entityID;
+        const acsURL = this.options.assertionEndpoint ?? serviceProvider?.assertionEndpoint;
+        const idpEntityID = this.options.idpEntityID ?? identityProvider?.entityID;
+
+        if (idpEntityID && checks.issuer !== false) {
+            const responseIssuer = responseNode ? issuerOf(responseNode) : null;
+            if (responseIssuer !== null && responseIssuer !== idpEntityID) {
+                throw new ValidationError(
+                    "ISSUER_MISMATCH",
+                    `Response Issuer ${responseIssuer} does not match IdP ${idpEntityID}.`,
+                    { expected: idpEntityID, actual: responseIssuer }
+                );
+            }
+            const assertionIssuer = issuerOf(assertionNode);
+            if (assertionIssuer !== idpEntityID) {
+                throw new ValidationError(
+                    "ISSUER_MISMATCH",
+                    `Assertion Issuer ${assertionIssuer} does not match IdP ${idpEntityID}.`,
+                    { expected: idpEntityID, actual: assertionIssuer }
+                );
+            }
+        }
+
+        if (acsURL && responseNode && checks.destination !== false) {
+            const destination = responseNode.getAttribute("Destination");
+            if (destination && destination !== acsURL) {
+                throw new ValidationError(
+                    "DESTINATION_MISMATCH",
+                    `Response Destination ${destination} does not match ${acsURL}.`,
+                    { expected: acsURL, actual: destination }
+                );
+            }
+            if (!destination && signed.response) {
+                throw new ValidationError(
+                    "DESTINATION_MISMATCH",
+                    "Signed Response has no Destination.",
+                    { expected: acsURL }
+                );
+            }
+        }
+
+        if (audience && checks.audience !== false) {
+            const conditions = childElements(assertionNode, NS.saml, "Conditions")[0];
+            const restrictions = conditions
+                ? childElements(conditions, NS.saml, "AudienceRestriction")
+                : [];
+            if (restrictions.length === 0) {
+                throw new ValidationError(
+                    "AUDIENCE_MISMATCH",
+                    "Assertion has no AudienceRestriction.",
+                    { expected: audience }
+                );
+            }
+            for (const restriction of restrictions) {
+                const audiences = childElements(restriction, NS.saml, "Audience").map((el) =>
+                    (el.textContent ?? "").trim()
+                );
+                if (!audiences.includes(audience)) {
+                    throw new ValidationError(
+                        "AUDIENCE_MISMATCH",
+                        `Assertion audience ${audiences.join(", ")} does not include ${audience}.`,
+                        { expected: audience, actual: audiences.join(", ") }
+                    );
                 }
+            }
+        }
+
+        const checkConfirmation = checks.subjectConfirmation !== false && !!(audience || acsURL);
+        const checkRecipient = checks.recipient !== false && !!acsURL;
+        if (checkConfirmation || checkRecipient) {
+            this.validateSubjectConfirmation(
+                assertionNode,
+                checkConfirmation,
+                checkRecipient ? acsURL : undefined
             );
-        });
+        }
+    }
+
+    /** Requires at least one bearer SubjectConfirmation that passes every enabled check. */
+    private validateSubjectConfirmation(
+        assertionNode: Element,
+        checkConfirmation: boolean,
+        recipient: string | undefined
+    ): void {
+        const subject = childElements(assertionNode, NS.saml, "Subject")[0];
+        const confirmations = subject
+            ? childElements(subject, NS.saml, "SubjectConfirmation")
+            : [];
+        const reasons: string[] = [];
+        const recipients: (string | null)[] = [];
+
+        for (const confirmation of confirmations) {
+            const method = confirmation.getAttribute("Method");
+            if (method !== BEARER) {
+                reasons.push(`Method ${method} is not bearer`);
+                continue;
+            }
+            const data = childElements(confirmation, NS.saml, "SubjectConfirmationData")[0];
+            if (checkConfirmation) {
+                const notOnOrAfter = data ? dateTimeAttribute(data, "NotOnOrAfter") : null;
+                if (!notOnOrAfter) {
+                    reasons.push("SubjectConfirmationData has no NotOnOrAfter");
+                    continue;
+                }
+                if (this.clock.hasReached(notOnOrAfter)) {
+                    reasons.push(
+                        `SubjectConfirmationData expired at ${notOnOrAfter.toISOString()}`
+                    );
+                    continue;
+                }
+                if (data.getAttribute("NotBefore")) {
+                    reasons.push("SubjectConfirmationData must not carry NotBefore");
+                    continue;
+                }
+            }
+            if (recipient) {
+                const actual = data?.getAttribute("Recipient") || null;
+                if (actual !== recipient) {
+                    reasons.push(`Recipient ${actual} does not match ${recipient}`);
+                    recipients.push(actual);
+                    continue;
+                }
+            }
+            return;
+        }
+
+        const message =
+            reasons.length > 0
+                ? `No valid bearer SubjectConfirmation: ${reasons.join("; ")}.`
+                : "Assertion has no bearer SubjectConfirmation.";
+        if (recipients.length > 0 && recipients.length === reasons.length) {
+            throw new ValidationError("RECIPIENT_MISMATCH", message, {
+                expected: recipient,
+                actual: recipients.join(", "),
+            });
+        }
+        throw new ValidationError("SUBJECT_CONFIRMATION_INVALID", message);
+    }
+
+    /**
+     * Records the assertion ID in the replay cache until the assertion can no
+     * longer be accepted: the later of `Conditions/@NotOnOrAfter` and any
+     * `SubjectConfirmationData/@NotOnOrAfter`.
+     */
+    private async recordAssertion(
+        assertionNode: Element,
+        notOnOrAfter: Date | null
+    ): Promise<void> {
+        const { replayCache } = this.options;
+        if (!replayCache) return;
+
+        const id = assertionNode.getAttribute("ID");
+        if (!id) {
+            throw new MalformedXMLError("Assertion has no ID, so it cannot be checked for replay.");
+        }
+
+        let expiresAt = notOnOrAfter;
+        for (const data of confirmationData(assertionNode)) {
+            const date = dateTimeAttribute(data, "NotOnOrAfter");
+            if (date && (!expiresAt || date > expiresAt)) expiresAt = date;
+        }
+        expiresAt = new Date(
+            expiresAt
+                ? expiresAt.getTime() + this.clock.skewMs
+                : this.clock.now().getTime() + DEFAULT_REPLAY_RETENTION_MS
+        );
+
+        if (!(await replayCache.saveIfAbsent(id, expiresAt))) {
+            throw new ReplayError(id);
+        }
+    }
+
+    /**
+     * Matches the response to an outstanding request when a request store is
+     * configured. Runs last so that only a fully validated response consumes
+     * the request ID.
+     */
+    private async consumeInResponseTo(
+        responseNode: Element | null,
+        assertionNode: Element
+    ): Promise<void> {
+        const { requestStore, allowUnsolicited } = this.options;
+        if (!requestStore) return;
+
+        const ids = new Set<string>();
+        const responseInResponseTo = responseNode?.getAttribute("InResponseTo");
+        if (responseInResponseTo) ids.add(responseInResponseTo);
+        for (const data of confirmationData(assertionNode)) {
+            const value = data.getAttribute("InResponseTo");
+            if (value) ids.add(value);
+        }
+
+        if (ids.size > 1) {
+            throw new ValidationError(
+                "IN_RESPONSE_TO_MISMATCH",
+                `InResponseTo values disagree: ${Array.from(ids).join(", ")}`,
+                { actual: Array.from(ids).join(", ") }
+            );
+        }
+        if (ids.size === 0) {
+            if (allowUnsolicited) return;
+            throw new ValidationError(
+                "UNSOLICITED_RESPONSE",
+                "Unsolicited response rejected: no InResponseTo is present."
+            );
+        }
+
+        const [id] = ids;
+        if (!(await requestStore.consume(id))) {
+            throw new ValidationError(
+                "IN_RESPONSE_TO_MISMATCH",
+                `InResponseTo ${id} does not match an outstanding request.`,
+                { actual: id }
+            );
+        }
+    }
+
+    /**
+     * `true` when IdP certificates or fingerprints are configured, so that
+     * signatures are verified and unsigned responses rejected.
+     */
+    get hasTrustAnchors(): boolean {
+        return this.trustedKeys !== null;
+    }
+
+    private get trustedKeys(): TrustedKeys | null {
+        const { idpFingerprints = [], identityProvider } = this.options;
+        const idpCertificates = [
+            ...(this.options.idpCertificates ?? []),
+            ...(identityProvider?.signingCertificates ?? []),
+        ];
+        if (idpCertificates.length === 0 && idpFingerprints.length === 0) return null;
+        return { certificates: idpCertificates, fingerprints: idpFingerprints };
+    }
+
+    private verifySignature(element: Element): boolean {
+        const trusted = this.trustedKeys;
+        if (!trusted) return false;
+        try {
+            return verifyEnvelopedSignature(element, trusted);
+        } catch (err) {
+            throw new SignatureError(
+                "SIGNATURE_INVALID",
+                `Signature verification failed: ${(err as Error).message}`
+            );
+        }
+    }
+
+    private enforceSignaturePolicy(signed: SignedElements): void {
+        const { requireSignedAssertion, requireSignedResponse } = this.options;
+        // Without trust anchors the constructor has ruled out both requirements.
+        if (!this.trustedKeys) return;
+        if (requireSignedResponse && !signed.response) {
+            throw new SignatureError(
+                "SIGNATURE_MISSING",
+                "Response is not signed by a trusted IdP certificate."
+            );
+        }
+        if (requireSignedAssertion && !signed.assertion) {
+            throw new SignatureError(
+                "SIGNATURE_MISSING",
+                "Assertion is not signed by a trusted IdP certificate."
+            );
+        }
+        if (!signed.response && !signed.assertion) {
+            throw new SignatureError(
+                "SIGNATURE_MISSING",
+                "Neither the Response nor the Assertion is signed."
+            );
+        }
     }
 
-    private parseAssertion(assertionXML: string): ParsedAssertion {
-        const doc = new DOMParser(PARSER_OPTIONS).parseFromString(assertionXML, "text/xml");
+    /**
+     * Replaces every `EncryptedID` in the Subject and its SubjectConfirmations,
+     * and every `EncryptedAttribute`, with the element it decrypts to. Resolves
+     * `true` if anything was decrypted.
+     */
+    private async decryptIdentifiers(assertion: Element): Promise<boolean> {
+        const subject = childElements(assertion, NS.saml, "Subject")[0];
+        const targets: [Element, Element, string[]][] = [];
+        if (subject) {
+            const holders = [subject, ...childElements(subject, NS.saml, "SubjectConfirmation")];
+            for (const holder of holders) {
+                for (const encrypted of childElements(holder, NS.saml, "EncryptedID")) {
+                    targets.push([holder, encrypted, ["NameID", "BaseID"]]);
+                }
+            }
+        }
+        for (const statement of childElements(assertion, NS.saml, "AttributeStatement")) {
+            for (const encrypted of childElements(statement, NS.saml, "EncryptedAttribute")) {
+                targets.push([statement, encrypted, ["Attribute"]]);
+            }
+        }
+
+        const doc = assertion.ownerDocument as Document;
+        for (const [parent, encrypted, allowed] of targets) {
+            const decryptedXML = await this.decryptNode(encrypted);
+            const decrypted = parseXML(decryptedXML, this.xmlLimits).documentElement;
+            if (
+                !decrypted ||
+                decrypted.namespaceURI !== NS.saml ||
+                !allowed.includes(decrypted.localName ?? "")
+            ) {
+                throw new MalformedXMLError(
+                    `${encrypted.localName} does not contain a saml:${allowed.join(" or saml:")}.`
+                );
+            }
+            parent.replaceChild(doc.importNode(decrypted, true), encrypted);
+        }
+        return targets.length > 0;
+    }
 
-        const conditions =
-            doc.getElementsByTagName("saml2:Conditions")[0] ??
-            doc.getElementsByTagName("Conditions")[0] ??
-            null;
+    /**
+     * Decrypts `encrypted` with each SP key in turn. Keys the `ds:KeyInfo`
+     * names by certificate or serial number are tried first.
+     */
+    private async decryptNode(encrypted: Element): Promise<string> {
+        const certificates = textContents(encrypted, "X509Certificate").map((text) =>
+            text.replace(/\s+/g, "")
+        );
+        const serialNumbers = textContents(encrypted, "X509SerialNumber");
+        const hinted = (key: CandidateKey) =>
+            (key.certificate !== null && certificates.includes(key.certificate)) ||
+            (key.serialNumber !== null && serialNumbers.includes(key.serialNumber));
+        const keys = [...this.keys.filter(hinted), ...this.keys.filter((key) => !hinted(key))];
+
+        const encryptedXML = new XMLSerializer().serializeToString(encrypted);
+        let lastError: Error | null = null;
+        for (const key of keys) {
+            try {
+                return await decryptWith(encryptedXML, key.privateKey);
+            } catch (err) {
+                lastError = err as Error;
+            }
+        }
+        throw new DecryptionError(
+            keys.length > 1
+                ? `Decryption failed with all ${keys.length} SP keys: ${lastError?.message}`
+                : `Decryption failed: ${lastError?.message}`
+        );
+    }
+
+    private parseAssertion(
+        assertion: Element,
+        assertionXML: string,
+        signed: SignedElements,
+        status: SAMLStatus | null
+    ): Omit<ParsedAssertion, "relayState"> {
+        const conditions = childElements(assertion, NS.saml, "Conditions")[0];
 
         let notBefore: Date | null = null;
         let notOnOrAfter: Date | null = null;
 
         if (conditions) {
-            const nb = conditions.getAttribute("NotBefore");
-            const nooa = conditions.getAttribute("NotOnOrAfter");
-            if (nb) notBefore = new Date(nb);
-            if (nooa) notOnOrAfter = new Date(nooa);
+            notBefore = dateTimeAttribute(conditions, "NotBefore");
+            notOnOrAfter = dateTimeAttribute(conditions, "NotOnOrAfter");
         }
 
-        const now = new Date();
-
-        if (notBefore && now < notBefore) {
-            throw new Error(
-                `Assertion not yet valid. NotBefore: ${notBefore.toISOString()}`
+        if (notBefore && this.clock.isBefore(notBefore)) {
+            throw new TimeWindowError(
+                "ASSERTION_NOT_YET_VALID",
+                `Assertion not yet valid. NotBefore: ${notBefore.toISOString()}`,
+                { notBefore, notOnOrAfter, now: this.clock.now() }
             );
         }
-        if (notOnOrAfter && now >= notOnOrAfter) {
-            throw new Error(
-                `Assertion has expired. NotOnOrAfter: ${notOnOrAfter.toISOString()}`
+        if (notOnOrAfter && this.clock.hasReached(notOnOrAfter)) {
+            throw new TimeWindowError(
+                "ASSERTION_EXPIRED",
+                `Assertion has expired. NotOnOrAfter: ${notOnOrAfter.toISOString()}`,
+                { notBefore, notOnOrAfter, now: this.clock.now() }
             );
         }
 
-        const nameIDNode =
-            doc.getElementsByTagName("saml2:NameID")[0] ??
-            doc.getElementsByTagName("NameID")[0] ??
-            null;
-
+        const subject = childElements(assertion, NS.saml, "Subject")[0];
+        const nameIDNode = subject ? childElements(subject, NS.saml, "NameID")[0] : undefined;
+        // textContent joins every text node and skips comments, matching what the
+        // signature covers. Reading only the first text node would let a comment
+        // inserted after signing, as in `admin@corp<!---->.evil.com`, truncate it.
         const nameID = nameIDNode?.textContent ?? null;
 
-        const attributes: Record<string, string[]> = {};
-        const attrNodes =
-            doc.getElementsByTagName("saml2:Attribute").length > 0
-                ? doc.getElementsByTagName("saml2:Attribute")
-                : doc.getElementsByTagName("Attribute");
+        const authnStatement = childElements(assertion, NS.saml, "AuthnStatement")[0];
+        const authnContext = authnStatement
+            ? childElements(authnStatement, NS.saml, "AuthnContext")[0]
+            : undefined;
+        const authnContextClassRef = authnContext
+            ? childElements(authnContext, NS.saml, "AuthnContextClassRef")[0]
+            : undefined;
+        const sessionIndex = authnStatement?.getAttribute("SessionIndex") || null;
+        const sessionNotOnOrAfter = authnStatement
+            ? dateTimeAttribute(authnStatement, "SessionNotOnOrAfter")
+            : null;
+        if (sessionNotOnOrAfter && this.clock.hasReached(sessionNotOnOrAfter)) {
+            throw new TimeWindowError(
+                "SESSION_EXPIRED",
+                `Session has expired. SessionNotOnOrAfter: ${sessionNotOnOrAfter.toISOString()}`,
+                { notOnOrAfter: sessionNotOnOrAfter, now: this.clock.now() }
+            );
+        }
 
-        for (let i = 0; i < attrNodes.length; i++) {
-            const attr = attrNodes[i];
-            const name = attr.getAttribute("Name");
-            if (!name) continue;
+        const attributes: Record<string, string[]> = {};
+        const attributeDetails: SAMLAttribute[] = [];
+        for (const statement of childElements(assertion, NS.saml, "AttributeStatement")) {
+            for (const attr of childElements(statement, NS.saml, "Attribute")) {
+                const name = attr.getAttribute("Name");
+                if (!name) continue;
+                attributeDetails.push(readAttribute(attr));
 
-            const valueNodes =
-                attr.getElementsByTagName("saml2:AttributeValue").length > 0
-                    ? attr.getElementsByTagName("saml2:AttributeValue")
-                    : attr.getElementsByTagName("AttributeValue");
+                const values: string[] = [];
+                for (const valueNode of childElements(attr, NS.saml, "AttributeValue")) {
+                    const text = valueNode.textContent;
+                    if (text) values.push(text);
+                }
 
-            const values: string[] = [];
-            for (let j = 0; j < valueNodes.length; j++) {
-                const text = valueNodes[j].textContent;
-                if (text) values.push(text);
+                attributes[name] = values;
             }
-
-            attributes[name] = values;
         }
 
-        return { xml: assertionXML, nameID, attributes, notBefore, notOnOrAfter };
+        const inResponseTo =
+            confirmationData(assertion)
+                .map((data) => data.getAttribute("InResponseTo"))
+                .find((value) => !!value) ?? null;
+
+        return {
+            xml: assertionXML,
+            id: assertion.getAttribute("ID") || null,
+            issuer: issuerOf(assertion),
+            nameID,
+            nameIDFormat: nameIDNode?.getAttribute("Format") || null,
+            nameQualifier: nameIDNode?.getAttribute("NameQualifier") || null,
+            spNameQualifier: nameIDNode?.getAttribute("SPNameQualifier") || null,
+            sessionIndex,
+            authnInstant: authnStatement ? dateTimeAttribute(authnStatement, "AuthnInstant") : null,
+            sessionNotOnOrAfter,
+            authnContextClassRef: authnContextClassRef?.textContent?.trim() ?? null,
+            inResponseTo,
+            attributes,
+            attributeDetails,
+            notBefore,
+            notOnOrAfter,
+            signed,
+            status,
+        };
     }
+}
 
-    private extractXMLFromRequest(req: IncomingMessage): Promise<string | null> {
-        return new Promise((resolve, reject) => {
-            if (req.method !== "POST") {
-                return reject(new Error("SAML responses must arrive via HTTP POST."));
+/** Orders decryption keys by rollover status and reads the identifiers KeyInfo may use. */
+function candidateKeys(keys: DecryptionKey[]): CandidateKey[] {
+    const rank = (key: DecryptionKey) => KEY_ORDER.indexOf(key.status ?? "active");
+    return [...keys]
+        .sort((a, b) => rank(a) - rank(b))
+        .map((key) => {
+            if (!key.certificate) {
+                return { privateKey: key.privateKey, certificate: null, serialNumber: null };
             }
+            const x509 = new crypto.X509Certificate(toPEMCertificate(key.certificate));
+            return {
+                privateKey: key.privateKey,
+                certificate: extractPEMBody(key.certificate).replace(/\s+/g, ""),
+                // KeyInfo carries the decimal serial; Node reports it in hex.
+                serialNumber: BigInt(`0x${x509.serialNumber}`).toString(),
+            };
+        });
+}
 
-            let body = "";
-            req.on("data", (chunk: Buffer) => {
-                body += chunk.toString();
-            });
-            req.on("error", reject);
-            req.on("end", () => {
-                const params = new URLSearchParams(body);
-                const samlResponse = params.get("SAMLResponse");
-                if (!samlResponse) return resolve(null);
-
-                const xml = Buffer.from(samlResponse, "base64").toString("utf-8");
-                resolve(xml.length > 0 ? xml : null);
-            });
+/** The trimmed text of every `ds:<localName>` below `element`. */
+function textContents(element: Element, localName: string): string[] {
+    const nodes = element.getElementsByTagNameNS(NS.ds, localName);
+    const result: string[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+        result.push((nodes[i].textContent ?? "").trim());
+    }
+    return result;
+}
+
+function decryptWith(encryptedXML: string, privateKey: string): Promise<string> {
+    const options = {
+        key: privateKey,
+        disallowDecryptionWithInsecureAlgorithm: true,
+        warnInsecureAlgorithm: true,
+    };
+
+    return new Promise((resolve, reject) => {
+        xmlenc.decrypt(encryptedXML, options, (err: Error | null, result: string) => {
+            if (err) reject(err);
+            else resolve(result);
         });
+    });
+}
+
+/** Whether the query string, or full URL, carries a `SAMLart` parameter. */
+function hasArtifact(url: string): boolean {
+    return new URLSearchParams(url.slice(url.indexOf("?") + 1)).has("SAMLart");
+}
+
+function isElement(node: Element | null, namespace: string, localName: string): boolean {
+    return !!node && node.namespaceURI === namespace && node.localName === localName;
+}
+
+/**
+ * Returns the one assertion of a message: the document itself, or the single
+ * Assertion or EncryptedAssertion child of the Response. Signature wrapping
+ * attacks place a forged assertion beside the signed one, or move the signed
+ * one into Extensions, a ds:Object or the forged assertion itself, so any
+ * other assertion anywhere in the document rejects the message.
+ */
+function selectAssertion(root: Element, responseNode: Element | null): Element {
+    const candidates = responseNode
+        ? [
+              ...childElements(responseNode, NS.saml, "Assertion"),
+              ...childElements(responseNode, NS.saml, "EncryptedAssertion"),
+          ]
+        : [root];
+    if (candidates.length === 0) {
+        throw new ValidationError(
+            "ASSERTION_MISSING",
+            "Response contains no Assertion or EncryptedAssertion."
+        );
+    }
+    if (candidates.length > 1) {
+        throw new MalformedXMLError(
+            `Response contains ${candidates.length} assertions; exactly one is allowed.`
+        );
+    }
+
+    for (const localName of ["Assertion", "EncryptedAssertion"]) {
+        const found = root.getElementsByTagNameNS(NS.saml, localName);
+        for (let i = 0; i < found.length; i++) {
+            if (found[i] === candidates[0]) continue;
+            const parent = found[i].parentNode as Element;
+            throw new MalformedXMLError(
+                `Unexpected saml:${localName} inside ${parent.localName}; ` +
+                    "a message carries exactly one assertion."
+            );
+        }
     }
-}
\ No newline at end of file
+    return candidates[0];
+}
+
+/**
+ * Rejects a document in which two elements share an `ID`. Signatures here are
+ * checked against the element that carries them, never looked up by ID, but a
+ * duplicate is only ever a sign of tampering and could mislead code further on.
+ */
+function checkUniqueIDs(root: Element): void {
+    const seen = new Set<string>();
+    const elements = [root, ...Array.from(root.getElementsByTagName("*"))];
+    for (const element of elements) {
+        const id = element.getAttribute("ID");
+        if (id === null || id === "") continue;
+        if (seen.has(id)) {
+            throw new MalformedXMLError(`Duplicate ID ${id} in the message.`);
+        }
+        seen.add(id);
+    }
+}
+
+/** The `SubjectConfirmationData` of every `SubjectConfirmation` in the assertion's `Subject`. */
+function confirmationData(assertion: Element): Element[] {
+    const subject = childElements(assertion, NS.saml, "Subject")[0];
+    if (!subject) return [];
+    return childElements(subject, NS.saml, "SubjectConfirmation").flatMap((confirmation) =>
+        childElements(confirmation, NS.saml, "SubjectConfirmationData")
+    );
+}
+
+function issuerOf(element: Element): string | null {
+    const issuer = childElements(element, NS.saml, "Issuer")[0];
+    return issuer ? (issuer.textContent ?? "").trim() : null;
+}
@@ -0,0 +1,221 @@
+import { readFormFields } from "./bindings";
+import { BindingError, SAMLError, ValidationError } from "./errors";
+import { InMemoryRequestStore } from "./RequestStore";
+import {
+    RequestStore,
+    RouteRequest,
+    RouteResponse,
+    RouteResult,
+    SAMLRoute,
+    SAMLRoutesOptions,
+} from "./types";
+import { isSameSitePath } from "./utils";
+
+const DEFAULT_PATHS: Record<SAMLRoute, string> = {
+    metadata: "/metadata",
+    login: "/login",
+    acs: "/acs",
+    logout: "/logout",
+};
+
+const METHODS: Record<SAMLRoute, string[]> = {
+    metadata: ["GET"],
+    login: ["GET"],
+    acs: ["GET", "POST"],
+    logout: ["GET", "POST"],
+};
+
+/**
+ * The metadata, login, ACS and logout routes of an SP, independent of any web
+ * framework. The adapters in `adapters.ts` translate framework requests into
+ * `handle` calls; use this class directly for frameworks they do not cover.
+ */
+export class SAMLRoutes<Native = unknown> {
+    private readonly options: SAMLRoutesOptions<Native>;
+    private readonly paths: Record<SAMLRoute, string>;
+    private readonly defaultRedirect: string;
+    private readonly logoutRequests: RequestStore;
+
+    constructor(options: SAMLRoutesOptions<Native>) {
+        if (typeof options.onLogin !== "function") {
+            throw new Error("onLogin is required.");
+        }
+        // The ACS signs the user in, so it must never accept an unsigned response.
+        if (!options.samlResponse.hasTrustAnchors) {
+            throw new Error(
+                "samlResponse needs idpCertificates, idpFingerprints or an identityProvider " +
+                    "with signing certificates before it can serve the ACS."
+            );
+        }
+        const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+        if (basePath && !basePath.startsWith("/")) {
+            throw new Error(`basePath must start with "/", got ${options.basePath}.`);
+        }
+        const paths = { ...DEFAULT_PATHS, ...options.paths };
+        for (const [route, path] of Object.entries(paths)) {
+            if (!path.startsWith("/")) {
+                throw new Error(`paths.${route} must start with "/", got ${path}.`);
+            }
+        }
+        this.options = options;
+        this.paths = {
+            metadata: basePath + paths.metadata,
+            login: basePath + paths.login,
+            acs: basePath + paths.acs,
+            logout: basePath + paths.logout,
+        };
+        this.defaultRedirect = options.defaultRedirect ?? "/";
+        this.logoutRequests = options.logoutRequestStore ?? new InMemoryRequestStore();
+    }
+
+    /** Every mounted route with the methods and full path it answers. */
+    get routes(): { route: SAMLRoute; methods: string[]; path: string }[] {
+        return this.mounted.map((route) => ({
+            route,
+            methods: METHODS[route],
+            path: this.paths[route],
+        }));
+    }
+
+    /** Returns the route serving `method` and `path`, or `null` if none does. */
+    match(method: string, path: string): SAMLRoute | null {
+        const upper = method.toUpperCase();
+        return (
+            this.mounted.find(
+                (route) => this.paths[route] === path && METHODS[route].includes(upper)
+            ) ?? null
+        );
+    }
+
+    /**
+     * Answers a request for `route`. A rejected SAML message becomes the
+     * `onError` response; any other error, including one thrown by a callback,
+     * propagates to the caller.
+     */
+    async handle(route: SAMLRoute, request: RouteRequest<Native>): Promise<RouteResponse> {
+        try {
+            switch (route) {
+                case "metadata":
+                    return this.metadata();
+                case "login":
+                    return await this.login(request);
+                case "acs":
+                    return await this.acs(request);
+                case "logout":
+                    return await this.logout(request);
+            }
+        } catch (err) {
+            if (!(err instanceof SAMLError)) throw err;
+            if (this.options.onError) return this.options.onError(err, request.native);
+            return {
+                status: 400,
+                headers: { "Content-Type": "text/plain; charset=utf-8" },
+                body: `SAML error: ${err.code}`,
+            };
+        }
+    }
+
+    private get mounted(): SAMLRoute[] {
+        const routes: SAMLRoute[] = ["metadata", "login", "acs"];
+        if (this.options.samlLogout) routes.push("logout");
+        return routes;
+    }
+
+    private metadata(): RouteResponse {
+        return {
+            status: 200,
+            headers: { "Content-Type": "application/samlmetadata+xml" },
+            body: this.options.serviceProvider.createMetadata(),
+        };
+    }
+
+    /** Starts SP-initiated login; a same-site `returnTo` query parameter becomes the RelayState. */
+    private async login(request: RouteRequest<Native>): Promise<RouteResponse> {
+        const returnTo = new URLSearchParams(request.query).get("returnTo");
+        const relayState = returnTo && isSameSitePath(returnTo) ? returnTo : undefined;
+        const { url } = await this.options.samlRequest.createAuthNRedirect(relayState);
+        return redirect(url, 302);
+    }
+
+    /** Accepts a posted Response, or an artifact posted or sent on the query string. */
+    private async acs(request: RouteRequest<Native>): Promise<RouteResponse> {
+        const { samlResponse } = this.options;
+        const assertion =
+            request.method.toUpperCase() === "GET"
+                ? await samlResponse.processQuery(request.query)
+                : await samlResponse.processBody(await request.body());
+        const result: RouteResult = await this.options.onLogin(assertion, request.native);
+        if (typeof result === "string") return redirect(result, 303);
+        if (result) return result;
+        return redirect(this.returnTarget(assertion.relayState), 303);
+    }
+
+    /**
+     * Answers an IdP-initiated LogoutRequest, accepts the LogoutResponse to an
+     * SP-initiated logout, or, given neither, starts SP-initiated logout.
+     */
+    private async logout(request: RouteRequest<Native>): Promise<RouteResponse> {
+        const logout = this.options.samlLogout;
+        if (!logout) throw new Error("samlLogout is required to serve the logout route.");
+        const post = request.method.toUpperCase() === "POST";
+        let fields: Record<string, string | undefined>;
+        if (post) {
+            fields = readFormFields(await request.body());
+        } else {
+            const params = new URLSearchParams(request.query);
+            fields = {
+                SAMLRequest: params.get("SAMLRequest") ?? undefined,
+                SAMLResponse: params.get("SAMLResponse") ?? undefined,
+            };
+        }
+        const message = post ? { body: fields } : { query: request.query };
+
+        if (fields.SAMLRequest !== undefined) {
+            const parsed = logout.processLogoutRequest(message);
+            await this.options.onLogout?.(parsed, request.native);
+            return post
+                ? html(logout.createLogoutResponseForm(parsed))
+                : redirect(logout.createLogoutResponseURL(parsed), 302);
+        }
+        if (fields.SAMLResponse !== undefined) {
+            const parsed = logout.processLogoutResponse(message);
+            await this.consumeLogoutRequest(parsed.inResponseTo);
+            await this.options.onLogout?.(parsed, request.native);
+            return redirect(this.returnTarget(parsed.relayState), post ? 303 : 302);
+        }
+        if (post) {
+            throw new BindingError("Neither SAMLRequest nor SAMLResponse is present.");
+        }
+
+        const subject = (await this.options.getLogoutSubject?.(request.native)) ?? null;
+        if (!subject) return redirect(this.defaultRedirect, 302);
+        const { url, id } = logout.createLogoutRequestURL(subject);
+        await this.logoutRequests.save(id);
+        return redirect(url, 302);
+    }
+
+    /** Accepts a LogoutResponse only in answer to a LogoutRequest this SP sent. */
+    private async consumeLogoutRequest(inResponseTo: string | null): Promise<void> {
+        if (!inResponseTo || !(await this.logoutRequests.consume(inResponseTo))) {
+            throw new ValidationError(
+                "IN_RESPONSE_TO_MISMATCH",
+                `LogoutResponse InResponseTo ${inResponseTo} does not match an outstanding ` +
+                    "LogoutRequest.",
+                { actual: inResponseTo }
+            );
+        }
+    }
+
+    /** `relayState` if it is a same-site path, else `defaultRedirect`. */
+    private returnTarget(relayState: string | null): string {
+        return relayState && isSameSitePath(relayState) ? relayState : this.defaultRedirect;
+    }
+}
+
+function redirect(location: string, status: 302 | 303): RouteResponse {
+    return { status, headers: { Location: location }, body: "" };
+}
+
+function html(body: string): RouteResponse {
+    return { status: 200, headers: { "Content-Type": "text/html; charset=utf-8" }, body };
+}
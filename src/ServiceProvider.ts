@@ -1,31 +1,72 @@
 import * as fs from "fs";
 import * as selfsigned from "selfsigned";
-import { create } from "xmlbuilder2";
-import { SPOptions, KeyPair } from "./types";
-import { generateRandomEntityID, extractPEMBody } from "./utils";
+import {
+    Endpoint,
+    IndexedEndpoint,
+    KeyPair,
+    MetadataOptions,
+    SPKey,
+    SPOptions,
+} from "./types";
+import { generateRandomEntityID } from "./utils";
+import { BINDINGS } from "./xml";
+import { buildSPMetadata, resolveIndexed, validateMetadataOptions } from "./metadata";
+
+type SPKeyOptions = { certificate: string; privateKey: string } | { keys: SPKey[] };
 
 export class ServiceProvider {
     readonly entityID: string;
     readonly assertionEndpoint: string;
+    /** The active certificate and private key, used for signing. */
     certificate: string;
     privateKey: string;
+    /** Every key held, in order: the active key plus any `next` and `retiring` keys. */
+    readonly keys: SPKey[];
+    /** The ACS endpoints published in metadata, each with its resolved `index`. */
+    readonly assertionConsumerServices: (IndexedEndpoint & { index: number })[];
+    readonly singleLogoutServices: Endpoint[];
+    readonly metadata: MetadataOptions;
 
-    constructor(options: SPOptions & { certificate: string; privateKey: string }) {
+    constructor(options: SPOptions & SPKeyOptions) {
         if (!options.assertionEndpoint || options.assertionEndpoint.length === 0) {
             throw new Error("assertionEndpoint is required.");
         }
         new URL(options.assertionEndpoint); // throws if malformed
 
+        const keys: SPKey[] = options.keys ?? [
+            {
+                certificate: options.certificate as string,
+                privateKey: options.privateKey as string,
+            },
+        ];
+        if (options.keys && (options.certificate || options.privateKey)) {
+            throw new Error("Pass either keys or a certificate and privateKey, not both.");
+        }
+        const active = keys.filter((key) => (key.status ?? "active") === "active");
+        if (active.length !== 1) {
+            throw new Error(`keys must contain exactly one active key, not ${active.length}.`);
+        }
+
         this.assertionEndpoint = options.assertionEndpoint;
         this.entityID = options.entityID ?? generateRandomEntityID();
-        this.certificate = options.certificate;
-        this.privateKey = options.privateKey;
+        this.keys = keys.map((key) => ({ ...key, status: key.status ?? "active" }));
+        this.certificate = active[0].certificate;
+        this.privateKey = active[0].privateKey;
+
+        this.metadata = options.metadata ?? {};
+        validateMetadataOptions(this.metadata);
+        this.assertionConsumerServices = resolveIndexed(
+            this.metadata.assertionConsumerServices ?? [
+                { binding: BINDINGS.post, location: options.assertionEndpoint },
+            ]
+        );
+        this.singleLogoutServices = this.metadata.singleLogoutServices ?? [];
     }
 
     /** Async factory — use this instead of `new ServiceProvider()` when you need auto-generated keys. */
     static async create(options: SPOptions): Promise<ServiceProvider> {
-        if (options.certificate && options.privateKey) {
-            return new ServiceProvider(options as SPOptions & { certificate: string; privateKey: string });
+        if (options.keys || (options.certificate && options.privateKey)) {
+            return new ServiceProvider(options as SPOptions & SPKeyOptions);
         }
         const kp = await ServiceProvider.generateKeys(options.keyLength ?? 2048);
         return new ServiceProvider({ ...options, ...kp });
@@ -48,52 +89,17 @@ export class ServiceProvider {
         fs.writeFileSync(`${dir}/cert.crt`, this.certificate, "utf-8");
     }
 
-    /** Returns the metadata XML string and optionally writes it to disk. */
+    /**
+     * Returns the metadata XML string, built from the `metadata` options, and
+     * optionally writes it to disk. The active certificate is published first,
+     * followed by any `next` ones, so IdPs can pick up a new key before it
+     * becomes active.
+     */
     createMetadata(outputPath?: string): string {
-        const certBody = extractPEMBody(this.certificate);
-
-        const xml = create({
-            "md:EntityDescriptor": {
-                "@xmlns:md": "urn:oasis:names:tc:SAML:2.0:metadata",
-                "@xmlns:ds": "http://www.w3.org/2000/09/xmldsig#",
-                "@entityID": this.entityID,
-                "@validUntil": new Date(Date.now() + 1000 * 60 * 60 * 24).toISOString(),
-                "md:SPSSODescriptor": {
-                    "@AuthnRequestsSigned": "true",
-                    "@WantAssertionsSigned": "true",
-                    "@protocolSupportEnumeration": "urn:oasis:names:tc:SAML:2.0:protocol",
-                    "md:KeyDescriptor": [
-                        this.keyDescriptor("signing", certBody),
-                        this.keyDescriptor("encryption", certBody),
-                    ],
-                    "md:SingleLogoutService": {
-                        "@Binding": "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect",
-                        "@Location": this.assertionEndpoint,
-                    },
-                    "md:AssertionConsumerService": {
-                        "@Binding": "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST",
-                        "@Location": this.assertionEndpoint,
-                        "@index": "0",
-                        "@isDefault": "true",
-                    },
-                },
-            },
-        }).end({ prettyPrint: true });
-
+        const xml = buildSPMetadata(this);
         if (outputPath) {
             fs.writeFileSync(outputPath, xml, "utf-8");
         }
-
         return xml;
     }
-
-    private keyDescriptor(use: "signing" | "encryption", certBody: string) {
-        return {
-            "@use": use,
-            "ds:KeyInfo": {
-                "@xmlns:ds": "http://www.w3.org/2000/09/xmldsig#",
-                "ds:X509Data": { "ds:X509Certificate": certBody },
-            },
-        };
-    }
-}
\ No newline at end of file
+}
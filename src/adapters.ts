@@ -0,0 +1,184 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { FormBody, readFetchBody, requestFormBody, resolveBodyLimits } from "./bindings";
+import { SAMLRoutes } from "./SAMLRoutes";
+import { RouteResponse, SAMLRoutesOptions } from "./types";
+
+// The adapters describe only the parts of each framework they use, so none of
+// the frameworks is a dependency of this package.
+
+/** The parts of a Koa context the Koa middleware uses. */
+export interface KoaContextLike {
+    method: string;
+    path: string;
+    querystring: string;
+    req: IncomingMessage;
+    request: { body?: unknown };
+    status: number;
+    body: unknown;
+    set(field: string, value: string): void;
+}
+
+/** The parts of a Fastify request the Fastify plugin uses. */
+export interface FastifyRequestLike {
+    method: string;
+    url: string;
+    body?: unknown;
+}
+
+/** The parts of a Fastify reply the Fastify plugin uses. */
+export interface FastifyReplyLike {
+    code(statusCode: number): unknown;
+    header(name: string, value: string): unknown;
+    send(payload: string): unknown;
+}
+
+/** The parts of a Fastify instance the Fastify plugin uses. */
+export interface FastifyInstanceLike {
+    route(options: {
+        method: string[];
+        url: string;
+        handler(request: FastifyRequestLike, reply: FastifyReplyLike): Promise<unknown>;
+    }): unknown;
+    hasContentTypeParser(contentType: string): boolean;
+    addContentTypeParser(
+        contentType: string,
+        options: { parseAs: "string"; bodyLimit: number },
+        parser: (request: unknown, body: string, done: (err: null, body: string) => void) => void
+    ): unknown;
+}
+
+/**
+ * Express or Connect middleware serving the SAML routes. Mount it under a
+ * prefix, `app.use("/saml", createExpressMiddleware(options))`; requests for
+ * other paths fall through to `next`. A body already parsed by `urlencoded()`
+ * is used as-is, otherwise the middleware reads the stream itself.
+ */
+export function createExpressMiddleware<
+    Req extends IncomingMessage & { body?: unknown } = IncomingMessage,
+>(
+    options: SAMLRoutesOptions<Req>
+): (req: Req, res: ServerResponse, next: (err?: unknown) => void) => void {
+    const routes = new SAMLRoutes(options);
+    const limits = resolveBodyLimits(options.bodyLimits);
+    return (req, res, next) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const method = req.method ?? "GET";
+        const route = routes.match(method, url.pathname);
+        if (!route) return next();
+        routes
+            .handle(route, {
+                method,
+                query: url.search.slice(1),
+                body: () => requestFormBody(req, req.body, limits),
+                native: req,
+            })
+            .then((response) => {
+                res.statusCode = response.status;
+                for (const [name, value] of Object.entries(response.headers)) {
+                    res.setHeader(name, value);
+                }
+                res.end(response.body);
+            }, next);
+    };
+}
+
+/**
+ * Koa middleware serving the SAML routes. Koa has no mount prefix of its own,
+ * so set `basePath`, or mount it with `koa-mount`. A body parsed by
+ * `koa-bodyparser` is used as-is, otherwise the stream is read.
+ */
+export function createKoaMiddleware<Ctx extends KoaContextLike = KoaContextLike>(
+    options: SAMLRoutesOptions<Ctx>
+): (ctx: Ctx, next: () => Promise<unknown>) => Promise<void> {
+    const routes = new SAMLRoutes(options);
+    const limits = resolveBodyLimits(options.bodyLimits);
+    return async (ctx, next) => {
+        const route = routes.match(ctx.method, ctx.path);
+        if (!route) {
+            await next();
+            return;
+        }
+        const response = await routes.handle(route, {
+            method: ctx.method,
+            query: ctx.querystring,
+            body: () => requestFormBody(ctx.req, ctx.request.body, limits),
+            native: ctx,
+        });
+        ctx.status = response.status;
+        for (const [name, value] of Object.entries(response.headers)) {
+            ctx.set(name, value);
+        }
+        ctx.body = response.body;
+    };
+}
+
+/**
+ * A Fastify plugin registering the SAML routes; register it with a prefix,
+ * `app.register(createFastifyPlugin(options), { prefix: "/saml" })`. Unless a
+ * urlencoded parser such as `@fastify/formbody` is already installed, the
+ * plugin adds one that keeps the body as text, up to `bodyLimits.maxBytes`.
+ */
+export function createFastifyPlugin<Req extends FastifyRequestLike = FastifyRequestLike>(
+    options: SAMLRoutesOptions<Req>
+): (fastify: FastifyInstanceLike) => Promise<void> {
+    const routes = new SAMLRoutes(options);
+    const { maxBytes } = resolveBodyLimits(options.bodyLimits);
+    return (fastify) => {
+        const formType = "application/x-www-form-urlencoded";
+        if (!fastify.hasContentTypeParser(formType)) {
+            fastify.addContentTypeParser(
+                formType,
+                { parseAs: "string", bodyLimit: maxBytes },
+                (_req, body, done) => done(null, body)
+            );
+        }
+        for (const { route, methods, path } of routes.routes) {
+            fastify.route({
+                method: methods,
+                url: path,
+                handler: async (request, reply) => {
+                    const query = request.url.split("?")[1] ?? "";
+                    const response = await routes.handle(route, {
+                        method: request.method,
+                        query,
+                        body: () => Promise.resolve((request.body ?? "") as FormBody),
+                        native: request as Req,
+                    });
+                    reply.code(response.status);
+                    for (const [name, value] of Object.entries(response.headers)) {
+                        reply.header(name, value);
+                    }
+                    return reply.send(response.body);
+                },
+            });
+        }
+        return Promise.resolve();
+    };
+}
+
+/**
+ * A handler for Fetch API runtimes: Next.js route handlers, Hono, Deno, Bun
+ * and Cloudflare Workers. Routes match the full URL path, so set `basePath`.
+ * Requests for other paths get a `404`.
+ */
+export function createFetchHandler(
+    options: SAMLRoutesOptions<Request>
+): (request: Request) => Promise<Response> {
+    const routes = new SAMLRoutes(options);
+    const limits = resolveBodyLimits(options.bodyLimits);
+    return async (request) => {
+        const url = new URL(request.url);
+        const route = routes.match(request.method, url.pathname);
+        if (!route) return new Response("Not Found", { status: 404 });
+        const response: RouteResponse = await routes.handle(route, {
+            method: request.method,
+            query: url.search.slice(1),
+            body: () => readFetchBody(request, limits),
+            native: request,
+        });
+        return new Response(response.body, {
+            status: response.status,
+            headers: response.headers,
+        });
+    };
+}
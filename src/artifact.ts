@@ -0,0 +1,181 @@
+import * as crypto from "node:crypto";
+import { create } from "xmlbuilder2";
+import { Element } from "@xmldom/xmldom";
+import { decodeBase64, resolveBodyLimits } from "./bindings";
+import { BindingError, MalformedXMLError } from "./errors";
+import { SigningOptions, signXML } from "./signature";
+import { BodyLimits, SAMLArtifact, SOAPTransport, XMLLimits } from "./types";
+import { generateRandomEntityID } from "./utils";
+import { NS, elementChildren, parseXML } from "./xml";
+
+/** The type code of the only artifact format SAML 2.0 defines. */
+export const ARTIFACT_TYPE_CODE = 0x0004;
+
+const ARTIFACT_LENGTH = 44;
+
+/** HTTP headers of a request on the SAML SOAP binding (SAML Bindings 3.2.3). */
+export const SOAP_HEADERS: Readonly<Record<string, string>> = {
+    "Content-Type": "text/xml; charset=utf-8",
+    SOAPAction: "http://www.oasis-open.org/committees/security",
+};
+
+/** The SourceID an issuer's artifacts carry: the SHA-1 hash of its entityID. */
+export function artifactSourceID(entityID: string): Buffer {
+    return crypto.createHash("sha1").update(entityID, "utf-8").digest();
+}
+
+/** Decodes a `SAMLart` value, throwing `BindingError` unless it is a type 0x0004 artifact. */
+export function parseArtifact(value: string): SAMLArtifact {
+    const bytes = decodeBase64(value, "SAMLart");
+    const typeCode = bytes.length >= 2 ? bytes.readUInt16BE(0) : null;
+    if (typeCode !== ARTIFACT_TYPE_CODE) {
+        throw new BindingError(
+            typeCode === null
+                ? "SAMLart is too short to be an artifact."
+                : `Unsupported artifact type code 0x${typeCode.toString(16).padStart(4, "0")}.`
+        );
+    }
+    if (bytes.length !== ARTIFACT_LENGTH) {
+        throw new BindingError(
+            `SAMLart is ${bytes.length} bytes; a type 0x0004 artifact is ${ARTIFACT_LENGTH}.`
+        );
+    }
+    return {
+        typeCode,
+        endpointIndex: bytes.readUInt16BE(2),
+        sourceID: bytes.subarray(4, 24),
+        messageHandle: bytes.subarray(24),
+    };
+}
+
+/**
+ * Builds a type 0x0004 artifact as the IdP `entityID` would issue it, for
+ * test doubles and local resolution services. `messageHandle` defaults to
+ * 20 random bytes.
+ */
+export function createArtifact(
+    entityID: string,
+    endpointIndex = 0,
+    messageHandle: Buffer = crypto.randomBytes(20)
+): string {
+    if (!Number.isInteger(endpointIndex) || endpointIndex < 0 || endpointIndex > 0xffff) {
+        throw new Error("endpointIndex must be an integer from 0 to 65535.");
+    }
+    if (messageHandle.length !== 20) {
+        throw new Error("messageHandle must be 20 bytes.");
+    }
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(ARTIFACT_TYPE_CODE, 0);
+    header.writeUInt16BE(endpointIndex, 2);
+    return Buffer.concat([header, artifactSourceID(entityID), messageHandle]).toString("base64");
+}
+
+/** Builds the ArtifactResolve for `artifact`, signed after its Issuer when `signing` is set. */
+export function buildArtifactResolve(
+    artifact: string,
+    options: {
+        issuer: string;
+        destination: string;
+        issueInstant: Date;
+        signing?: SigningOptions | null;
+    }
+): { id: string; xml: string } {
+    const id = generateRandomEntityID();
+    const xml = create({
+        "samlp:ArtifactResolve": {
+            "@xmlns:samlp": NS.samlp,
+            "@xmlns:saml": NS.saml,
+            "@ID": id,
+            "@Version": "2.0",
+            "@IssueInstant": options.issueInstant.toISOString(),
+            "@Destination": options.destination,
+            "saml:Issuer": options.issuer,
+            "samlp:Artifact": artifact,
+        },
+    }).end();
+    return { id, xml: options.signing ? signXML(xml, options.signing, "Issuer") : xml };
+}
+
+/** Wraps a SAML message in a SOAP 1.1 envelope. */
+export function buildSOAPEnvelope(xml: string): string {
+    const message = xml.replace(/^<\?xml[^>]*\?>\s*/, "");
+    return (
+        `<?xml version="1.0" encoding="UTF-8"?>` +
+        `<SOAP-ENV:Envelope xmlns:SOAP-ENV="${NS.soap}">` +
+        `<SOAP-ENV:Body>${message}</SOAP-ENV:Body></SOAP-ENV:Envelope>`
+    );
+}
+
+/**
+ * Parses a SOAP 1.1 envelope within `limits` and returns the one element in
+ * its Body. A SOAP Fault throws `BindingError` with the fault string.
+ */
+export function readSOAPBody(xml: string, limits: XMLLimits = {}): Element {
+    const envelope = parseXML(xml, limits).documentElement as Element;
+    if (envelope.namespaceURI !== NS.soap || envelope.localName !== "Envelope") {
+        throw new MalformedXMLError(`Expected a SOAP Envelope, not ${envelope.tagName}.`);
+    }
+    const bodies = elementChildren(envelope).filter(
+        (el) => el.namespaceURI === NS.soap && el.localName === "Body"
+    );
+    if (bodies.length !== 1) {
+        throw new MalformedXMLError("SOAP Envelope must contain exactly one Body.");
+    }
+    const contents = elementChildren(bodies[0]);
+    if (contents.length !== 1) {
+        throw new MalformedXMLError(
+            `SOAP Body must contain exactly one element, not ${contents.length}.`
+        );
+    }
+
+    const [message] = contents;
+    if (message.namespaceURI === NS.soap && message.localName === "Fault") {
+        const field = (name: string) =>
+            elementChildren(message)
+                .find((el) => el.localName === name)
+                ?.textContent?.trim() || null;
+        throw new BindingError(
+            `SOAP Fault ${field("faultcode") ?? "without a faultcode"}: ` +
+                `${field("faultstring") ?? "no faultstring"}`
+        );
+    }
+    return message;
+}
+
+/**
+ * The default `SOAPTransport`: a `fetch` POST that gives up after
+ * `timeoutMs` and stops reading the reply once it passes `maxBytes`.
+ */
+export function fetchSOAPTransport(limits: BodyLimits = {}): SOAPTransport {
+    const { maxBytes, timeoutMs } = resolveBodyLimits(limits);
+    const tooLarge = () => new BindingError(`The SOAP response exceeds ${maxBytes} bytes.`);
+    return async (request) => {
+        const response = await fetch(request.url, {
+            method: "POST",
+            headers: request.headers,
+            body: request.body,
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (Number(response.headers.get("content-length")) > maxBytes) {
+            await response.body?.cancel();
+            throw tooLarge();
+        }
+
+        const chunks: Uint8Array[] = [];
+        let received = 0;
+        if (response.body) {
+            const reader = response.body.getReader();
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                received += value.byteLength;
+                if (received > maxBytes) {
+                    await reader.cancel();
+                    throw tooLarge();
+                }
+                chunks.push(value);
+            }
+        }
+        return { status: response.status, body: Buffer.concat(chunks).toString("utf-8") };
+    };
+}
@@ -0,0 +1,81 @@
+import { AttributeMapping } from "./types";
+
+const CLAIMS = "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/";
+const MS_CLAIMS = "http://schemas.microsoft.com/identity/claims/";
+const MS_WS_CLAIMS = "http://schemas.microsoft.com/ws/2008/06/identity/claims/";
+const AWS = "https://aws.amazon.com/SAML/Attributes/";
+
+/**
+ * Built-in `AttributeMapper` profiles. Each maps the attribute Names an IdP
+ * sends by default, or by its documented convention, onto the same fields:
+ * `email`, `firstName`, `lastName`, `displayName`, `username`, `groups` and
+ * usually `roles`, plus a few IdP-specific extras.
+ */
+export const ATTRIBUTE_PROFILES = {
+    /** Microsoft Entra ID (Azure AD) enterprise applications. */
+    azureAD: {
+        email: [`${CLAIMS}emailaddress`, `${CLAIMS}name`],
+        firstName: `${CLAIMS}givenname`,
+        lastName: `${CLAIMS}surname`,
+        displayName: `${MS_CLAIMS}displayname`,
+        username: `${CLAIMS}name`,
+        groups: { from: `${MS_WS_CLAIMS}groups`, multiple: true },
+        roles: { from: `${MS_WS_CLAIMS}role`, multiple: true },
+        objectId: `${MS_CLAIMS}objectidentifier`,
+        tenantId: `${MS_CLAIMS}tenantid`,
+    },
+    /** Active Directory Federation Services with the standard claim descriptions. */
+    adfs: {
+        email: `${CLAIMS}emailaddress`,
+        firstName: `${CLAIMS}givenname`,
+        lastName: `${CLAIMS}surname`,
+        displayName: `${CLAIMS}name`,
+        username: [`${CLAIMS}upn`, `${MS_WS_CLAIMS}windowsaccountname`],
+        groups: { from: "http://schemas.xmlsoap.org/claims/Group", multiple: true },
+        roles: { from: `${MS_WS_CLAIMS}role`, multiple: true },
+    },
+    /** Okta, using the attribute names from Okta's SAML app setup guides. */
+    okta: {
+        email: ["email", "user.email"],
+        firstName: ["firstName", "user.firstName"],
+        lastName: ["lastName", "user.lastName"],
+        displayName: ["displayName", "user.displayName"],
+        username: ["login", "user.login"],
+        groups: { from: "groups", multiple: true },
+        roles: { from: "roles", multiple: true },
+    },
+    /** Google Workspace, using the attribute names from its custom SAML app guide. */
+    googleWorkspace: {
+        email: ["email", "Email"],
+        firstName: ["firstName", "FirstName"],
+        lastName: ["lastName", "LastName"],
+        displayName: ["displayName", "name"],
+        username: ["email", "Email"],
+        groups: { from: ["groups", "Groups"], multiple: true },
+        roles: { from: ["roles", "Roles"], multiple: true },
+    },
+    /** Shibboleth and other research and education IdPs releasing eduPerson OIDs. */
+    shibboleth: {
+        email: "urn:oid:0.9.2342.19200300.100.1.3",
+        firstName: "urn:oid:2.5.4.42",
+        lastName: "urn:oid:2.5.4.4",
+        displayName: "urn:oid:2.16.840.1.113730.3.1.241",
+        username: ["urn:oid:1.3.6.1.4.1.5923.1.1.1.6", "urn:oid:0.9.2342.19200300.100.1.1"],
+        groups: { from: "urn:oid:1.3.6.1.4.1.5923.1.5.1.1", multiple: true },
+        entitlements: { from: "urn:oid:1.3.6.1.4.1.5923.1.1.1.7", multiple: true },
+        affiliations: {
+            from: ["urn:oid:1.3.6.1.4.1.5923.1.1.1.9", "urn:oid:1.3.6.1.4.1.5923.1.1.1.1"],
+            multiple: true,
+        },
+    },
+    /** AWS IAM Identity Center custom SAML applications. */
+    awsIdentityCenter: {
+        email: ["email", "Email", `${CLAIMS}emailaddress`],
+        firstName: ["firstName", "givenName", `${CLAIMS}givenname`],
+        lastName: ["lastName", "familyName", `${CLAIMS}surname`],
+        displayName: ["displayName", "name"],
+        username: [`${AWS}RoleSessionName`, "username", "email"],
+        groups: { from: ["groups", "memberOf"], multiple: true },
+        roles: { from: `${AWS}Role`, multiple: true },
+    },
+} satisfies Record<string, AttributeMapping>;
@@ -0,0 +1,90 @@
+import { Element, Node, XMLSerializer } from "@xmldom/xmldom";
+import { SAMLAttribute, SAMLAttributeValue } from "./types";
+import { NS, childElements, parseDateTime, resolvePrefix } from "./xml";
+
+const INTEGER_TYPES = new Set([
+    "integer",
+    "int",
+    "long",
+    "short",
+    "byte",
+    "nonNegativeInteger",
+    "nonPositiveInteger",
+    "negativeInteger",
+    "positiveInteger",
+    "unsignedLong",
+    "unsignedInt",
+    "unsignedShort",
+    "unsignedByte",
+]);
+
+/** Reads a `saml:Attribute` element into its name, metadata and typed values. */
+export function readAttribute(attribute: Element): SAMLAttribute {
+    return {
+        name: attribute.getAttribute("Name") ?? "",
+        friendlyName: attribute.getAttribute("FriendlyName") || null,
+        nameFormat: attribute.getAttribute("NameFormat") || null,
+        values: childElements(attribute, NS.saml, "AttributeValue").map(readAttributeValue),
+    };
+}
+
+function readAttributeValue(element: Element): SAMLAttributeValue {
+    const xsiType = element.getAttributeNS(NS.xsi, "type") || null;
+    if (element.getAttributeNS(NS.xsi, "nil") === "true") {
+        return { type: "nil", value: null, xsiType };
+    }
+
+    const children: Element[] = [];
+    for (let child = element.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType === Node.ELEMENT_NODE) children.push(child as Element);
+    }
+    if (children.length > 0) {
+        const nameID = children[0];
+        if (
+            children.length === 1 &&
+            nameID.namespaceURI === NS.saml &&
+            nameID.localName === "NameID"
+        ) {
+            return {
+                type: "nameID",
+                value: (nameID.textContent ?? "").trim(),
+                format: nameID.getAttribute("Format") || null,
+                nameQualifier: nameID.getAttribute("NameQualifier") || null,
+                spNameQualifier: nameID.getAttribute("SPNameQualifier") || null,
+                xsiType,
+            };
+        }
+        const serializer = new XMLSerializer();
+        return {
+            type: "xml",
+            value: children.map((child) => serializer.serializeToString(child)).join(""),
+            xsiType,
+        };
+    }
+
+    const text = element.textContent ?? "";
+    const schemaType = xsiType ? xsdLocalName(element, xsiType) : null;
+    if (schemaType === "boolean") {
+        const trimmed = text.trim();
+        if (["true", "1", "false", "0"].includes(trimmed)) {
+            return { type: "boolean", value: trimmed === "true" || trimmed === "1", xsiType };
+        }
+    } else if (schemaType !== null && INTEGER_TYPES.has(schemaType)) {
+        const trimmed = text.trim();
+        const value = Number(trimmed);
+        if (/^[+-]?\d+$/.test(trimmed) && Number.isSafeInteger(value)) {
+            return { type: "integer", value, xsiType };
+        }
+    } else if (schemaType === "dateTime") {
+        const value = parseDateTime(text.trim());
+        if (value) return { type: "dateTime", value, xsiType };
+    }
+    return { type: "string", value: text, xsiType };
+}
+
+/** The local name of an `xsi:type` in the XML Schema namespace, or `null` for any other type. */
+function xsdLocalName(element: Element, qname: string): string | null {
+    const colon = qname.indexOf(":");
+    const prefix = colon === -1 ? null : qname.slice(0, colon);
+    return resolvePrefix(element, prefix) === NS.xs ? qname.slice(colon + 1) : null;
+}
@@ -0,0 +1,410 @@
+import * as zlib from "node:zlib";
+import { IncomingMessage } from "http";
+import { SigningOptions, signDetached, signatureAlgorithmURI } from "./signature";
+import { BindingError } from "./errors";
+import { BodyLimits } from "./types";
+import { resolveLimits } from "./utils";
+
+export type RedirectMessageType = "SAMLRequest" | "SAMLResponse";
+
+/** A SAML protocol message as received on the HTTP-Redirect or HTTP-POST binding. */
+export type InboundMessage =
+    /** The raw query string (or full URL) of an HTTP-Redirect GET, before any decoding. */
+    | { query: string }
+    /** The parsed form fields of an HTTP-POST. */
+    | { body: Record<string, string | undefined> };
+
+/**
+ * A form body as a framework hands it over: the object a body parser produced,
+ * or the still-urlencoded text.
+ */
+export type FormBody = Record<string, unknown> | URLSearchParams | string | Buffer;
+
+const FORM_FIELDS = ["SAMLRequest", "SAMLResponse", "SAMLart", "RelayState"];
+
+const DEFAULT_BODY_LIMITS: Required<BodyLimits> = { maxBytes: 256 * 1024, timeoutMs: 10_000 };
+
+const FORM_CONTENT_TYPE = "application/x-www-form-urlencoded";
+
+// Standard Base64 alphabet with padding. Whitespace is stripped first, since
+// some IdPs wrap the encoded message at 64 or 76 characters.
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+export interface DecodedMessage {
+    messageType: RedirectMessageType;
+    xml: string;
+    relayState: string | null;
+    /** Present for signed HTTP-Redirect messages: the exact octets the signature covers. */
+    redirectSignature: { sigAlg: string; signature: string; signedContent: string } | null;
+}
+
+export interface PostBindingMessage {
+    /** The URL the form posts to. */
+    action: string;
+    /** Form fields: `SAMLRequest` or `SAMLResponse` (Base64 XML) and optionally `RelayState`. */
+    fields: Record<string, string>;
+}
+
+export interface PostFormOptions {
+    /**
+     * Omit the inline auto-submit script so the page works under a CSP without
+     * `'unsafe-inline'`. The form is then submitted by the script at `scriptSrc`
+     * (serve `POST_FORM_SCRIPT` there) or by the user pressing Continue.
+     */
+    cspSafe?: boolean;
+    scriptSrc?: string;
+    /** Nonce for the inline script, for CSPs that allow nonce-based scripts. */
+    nonce?: string;
+}
+
+/** Script body for `PostFormOptions.scriptSrc` when rendering CSP-safe forms. */
+export const POST_FORM_SCRIPT = `document.getElementById("saml-form").submit();\n`;
+
+export interface RedirectOptions {
+    relayState?: string;
+    /** Signs the query string (`SigAlg` + `Signature`) when present. */
+    signing?: SigningOptions;
+}
+
+/** Raw DEFLATE + Base64, as required by the HTTP-Redirect binding (SAML Bindings §3.4.4.1). */
+export function deflateMessage(xml: string): string {
+    return zlib.deflateRawSync(Buffer.from(xml, "utf-8")).toString("base64");
+}
+
+/**
+ * Reverses `deflateMessage`. Inflation stops at `maxBytes` of output, so a
+ * small compressed message cannot expand into an arbitrarily large one.
+ */
+export function inflateMessage(
+    encoded: string,
+    maxBytes = DEFAULT_BODY_LIMITS.maxBytes
+): string {
+    const compressed = decodeBase64(encoded, "HTTP-Redirect message");
+    try {
+        return zlib
+            .inflateRawSync(compressed, { maxOutputLength: maxBytes })
+            .toString("utf-8");
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+            throw new BindingError(
+                `HTTP-Redirect message inflates to more than ${maxBytes} bytes.`
+            );
+        }
+        throw new BindingError(`Cannot inflate HTTP-Redirect message: ${(err as Error).message}`);
+    }
+}
+
+/**
+ * Builds an HTTP-Redirect binding URL for `xml`. The signature covers
+ * `SAMLRequest`/`SAMLResponse`, `RelayState` and `SigAlg` in that order, exactly
+ * as they appear in the query string; query parameters already on
+ * `destination` are preserved ahead of them.
+ */
+export function buildRedirectURL(
+    destination: string,
+    messageType: RedirectMessageType,
+    xml: string,
+    options: RedirectOptions = {}
+): string {
+    const url = new URL(destination);
+
+    let query = `${messageType}=${encodeURIComponent(deflateMessage(xml))}`;
+    if (options.relayState !== undefined) {
+        query += `&RelayState=${encodeURIComponent(options.relayState)}`;
+    }
+    if (options.signing) {
+        query += `&SigAlg=${encodeURIComponent(signatureAlgorithmURI(options.signing.algorithm))}`;
+        query += `&Signature=${encodeURIComponent(signDetached(query, options.signing))}`;
+    }
+
+    const existing = url.search.replace(/^\?/, "");
+    url.search = "";
+    return `${url.toString()}?${existing ? `${existing}&` : ""}${query}`;
+}
+
+function escapeHTML(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/** Renders an HTTP-POST binding message as a self-submitting HTML page. */
+export function buildPostForm(message: PostBindingMessage, options: PostFormOptions = {}): string {
+    const inputs = Object.entries(message.fields)
+        .map(
+            ([name, value]) =>
+                `<input type="hidden" name="${escapeHTML(name)}" value="${escapeHTML(value)}"/>`
+        )
+        .join("\n      ");
+
+    let script: string;
+    if (options.cspSafe) {
+        script = options.scriptSrc ? `<script src="${escapeHTML(options.scriptSrc)}"></script>` : "";
+    } else {
+        const nonce = options.nonce ? ` nonce="${escapeHTML(options.nonce)}"` : "";
+        script = `<script${nonce}>${POST_FORM_SCRIPT}</script>`;
+    }
+
+    return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>Redirecting…</title></head>
+  <body>
+    <form id="saml-form" method="post" action="${escapeHTML(message.action)}">
+      ${inputs}
+      <noscript><p>JavaScript is disabled. Press Continue to proceed.</p></noscript>
+      <button type="submit">Continue</button>
+    </form>
+    ${script}
+  </body>
+</html>
+`;
+}
+
+function formDecode(value: string): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, " "));
+    } catch {
+        throw new BindingError("Query string is not valid URL encoding.");
+    }
+}
+
+/**
+ * Decodes an inbound HTTP-Redirect or HTTP-POST message. For redirects the
+ * signed content is rebuilt from the raw, still URL-encoded parameters, since
+ * re-encoding them could change the octets the sender signed.
+ */
+export function decodeMessage(message: InboundMessage): DecodedMessage {
+    if ("body" in message) {
+        const { body } = message;
+        const messageType: RedirectMessageType | null =
+            body.SAMLRequest !== undefined ? "SAMLRequest" :
+            body.SAMLResponse !== undefined ? "SAMLResponse" : null;
+        if (!messageType) {
+            throw new BindingError("Neither SAMLRequest nor SAMLResponse is present.");
+        }
+        return {
+            messageType,
+            xml: decodeBase64(body[messageType] as string, messageType).toString("utf-8"),
+            relayState: body.RelayState ?? null,
+            redirectSignature: null,
+        };
+    }
+
+    const query = message.query.includes("?")
+        ? message.query.slice(message.query.indexOf("?") + 1)
+        : message.query;
+    const raw = new Map<string, string>();
+    for (const pair of query.split("&")) {
+        const idx = pair.indexOf("=");
+        if (idx === -1) continue;
+        const key = pair.slice(0, idx);
+        if (!raw.has(key)) raw.set(key, pair.slice(idx + 1));
+    }
+
+    const messageType: RedirectMessageType | null =
+        raw.has("SAMLRequest") ? "SAMLRequest" : raw.has("SAMLResponse") ? "SAMLResponse" : null;
+    if (!messageType) {
+        throw new BindingError("Neither SAMLRequest nor SAMLResponse is present.");
+    }
+
+    let redirectSignature: DecodedMessage["redirectSignature"] = null;
+    const sigAlg = raw.get("SigAlg");
+    const signature = raw.get("Signature");
+    if (sigAlg !== undefined && signature !== undefined) {
+        let signedContent = `${messageType}=${raw.get(messageType) as string}`;
+        if (raw.has("RelayState")) signedContent += `&RelayState=${raw.get("RelayState") as string}`;
+        signedContent += `&SigAlg=${sigAlg}`;
+        redirectSignature = {
+            sigAlg: formDecode(sigAlg),
+            signature: formDecode(signature),
+            signedContent,
+        };
+    }
+
+    return {
+        messageType,
+        xml: inflateMessage(formDecode(raw.get(messageType) as string)),
+        relayState: raw.has("RelayState") ? formDecode(raw.get("RelayState") as string) : null,
+        redirectSignature,
+    };
+}
+
+/**
+ * Reads the SAML fields of a form body. Each must be a single string: a field
+ * that is repeated, or parsed into an array or object, is rejected rather
+ * than guessed at.
+ */
+export function readFormFields(body: FormBody): Record<string, string | undefined> {
+    const fields: Record<string, string | undefined> = {};
+    if (typeof body === "string" || Buffer.isBuffer(body) || body instanceof URLSearchParams) {
+        const params =
+            body instanceof URLSearchParams ? body : new URLSearchParams(body.toString());
+        for (const name of FORM_FIELDS) {
+            const values = params.getAll(name);
+            if (values.length > 1) {
+                throw new BindingError(`${name} appears more than once in the request body.`);
+            }
+            fields[name] = values[0];
+        }
+        return fields;
+    }
+
+    for (const name of FORM_FIELDS) {
+        const value = body[name];
+        if (value === undefined) continue;
+        if (typeof value !== "string") {
+            throw new BindingError(`${name} in the request body is not a single string.`);
+        }
+        fields[name] = value;
+    }
+    return fields;
+}
+
+/**
+ * Strictly decodes a Base64 field, where `Buffer.from` would silently skip
+ * characters outside the alphabet. Throws `BindingError` naming `field`.
+ */
+export function decodeBase64(value: string, field: string): Buffer {
+    const compact = value.replace(/\s+/g, "");
+    if (!BASE64.test(compact)) {
+        throw new BindingError(`${field} is not valid Base64.`);
+    }
+    return Buffer.from(compact, "base64");
+}
+
+/** Fills in the default limits, throwing on values that are not positive numbers. */
+export function resolveBodyLimits(limits: BodyLimits = {}): Required<BodyLimits> {
+    return resolveLimits(limits, DEFAULT_BODY_LIMITS, "bodyLimits");
+}
+
+/**
+ * Returns the form body of a Node request: what a body parser such as Express
+ * `urlencoded()` left in `parsed` (by default `req.body`), or else the contents
+ * of the stream, read within `limits`. An empty parsed object is ignored while
+ * the stream is still unread, since parsers leave one behind for content
+ * types they skip.
+ */
+export async function requestFormBody(
+    req: IncomingMessage & { body?: unknown },
+    parsed: unknown = req.body,
+    limits: BodyLimits = {}
+): Promise<FormBody> {
+    const empty =
+        parsed === undefined ||
+        parsed === null ||
+        (typeof parsed === "object" &&
+            !Buffer.isBuffer(parsed) &&
+            !(parsed instanceof URLSearchParams) &&
+            Object.keys(parsed).length === 0 &&
+            !req.readableEnded);
+    return empty ? readRequestBody(req, resolveBodyLimits(limits)) : (parsed as FormBody);
+}
+
+/**
+ * Reads the urlencoded body of a Fetch API `Request` within `limits`, checking
+ * its `Content-Type` and declared `Content-Length` before reading anything.
+ */
+export async function readFetchBody(request: Request, limits: BodyLimits = {}): Promise<string> {
+    const { maxBytes, timeoutMs } = resolveBodyLimits(limits);
+    checkFormContentType(request.headers.get("content-type"));
+    if (Number(request.headers.get("content-length")) > maxBytes) {
+        throw bodyTooLarge(maxBytes);
+    }
+    if (!request.body) return "";
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        void reader.cancel();
+    }, timeoutMs);
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (timedOut) throw bodyTimedOut(timeoutMs);
+            if (done) break;
+            received += value.byteLength;
+            if (received > maxBytes) {
+                await reader.cancel();
+                throw bodyTooLarge(maxBytes);
+            }
+            chunks.push(value);
+        }
+    } finally {
+        clearTimeout(timer);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Collects a request stream into a string. Reading stops as soon as the body
+ * passes `maxBytes` or `timeoutMs` elapses; the stream is then paused rather
+ * than destroyed, so the caller can still answer the request.
+ */
+function readRequestBody(req: IncomingMessage, limits: Required<BodyLimits>): Promise<string> {
+    return new Promise((resolve, reject) => {
+        if (req.readableEnded) {
+            return reject(
+                new BindingError(
+                    "The request body has already been read. Pass the parsed body instead."
+                )
+            );
+        }
+        checkFormContentType(req.headers["content-type"]);
+        if (Number(req.headers["content-length"]) > limits.maxBytes) {
+            return reject(bodyTooLarge(limits.maxBytes));
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        const finish = (err: Error | null): void => {
+            clearTimeout(timer);
+            req.removeListener("data", onData);
+            req.removeListener("end", onEnd);
+            req.removeListener("error", finish);
+            if (err) {
+                reject(err);
+            } else {
+                resolve(Buffer.concat(chunks).toString("utf-8"));
+            }
+        };
+        const abort = (err: BindingError): void => {
+            finish(err);
+            req.pause();
+        };
+        const onData = (chunk: Buffer | string): void => {
+            const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+            received += buffer.length;
+            if (received > limits.maxBytes) return abort(bodyTooLarge(limits.maxBytes));
+            chunks.push(buffer);
+        };
+        const onEnd = (): void => finish(null);
+        const timer = setTimeout(() => abort(bodyTimedOut(limits.timeoutMs)), limits.timeoutMs);
+        req.on("data", onData);
+        req.on("end", onEnd);
+        req.on("error", finish);
+    });
+}
+
+/** Throws unless `contentType` names a urlencoded form, ignoring parameters such as `charset`. */
+function checkFormContentType(contentType: string | null | undefined): void {
+    const type = contentType?.split(";")[0].trim().toLowerCase();
+    if (type !== FORM_CONTENT_TYPE) {
+        throw new BindingError(
+            `Expected a ${FORM_CONTENT_TYPE} body, got ${contentType || "no Content-Type"}.`
+        );
+    }
+}
+
+function bodyTooLarge(maxBytes: number): BindingError {
+    return new BindingError(`The request body exceeds ${maxBytes} bytes.`);
+}
+
+function bodyTimedOut(timeoutMs: number): BindingError {
+    return new BindingError(`The request body did not arrive within ${timeoutMs} ms.`);
+}
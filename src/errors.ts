@@ -0,0 +1,148 @@
+import { SAMLStatus } from "./types";
+
+export type SAMLErrorCode =
+    | "MALFORMED_XML"
+    | "BINDING_ERROR"
+    | "SIGNATURE_INVALID"
+    | "SIGNATURE_MISSING"
+    | "DECRYPTION_FAILED"
+    | "ASSERTION_NOT_YET_VALID"
+    | "ASSERTION_EXPIRED"
+    | "SESSION_EXPIRED"
+    | "MESSAGE_EXPIRED"
+    | "METADATA_EXPIRED"
+    | "ASSERTION_MISSING"
+    | "AUDIENCE_MISMATCH"
+    | "DESTINATION_MISMATCH"
+    | "ISSUER_MISMATCH"
+    | "RECIPIENT_MISMATCH"
+    | "SUBJECT_CONFIRMATION_INVALID"
+    | "IN_RESPONSE_TO_MISMATCH"
+    | "UNSOLICITED_RESPONSE"
+    | "RELAY_STATE_INVALID"
+    | "ATTRIBUTE_MISSING"
+    | "ASSERTION_REPLAYED"
+    | "IDP_STATUS_ERROR";
+
+/**
+ * Base class for every failure caused by an inbound SAML message. Branch on
+ * `code` rather than on the message text, which may change between releases.
+ * Misconfiguration (a missing key, a malformed URL) still throws a plain `Error`.
+ */
+export class SAMLError extends Error {
+    readonly code: SAMLErrorCode;
+
+    constructor(code: SAMLErrorCode, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+    }
+}
+
+/** The message is not well-formed XML or is not the SAML element it should be. */
+export class MalformedXMLError extends SAMLError {
+    constructor(message: string) {
+        super("MALFORMED_XML", message);
+    }
+}
+
+/** The HTTP request does not carry a decodable SAML binding message. */
+export class BindingError extends SAMLError {
+    constructor(message: string) {
+        super("BINDING_ERROR", message);
+    }
+}
+
+/** A signature failed to verify, or a required signature is absent. */
+export class SignatureError extends SAMLError {
+    constructor(code: "SIGNATURE_INVALID" | "SIGNATURE_MISSING", message: string) {
+        super(code, message);
+    }
+}
+
+/** An `EncryptedAssertion` could not be decrypted with the SP key. */
+export class DecryptionError extends SAMLError {
+    constructor(message: string) {
+        super("DECRYPTION_FAILED", message);
+    }
+}
+
+/** The current time falls outside a validity window. */
+export class TimeWindowError extends SAMLError {
+    readonly notBefore: Date | null;
+    readonly notOnOrAfter: Date | null;
+    readonly now: Date;
+
+    constructor(
+        code:
+            | "ASSERTION_NOT_YET_VALID"
+            | "ASSERTION_EXPIRED"
+            | "SESSION_EXPIRED"
+            | "MESSAGE_EXPIRED"
+            | "METADATA_EXPIRED",
+        message: string,
+        window: { notBefore?: Date | null; notOnOrAfter?: Date | null; now: Date }
+    ) {
+        super(code, message);
+        this.notBefore = window.notBefore ?? null;
+        this.notOnOrAfter = window.notOnOrAfter ?? null;
+        this.now = window.now;
+    }
+}
+
+/** A value in the message does not match what this SP expects. */
+export class ValidationError extends SAMLError {
+    readonly expected: string | null;
+    readonly actual: string | null;
+
+    constructor(
+        code:
+            | "ASSERTION_MISSING"
+            | "AUDIENCE_MISMATCH"
+            | "DESTINATION_MISMATCH"
+            | "ISSUER_MISMATCH"
+            | "RECIPIENT_MISMATCH"
+            | "SUBJECT_CONFIRMATION_INVALID"
+            | "IN_RESPONSE_TO_MISMATCH"
+            | "UNSOLICITED_RESPONSE"
+            | "RELAY_STATE_INVALID"
+            | "ATTRIBUTE_MISSING",
+        message: string,
+        values: { expected?: string | null; actual?: string | null } = {}
+    ) {
+        super(code, message);
+        this.expected = values.expected ?? null;
+        this.actual = values.actual ?? null;
+    }
+}
+
+/** Thrown when an assertion whose ID is already in the replay cache is submitted again. */
+export class ReplayError extends SAMLError {
+    readonly assertionID: string;
+
+    constructor(assertionID: string) {
+        super("ASSERTION_REPLAYED", `Assertion ${assertionID} has already been used.`);
+        this.assertionID = assertionID;
+    }
+}
+
+/** The IdP answered with a non-Success `samlp:Status`. */
+export class StatusError extends SAMLError {
+    /** The top-level status code followed by any nested second-level codes. */
+    readonly statusCodes: string[];
+    readonly statusMessage: string | null;
+    /** The serialized `StatusDetail` contents, whose format is IdP-specific. */
+    readonly statusDetail: string | null;
+
+    constructor(message: string, status: SAMLStatus) {
+        super("IDP_STATUS_ERROR", message);
+        this.statusCodes = status.codes;
+        this.statusMessage = status.message;
+        this.statusDetail = status.detail;
+    }
+
+    /** Whether `code` (for example `STATUS.noPassive`) appears at any level of the status. */
+    hasStatus(code: string): boolean {
+        return this.statusCodes.includes(code);
+    }
+}
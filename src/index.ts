@@ -1,4 +1,130 @@
 export { ServiceProvider } from "./ServiceProvider";
 export { SAMLRequest } from "./SAMLRequest";
 export { SAMLResponse } from "./SAMLResponse";
-export type { SPOptions, KeyPair, DecryptOptions, ParsedAssertion } from "./types";
\ No newline at end of file
+export { SAMLLogout } from "./SAMLLogout";
+export { IdentityProvider } from "./IdentityProvider";
+export { InMemoryRequestStore } from "./RequestStore";
+export { InMemoryReplayCache } from "./ReplayCache";
+export { RelayStateCodec, InMemoryRelayStateStore } from "./RelayState";
+export { AttributeMapper } from "./AttributeMapper";
+export { ATTRIBUTE_PROFILES } from "./attributeProfiles";
+export { verifyMetadata } from "./metadata";
+export { SAMLRoutes } from "./SAMLRoutes";
+export {
+    createExpressMiddleware,
+    createKoaMiddleware,
+    createFastifyPlugin,
+    createFetchHandler,
+} from "./adapters";
+export type {
+    KoaContextLike,
+    FastifyRequestLike,
+    FastifyReplyLike,
+    FastifyInstanceLike,
+} from "./adapters";
+export {
+    SAMLError,
+    MalformedXMLError,
+    BindingError,
+    SignatureError,
+    DecryptionError,
+    TimeWindowError,
+    ValidationError,
+    ReplayError,
+    StatusError,
+} from "./errors";
+export type { SAMLErrorCode } from "./errors";
+export { AUTHN_CONTEXT, BINDINGS, STATUS, STATUS_SUCCESS } from "./xml";
+export {
+    buildRedirectURL,
+    buildPostForm,
+    decodeMessage,
+    decodeBase64,
+    readFormFields,
+    requestFormBody,
+    readFetchBody,
+    deflateMessage,
+    inflateMessage,
+    POST_FORM_SCRIPT,
+} from "./bindings";
+export type {
+    RedirectMessageType,
+    RedirectOptions,
+    InboundMessage,
+    FormBody,
+    DecodedMessage,
+    PostBindingMessage,
+    PostFormOptions,
+} from "./bindings";
+export {
+    ARTIFACT_TYPE_CODE,
+    SOAP_HEADERS,
+    artifactSourceID,
+    parseArtifact,
+    createArtifact,
+    buildArtifactResolve,
+    buildSOAPEnvelope,
+    readSOAPBody,
+    fetchSOAPTransport,
+} from "./artifact";
+export type { TrustedKeys } from "./signature";
+export type {
+    SPOptions,
+    KeyPair,
+    KeyStatus,
+    DecryptionKey,
+    SPKey,
+    MetadataOptions,
+    LocalizedString,
+    IndexedEndpoint,
+    RequestedAttribute,
+    AttributeConsumingService,
+    OrganizationInfo,
+    ContactType,
+    ContactPerson,
+    UILogo,
+    UIInfo,
+    ClockOptions,
+    IdPMetadataOptions,
+    Endpoint,
+    IdPOptions,
+    SAMLRequestOptions,
+    AuthnRequestOptions,
+    AuthnContextComparison,
+    RequestedAuthnContext,
+    NameIDPolicy,
+    IdPEntry,
+    Scoping,
+    RequestStore,
+    ReplayCache,
+    RelayStateOptions,
+    RelayStateStore,
+    SAMLLogoutOptions,
+    BodyLimits,
+    XMLLimits,
+    LogoutSubject,
+    ParsedLogoutRequest,
+    ParsedLogoutResponse,
+    SAMLArtifact,
+    SOAPRequest,
+    SOAPResponse,
+    SOAPTransport,
+    ArtifactResolutionOptions,
+    DecryptOptions,
+    AssertionChecks,
+    SAMLResponseOptions,
+    SignatureAlgorithm,
+    SignedElements,
+    SAMLStatus,
+    SAMLAttribute,
+    SAMLAttributeValue,
+    ParsedAssertion,
+    AttributeRule,
+    AttributeMapping,
+    MappedAttributes,
+    SAMLRoute,
+    RouteRequest,
+    RouteResponse,
+    RouteResult,
+    SAMLRoutesOptions,
+} from "./types";
\ No newline at end of file
@@ -0,0 +1,329 @@
+import { create } from "xmlbuilder2";
+import { Element } from "@xmldom/xmldom";
+import type { ServiceProvider } from "./ServiceProvider";
+import {
+    AttributeConsumingService,
+    ContactPerson,
+    Endpoint,
+    LocalizedString,
+    MetadataOptions,
+    UIInfo,
+} from "./types";
+import { TrustedKeys, signXML, verifyEnvelopedSignature } from "./signature";
+import { extractPEMBody, generateRandomEntityID } from "./utils";
+import { METADATA_XML_LIMITS, NS, parseXML } from "./xml";
+import { MalformedXMLError, SignatureError } from "./errors";
+
+const DEFAULT_VALIDITY_MS = 1000 * 60 * 60 * 24;
+
+const CONTACT_TYPES = ["technical", "support", "administrative", "billing", "other"];
+
+// An xs:duration such as P1D or PT6H30M; at least one component must be present.
+const XS_DURATION = /^-?P(?!$)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+
+/** Throws a plain `Error` for any `MetadataOptions` value metadata consumers would reject. */
+export function validateMetadataOptions(options: MetadataOptions): void {
+    const { validityMs, cacheDuration } = options;
+    if (validityMs !== undefined && validityMs !== null && !(validityMs > 0)) {
+        throw new Error("metadata.validityMs must be a positive number or null.");
+    }
+    if (cacheDuration !== undefined && !XS_DURATION.test(cacheDuration)) {
+        throw new Error(`metadata.cacheDuration ${cacheDuration} is not an xs:duration.`);
+    }
+
+    const acs = options.assertionConsumerServices;
+    if (acs) {
+        if (acs.length === 0) {
+            throw new Error("metadata.assertionConsumerServices needs at least one endpoint.");
+        }
+        checkIndexed("assertionConsumerServices", acs);
+    }
+    for (const endpoint of [...(acs ?? []), ...(options.singleLogoutServices ?? [])]) {
+        new URL(endpoint.location); // throws if malformed
+        if (endpoint.responseLocation) new URL(endpoint.responseLocation);
+    }
+
+    const services = options.attributeConsumingServices ?? [];
+    checkIndexed("attributeConsumingServices", services);
+    for (const service of services) {
+        checkLocalized("serviceName", service.serviceName);
+        if (service.requestedAttributes.length === 0) {
+            throw new Error("An AttributeConsumingService needs at least one requested attribute.");
+        }
+    }
+
+    if (options.organization) {
+        const { name, displayName, url } = options.organization;
+        checkLocalized("organization.name", name);
+        checkLocalized("organization.displayName", displayName);
+        checkLocalized("organization.url", url, true);
+    }
+
+    for (const contact of options.contactPersons ?? []) {
+        if (!CONTACT_TYPES.includes(contact.type)) {
+            throw new Error(`Unknown ContactPerson type: ${contact.type}`);
+        }
+    }
+
+    const sign = options.sign;
+    if (typeof sign === "object" && (!sign.privateKey || !sign.certificate)) {
+        throw new Error("metadata.sign needs both a privateKey and a certificate.");
+    }
+
+    const ui = options.uiInfo;
+    if (ui) {
+        if (ui.informationURL) checkLocalized("uiInfo.informationURL", ui.informationURL, true);
+        if (ui.privacyStatementURL) {
+            checkLocalized("uiInfo.privacyStatementURL", ui.privacyStatementURL, true);
+        }
+        for (const logo of ui.logos ?? []) {
+            new URL(logo.url); // throws if malformed
+            if (!isPositiveInteger(logo.height) || !isPositiveInteger(logo.width)) {
+                throw new Error("uiInfo logo height and width must be positive integers.");
+            }
+        }
+    }
+}
+
+/**
+ * Gives every endpoint in the list an index, defaulting to its position, and
+ * marks the first one as the default when none is.
+ */
+export function resolveIndexed<T extends { index?: number; isDefault?: boolean }>(
+    items: T[]
+): (T & { index: number; isDefault: boolean })[] {
+    const hasDefault = items.some((item) => item.isDefault);
+    return items.map((item, i) => ({
+        ...item,
+        index: item.index ?? i,
+        isDefault: item.isDefault ?? (!hasDefault && i === 0),
+    }));
+}
+
+/**
+ * Builds the `md:EntityDescriptor` for `sp`, in the element order the metadata
+ * schema requires, and signs it when `sign` is set.
+ */
+export function buildSPMetadata(sp: ServiceProvider): string {
+    const options = sp.metadata;
+    const certificates = ["active", "next"].flatMap((status) =>
+        sp.keys
+            .filter((key) => key.status === status)
+            .map((key) => extractPEMBody(key.certificate))
+    );
+    const encryptionMethods = (options.encryptionMethods ?? []).map((algorithm) => ({
+        "@Algorithm": algorithm,
+    }));
+
+    const descriptor: Record<string, unknown> = {
+        "@AuthnRequestsSigned": String(options.authnRequestsSigned ?? true),
+        "@WantAssertionsSigned": String(options.wantAssertionsSigned ?? true),
+        "@protocolSupportEnumeration": NS.samlp,
+    };
+    if (options.uiInfo) {
+        descriptor["md:Extensions"] = { "mdui:UIInfo": uiInfoElement(options.uiInfo) };
+    }
+    descriptor["md:KeyDescriptor"] = [
+        ...certificates.map((body) => keyDescriptor("signing", body)),
+        ...certificates.map((body) => ({
+            ...keyDescriptor("encryption", body),
+            ...(encryptionMethods.length > 0 ? { "md:EncryptionMethod": encryptionMethods } : {}),
+        })),
+    ];
+    if (sp.singleLogoutServices.length > 0) {
+        descriptor["md:SingleLogoutService"] = sp.singleLogoutServices.map(endpointElement);
+    }
+    if (options.nameIDFormats?.length) {
+        descriptor["md:NameIDFormat"] = options.nameIDFormats;
+    }
+    descriptor["md:AssertionConsumerService"] = sp.assertionConsumerServices.map((endpoint) => ({
+        ...endpointElement(endpoint),
+        "@index": String(endpoint.index),
+        ...(endpoint.isDefault ? { "@isDefault": "true" } : {}),
+    }));
+    if (options.attributeConsumingServices?.length) {
+        descriptor["md:AttributeConsumingService"] = resolveIndexed(
+            options.attributeConsumingServices
+        ).map(attributeConsumingServiceElement);
+    }
+
+    const validityMs =
+        options.validityMs === undefined ? DEFAULT_VALIDITY_MS : options.validityMs;
+    const entity: Record<string, unknown> = {
+        "@xmlns:md": NS.md,
+        "@xmlns:ds": NS.ds,
+        ...(options.uiInfo ? { "@xmlns:mdui": NS.mdui } : {}),
+        "@entityID": sp.entityID,
+        ...(options.sign ? { "@ID": generateRandomEntityID() } : {}),
+        ...(validityMs !== null
+            ? { "@validUntil": new Date(Date.now() + validityMs).toISOString() }
+            : {}),
+        ...(options.cacheDuration ? { "@cacheDuration": options.cacheDuration } : {}),
+        "md:SPSSODescriptor": descriptor,
+    };
+    if (options.organization) {
+        const { name, displayName, url } = options.organization;
+        entity["md:Organization"] = {
+            "md:OrganizationName": localized(name),
+            "md:OrganizationDisplayName": localized(displayName),
+            "md:OrganizationURL": localized(url),
+        };
+    }
+    if (options.contactPersons?.length) {
+        entity["md:ContactPerson"] = options.contactPersons.map(contactElement);
+    }
+
+    const xml = create({ "md:EntityDescriptor": entity }).end({ prettyPrint: true });
+    if (!options.sign) return xml;
+    const key = options.sign === true ? sp : options.sign;
+    return signXML(xml, {
+        privateKey: key.privateKey,
+        certificate: key.certificate,
+        algorithm: options.signatureAlgorithm,
+    });
+}
+
+/**
+ * Verifies the enveloped signature on the root `md:EntityDescriptor` or
+ * `md:EntitiesDescriptor` of a metadata document: SP metadata signed by
+ * `createMetadata`, or IdP and federation metadata before it is trusted.
+ * Throws `SignatureError` when the document is unsigned or does not verify.
+ */
+export function verifyMetadata(xml: string, trusted: TrustedKeys): void {
+    const root = parseXML(xml, METADATA_XML_LIMITS).documentElement as Element;
+    verifyMetadataSignature(root, trusted);
+}
+
+/** `verifyMetadata` for a document that is already parsed. */
+export function verifyMetadataSignature(root: Element, trusted: TrustedKeys): void {
+    if (!trusted.certificates?.length && !trusted.fingerprints?.length) {
+        throw new Error("Verifying metadata needs trusted certificates or fingerprints.");
+    }
+    if (
+        root.namespaceURI !== NS.md ||
+        (root.localName !== "EntityDescriptor" && root.localName !== "EntitiesDescriptor")
+    ) {
+        throw new MalformedXMLError("Expected an md:EntityDescriptor or md:EntitiesDescriptor.");
+    }
+    if (!verifyEnvelopedSignature(root, trusted)) {
+        throw new SignatureError("SIGNATURE_MISSING", `Metadata ${root.localName} is not signed.`);
+    }
+}
+
+function checkIndexed(name: string, items: { index?: number; isDefault?: boolean }[]): void {
+    const resolved = resolveIndexed(items);
+    const indexes = new Set<number>();
+    for (const { index } of resolved) {
+        if (!(Number.isInteger(index) && index >= 0 && index <= 0xffff)) {
+            throw new Error(`${name} index must be an integer between 0 and 65535.`);
+        }
+        if (indexes.has(index)) {
+            throw new Error(`${name} uses index ${index} more than once.`);
+        }
+        indexes.add(index);
+    }
+    if (resolved.filter((item) => item.isDefault).length > 1) {
+        throw new Error(`${name} may mark only one entry as isDefault.`);
+    }
+}
+
+function checkLocalized(name: string, value: LocalizedString, urls = false): void {
+    const texts = typeof value === "string" ? [value] : Object.values(value);
+    if (texts.length === 0 || texts.some((text) => text.length === 0)) {
+        throw new Error(`metadata ${name} must not be empty.`);
+    }
+    if (urls) {
+        for (const text of texts) new URL(text); // throws if malformed
+    }
+}
+
+function isPositiveInteger(value: number): boolean {
+    return Number.isInteger(value) && value > 0;
+}
+
+function localized(value: LocalizedString): { "@xml:lang": string; "#": string }[] {
+    const entries = typeof value === "string" ? [["en", value]] : Object.entries(value);
+    return entries.map(([lang, text]) => ({ "@xml:lang": lang, "#": text }));
+}
+
+function keyDescriptor(use: "signing" | "encryption", certBody: string) {
+    return {
+        "@use": use,
+        "ds:KeyInfo": {
+            "@xmlns:ds": NS.ds,
+            "ds:X509Data": { "ds:X509Certificate": certBody },
+        },
+    };
+}
+
+function endpointElement(endpoint: Endpoint): Record<string, string> {
+    return {
+        "@Binding": endpoint.binding,
+        "@Location": endpoint.location,
+        ...(endpoint.responseLocation ? { "@ResponseLocation": endpoint.responseLocation } : {}),
+    };
+}
+
+function attributeConsumingServiceElement(
+    service: AttributeConsumingService & { index: number; isDefault: boolean }
+): Record<string, unknown> {
+    return {
+        "@index": String(service.index),
+        ...(service.isDefault ? { "@isDefault": "true" } : {}),
+        "md:ServiceName": localized(service.serviceName),
+        ...(service.serviceDescription
+            ? { "md:ServiceDescription": localized(service.serviceDescription) }
+            : {}),
+        "md:RequestedAttribute": service.requestedAttributes.map((attribute) => ({
+            "@Name": attribute.name,
+            ...(attribute.nameFormat ? { "@NameFormat": attribute.nameFormat } : {}),
+            ...(attribute.friendlyName ? { "@FriendlyName": attribute.friendlyName } : {}),
+            ...(attribute.isRequired !== undefined
+                ? { "@isRequired": String(attribute.isRequired) }
+                : {}),
+            ...(attribute.values?.length
+                ? {
+                      "saml:AttributeValue": attribute.values.map((value) => ({
+                          "@xmlns:saml": NS.saml,
+                          "#": value,
+                      })),
+                  }
+                : {}),
+        })),
+    };
+}
+
+function contactElement(contact: ContactPerson): Record<string, unknown> {
+    const element: Record<string, unknown> = { "@contactType": contact.type };
+    if (contact.company) element["md:Company"] = contact.company;
+    if (contact.givenName) element["md:GivenName"] = contact.givenName;
+    if (contact.surName) element["md:SurName"] = contact.surName;
+    if (contact.emailAddresses?.length) {
+        element["md:EmailAddress"] = contact.emailAddresses.map((address) =>
+            address.startsWith("mailto:") ? address : `mailto:${address}`
+        );
+    }
+    if (contact.telephoneNumbers?.length) {
+        element["md:TelephoneNumber"] = contact.telephoneNumbers;
+    }
+    return element;
+}
+
+function uiInfoElement(ui: UIInfo): Record<string, unknown> {
+    const element: Record<string, unknown> = {};
+    if (ui.displayName) element["mdui:DisplayName"] = localized(ui.displayName);
+    if (ui.description) element["mdui:Description"] = localized(ui.description);
+    if (ui.logos?.length) {
+        element["mdui:Logo"] = ui.logos.map((logo) => ({
+            "@height": String(logo.height),
+            "@width": String(logo.width),
+            ...(logo.lang ? { "@xml:lang": logo.lang } : {}),
+            "#": logo.url,
+        }));
+    }
+    if (ui.informationURL) element["mdui:InformationURL"] = localized(ui.informationURL);
+    if (ui.privacyStatementURL) {
+        element["mdui:PrivacyStatementURL"] = localized(ui.privacyStatementURL);
+    }
+    return element;
+}
@@ -0,0 +1,455 @@
+import * as crypto from "node:crypto";
+import { Document, Element, Node, XMLSerializer } from "@xmldom/xmldom";
+import { SignatureAlgorithm } from "./types";
+import { NS, childElements, parseXML } from "./xml";
+import { extractPEMBody, toPEMCertificate } from "./utils";
+import { SignatureError } from "./errors";
+
+const XMLNS_NS = "http://www.w3.org/2000/xmlns/";
+
+const C14N_EXCLUSIVE = "http://www.w3.org/2001/10/xml-exc-c14n#";
+const C14N_EXCLUSIVE_WITH_COMMENTS = "http://www.w3.org/2001/10/xml-exc-c14n#WithComments";
+const TRANSFORM_ENVELOPED = "http://www.w3.org/2000/09/xmldsig#enveloped-signature";
+
+const SIGNATURE_METHODS: Record<SignatureAlgorithm, { uri: string; hash: string }> = {
+    "rsa-sha1": { uri: "http://www.w3.org/2000/09/xmldsig#rsa-sha1", hash: "sha1" },
+    "rsa-sha256": { uri: "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256", hash: "sha256" },
+    "rsa-sha512": { uri: "http://www.w3.org/2001/04/xmldsig-more#rsa-sha512", hash: "sha512" },
+};
+
+const DIGEST_METHODS: Record<string, { uri: string; hash: string }> = {
+    sha1: { uri: "http://www.w3.org/2000/09/xmldsig#sha1", hash: "sha1" },
+    sha256: { uri: "http://www.w3.org/2001/04/xmlenc#sha256", hash: "sha256" },
+    sha512: { uri: "http://www.w3.org/2001/04/xmlenc#sha512", hash: "sha512" },
+};
+
+export interface CanonicalizeOptions {
+    /** A descendant to omit from the output, e.g. the enveloped `ds:Signature`. */
+    exclude?: Node | null;
+    /** InclusiveNamespaces PrefixList; `#default` stands for the default namespace. */
+    inclusivePrefixes?: string[];
+    withComments?: boolean;
+}
+
+export interface SigningOptions {
+    privateKey: string;
+    /** PEM certificate embedded in `ds:KeyInfo` so the verifier can pick the right key. */
+    certificate?: string;
+    algorithm?: SignatureAlgorithm;
+}
+
+export interface TrustedKeys {
+    /** PEM or bare Base64 certificates trusted to sign. */
+    certificates?: string[];
+    /** SHA-1 or SHA-256 fingerprints (hex, colons optional) of certificates trusted to sign. */
+    fingerprints?: string[];
+}
+
+/** Exclusive XML Canonicalization 1.0 (https://www.w3.org/TR/xml-exc-c14n/) of an element subtree. */
+export function canonicalize(element: Element, options: CanonicalizeOptions = {}): string {
+    return canonicalizeElement(element, new Map(), options);
+}
+
+function canonicalizeElement(
+    element: Element,
+    rendered: Map<string, string>,
+    options: CanonicalizeOptions
+): string {
+    const own = new Map<string, string>();
+    const [prefix] = splitQName(element.tagName);
+    own.set(prefix, element.namespaceURI ?? "");
+
+    const attrs: { ns: string; local: string; qname: string; value: string }[] = [];
+    for (let i = 0; i < element.attributes.length; i++) {
+        const attr = element.attributes[i];
+        if (attr.namespaceURI === XMLNS_NS || attr.name === "xmlns") continue;
+        const [attrPrefix, local] = splitQName(attr.name);
+        if (attrPrefix && attrPrefix !== "xml") own.set(attrPrefix, attr.namespaceURI ?? "");
+        attrs.push({ ns: attr.namespaceURI ?? "", local, qname: attr.name, value: attr.value });
+    }
+
+    for (const token of options.inclusivePrefixes ?? []) {
+        const p = token === "#default" ? "" : token;
+        if (own.has(p)) continue;
+        const uri = element.lookupNamespaceURI(p || null);
+        if (uri) own.set(p, uri);
+    }
+
+    const next = new Map(rendered);
+    const decls: [string, string][] = [];
+    for (const [p, uri] of own) {
+        if (p === "" && uri === "" && !rendered.get("")) continue;
+        if (rendered.get(p) === uri) continue;
+        decls.push([p, uri]);
+        next.set(p, uri);
+    }
+    decls.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    attrs.sort((a, b) =>
+        a.ns !== b.ns ? (a.ns < b.ns ? -1 : 1) : a.local < b.local ? -1 : a.local > b.local ? 1 : 0
+    );
+
+    let out = `<${element.tagName}`;
+    for (const [p, uri] of decls) {
+        out += ` ${p ? `xmlns:${p}` : "xmlns"}="${escapeAttr(uri)}"`;
+    }
+    for (const attr of attrs) {
+        out += ` ${attr.qname}="${escapeAttr(attr.value)}"`;
+    }
+    out += ">";
+
+    for (let child = element.firstChild; child; child = child.nextSibling) {
+        if (child === options.exclude) continue;
+        switch (child.nodeType) {
+            case Node.ELEMENT_NODE:
+                out += canonicalizeElement(child as Element, next, options);
+                break;
+            case Node.TEXT_NODE:
+            case Node.CDATA_SECTION_NODE:
+                out += escapeText(child.nodeValue ?? "");
+                break;
+            case Node.COMMENT_NODE:
+                if (options.withComments) out += `<!--${child.nodeValue ?? ""}-->`;
+                break;
+            case Node.PROCESSING_INSTRUCTION_NODE: {
+                const pi = child as Node & { target: string };
+                const data = child.nodeValue ?? "";
+                out += data ? `<?${pi.target} ${data}?>` : `<?${pi.target}?>`;
+                break;
+            }
+        }
+    }
+
+    return out + `</${element.tagName}>`;
+}
+
+function splitQName(qname: string): [string, string] {
+    const idx = qname.indexOf(":");
+    return idx === -1 ? ["", qname] : [qname.slice(0, idx), qname.slice(idx + 1)];
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/\r/g, "&#xD;");
+}
+
+function escapeAttr(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/"/g, "&quot;")
+        .replace(/\t/g, "&#x9;")
+        .replace(/\n/g, "&#xA;")
+        .replace(/\r/g, "&#xD;");
+}
+
+function singleChild(parent: Element, localName: string): Element {
+    const children = childElements(parent, NS.ds, localName);
+    if (children.length !== 1) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Expected exactly one ds:${localName} in ds:${parent.localName}.`
+        );
+    }
+    return children[0];
+}
+
+function inclusivePrefixesOf(method: Element): string[] {
+    for (let child = method.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType === Node.ELEMENT_NODE && child.localName === "InclusiveNamespaces") {
+            const list = (child as Element).getAttribute("PrefixList") ?? "";
+            return list.split(/\s+/).filter(Boolean);
+        }
+    }
+    return [];
+}
+
+function normaliseFingerprint(fingerprint: string): string {
+    return fingerprint.replace(/:/g, "").toLowerCase();
+}
+
+/** Collects the public keys a signature may be checked against. */
+function candidateCertificates(signature: Element, trusted: TrustedKeys): string[] {
+    const candidates = (trusted.certificates ?? []).map(toPEMCertificate);
+
+    const fingerprints = (trusted.fingerprints ?? []).map(normaliseFingerprint);
+    if (fingerprints.length > 0) {
+        const embedded = signature.getElementsByTagNameNS(NS.ds, "X509Certificate");
+        for (let i = 0; i < embedded.length; i++) {
+            const pem = toPEMCertificate(embedded[i].textContent ?? "");
+            let x509: crypto.X509Certificate;
+            try {
+                x509 = new crypto.X509Certificate(pem);
+            } catch {
+                continue;
+            }
+            const sha1 = normaliseFingerprint(x509.fingerprint);
+            const sha256 = normaliseFingerprint(x509.fingerprint256);
+            if (fingerprints.includes(sha1) || fingerprints.includes(sha256)) {
+                candidates.push(pem);
+            }
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Verifies the enveloped `ds:Signature` that is a direct child of `element`.
+ *
+ * Returns `false` when the element carries no signature, and throws when a
+ * signature is present but does not verify against any of the trusted keys.
+ * The single Reference must point at `element` itself, so a valid signature
+ * over some other node in the document is never accepted for this one.
+ */
+export function verifyEnvelopedSignature(element: Element, trusted: TrustedKeys): boolean {
+    const signatures = childElements(element, NS.ds, "Signature");
+    if (signatures.length === 0) return false;
+    if (signatures.length > 1) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Multiple signatures found on ${element.localName}.`
+        );
+    }
+    const signature = signatures[0];
+
+    const signedInfo = singleChild(signature, "SignedInfo");
+    const c14nMethod = singleChild(signedInfo, "CanonicalizationMethod");
+    const c14nAlgorithm = c14nMethod.getAttribute("Algorithm");
+    if (c14nAlgorithm !== C14N_EXCLUSIVE && c14nAlgorithm !== C14N_EXCLUSIVE_WITH_COMMENTS) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Unsupported canonicalization algorithm: ${c14nAlgorithm}`
+        );
+    }
+
+    const signatureAlgorithm = singleChild(signedInfo, "SignatureMethod").getAttribute("Algorithm");
+    const signatureMethod = Object.values(SIGNATURE_METHODS).find(
+        (m) => m.uri === signatureAlgorithm
+    );
+    if (!signatureMethod) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Unsupported signature algorithm: ${signatureAlgorithm}`
+        );
+    }
+
+    const reference = singleChild(signedInfo, "Reference");
+    const id = element.getAttribute("ID");
+    if (!id || reference.getAttribute("URI") !== `#${id}`) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Signature reference does not point at the signed ${element.localName}.`
+        );
+    }
+
+    let referencePrefixes: string[] = [];
+    let referenceWithComments = false;
+    const transforms = childElements(reference, NS.ds, "Transforms")[0];
+    if (transforms) {
+        for (const transform of childElements(transforms, NS.ds, "Transform")) {
+            const algorithm = transform.getAttribute("Algorithm");
+            if (algorithm === TRANSFORM_ENVELOPED) continue;
+            if (algorithm === C14N_EXCLUSIVE || algorithm === C14N_EXCLUSIVE_WITH_COMMENTS) {
+                referencePrefixes = inclusivePrefixesOf(transform);
+                referenceWithComments = algorithm === C14N_EXCLUSIVE_WITH_COMMENTS;
+                continue;
+            }
+            throw new SignatureError(
+                "SIGNATURE_INVALID",
+                `Unsupported transform algorithm: ${algorithm}`
+            );
+        }
+    }
+
+    const digestAlgorithm = singleChild(reference, "DigestMethod").getAttribute("Algorithm");
+    const digestMethod = Object.values(DIGEST_METHODS).find((m) => m.uri === digestAlgorithm);
+    if (!digestMethod) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Unsupported digest algorithm: ${digestAlgorithm}`
+        );
+    }
+
+    const expectedDigest = Buffer.from(
+        (singleChild(reference, "DigestValue").textContent ?? "").replace(/\s+/g, ""),
+        "base64"
+    );
+    const actualDigest = crypto
+        .createHash(digestMethod.hash)
+        .update(
+            canonicalize(element, {
+                exclude: signature,
+                inclusivePrefixes: referencePrefixes,
+                withComments: referenceWithComments,
+            }),
+            "utf-8"
+        )
+        .digest();
+    if (
+        expectedDigest.length !== actualDigest.length ||
+        !crypto.timingSafeEqual(expectedDigest, actualDigest)
+    ) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            `Digest mismatch for signed ${element.localName}.`
+        );
+    }
+
+    const signatureValue = Buffer.from(
+        (singleChild(signature, "SignatureValue").textContent ?? "").replace(/\s+/g, ""),
+        "base64"
+    );
+    const canonicalSignedInfo = Buffer.from(
+        canonicalize(signedInfo, {
+            inclusivePrefixes: inclusivePrefixesOf(c14nMethod),
+            withComments: c14nAlgorithm === C14N_EXCLUSIVE_WITH_COMMENTS,
+        }),
+        "utf-8"
+    );
+
+    const certificates = candidateCertificates(signature, trusted);
+    if (certificates.length === 0) {
+        throw new SignatureError(
+            "SIGNATURE_INVALID",
+            "No trusted certificate matches the signature."
+        );
+    }
+    for (const pem of certificates) {
+        if (crypto.verify(signatureMethod.hash, canonicalSignedInfo, pem, signatureValue)) {
+            return true;
+        }
+    }
+    throw new SignatureError(
+        "SIGNATURE_INVALID",
+        `Signature on ${element.localName} is not valid for any trusted certificate.`
+    );
+}
+
+/**
+ * Adds an enveloped `ds:Signature` to `element`, inserted immediately after
+ * `insertAfter` (typically the Issuer) or as the first child when omitted.
+ */
+export function signElement(
+    element: Element,
+    options: SigningOptions,
+    insertAfter: Element | null = null
+): void {
+    const id = element.getAttribute("ID");
+    if (!id) {
+        throw new Error(`Cannot sign ${element.localName} without an ID attribute.`);
+    }
+
+    const doc = element.ownerDocument as Document;
+    const method = SIGNATURE_METHODS[options.algorithm ?? "rsa-sha256"];
+    const digestMethod = DIGEST_METHODS[method.hash];
+
+    const ds = (name: string): Element => doc.createElementNS(NS.ds, `ds:${name}`);
+    const withAlgorithm = (name: string, algorithm: string): Element => {
+        const el = ds(name);
+        el.setAttribute("Algorithm", algorithm);
+        return el;
+    };
+
+    const digest = crypto
+        .createHash(digestMethod.hash)
+        .update(canonicalize(element), "utf-8")
+        .digest("base64");
+
+    const signature = ds("Signature");
+    signature.setAttributeNS(XMLNS_NS, "xmlns:ds", NS.ds);
+
+    const signedInfo = ds("SignedInfo");
+    signedInfo.appendChild(withAlgorithm("CanonicalizationMethod", C14N_EXCLUSIVE));
+    signedInfo.appendChild(withAlgorithm("SignatureMethod", method.uri));
+
+    const reference = ds("Reference");
+    reference.setAttribute("URI", `#${id}`);
+    const transforms = ds("Transforms");
+    transforms.appendChild(withAlgorithm("Transform", TRANSFORM_ENVELOPED));
+    transforms.appendChild(withAlgorithm("Transform", C14N_EXCLUSIVE));
+    reference.appendChild(transforms);
+    reference.appendChild(withAlgorithm("DigestMethod", digestMethod.uri));
+    const digestValue = ds("DigestValue");
+    digestValue.appendChild(doc.createTextNode(digest));
+    reference.appendChild(digestValue);
+    signedInfo.appendChild(reference);
+    signature.appendChild(signedInfo);
+
+    element.insertBefore(signature, insertAfter ? insertAfter.nextSibling : element.firstChild);
+
+    const signatureValue = ds("SignatureValue");
+    signatureValue.appendChild(
+        doc.createTextNode(
+            crypto
+                .sign(method.hash, Buffer.from(canonicalize(signedInfo), "utf-8"), options.privateKey)
+                .toString("base64")
+        )
+    );
+    signature.appendChild(signatureValue);
+
+    if (options.certificate) {
+        const keyInfo = ds("KeyInfo");
+        const x509Data = ds("X509Data");
+        const x509Certificate = ds("X509Certificate");
+        x509Certificate.appendChild(doc.createTextNode(extractPEMBody(options.certificate)));
+        x509Data.appendChild(x509Certificate);
+        keyInfo.appendChild(x509Data);
+        signature.appendChild(keyInfo);
+    }
+}
+
+/**
+ * Signs the root element of an XML document and returns the serialised result.
+ * `insertAfter` names the local name of the child the signature should follow.
+ */
+export function signXML(xml: string, options: SigningOptions, insertAfter?: string): string {
+    const doc = parseXML(xml);
+    const root = doc.documentElement as Element;
+
+    let anchor: Element | null = null;
+    if (insertAfter) {
+        for (let child = root.firstChild; child; child = child.nextSibling) {
+            if (child.nodeType === Node.ELEMENT_NODE && child.localName === insertAfter) {
+                anchor = child as Element;
+                break;
+            }
+        }
+    }
+
+    signElement(root, options, anchor);
+    return new XMLSerializer().serializeToString(doc);
+}
+
+/** The XML-DSig URI for a signature algorithm, as used in `SignatureMethod` and `SigAlg`. */
+export function signatureAlgorithmURI(algorithm: SignatureAlgorithm = "rsa-sha256"): string {
+    return SIGNATURE_METHODS[algorithm].uri;
+}
+
+/** Signs `data` for bindings that carry the signature outside the XML, e.g. HTTP-Redirect. */
+export function signDetached(data: string, options: SigningOptions): string {
+    const method = SIGNATURE_METHODS[options.algorithm ?? "rsa-sha256"];
+    return crypto.sign(method.hash, Buffer.from(data, "utf-8"), options.privateKey).toString("base64");
+}
+
+/**
+ * Verifies a detached signature produced by `signDetached`. Only `certificates`
+ * are consulted: no certificate travels with the message for fingerprints to match.
+ */
+export function verifyDetached(
+    data: string,
+    sigAlg: string,
+    signature: string,
+    trusted: TrustedKeys
+): boolean {
+    const method = Object.values(SIGNATURE_METHODS).find((m) => m.uri === sigAlg);
+    if (!method) {
+        throw new SignatureError("SIGNATURE_INVALID", `Unsupported signature algorithm: ${sigAlg}`);
+    }
+    const signatureValue = Buffer.from(signature, "base64");
+    return (trusted.certificates ?? []).some((cert) =>
+        crypto.verify(method.hash, Buffer.from(data, "utf-8"), toPEMCertificate(cert), signatureValue)
+    );
+}
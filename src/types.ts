@@ -1,24 +1,598 @@
+import type { IdentityProvider } from "./IdentityProvider";
+import type { SAMLLogout } from "./SAMLLogout";
+import type { SAMLRequest } from "./SAMLRequest";
+import type { SAMLResponse } from "./SAMLResponse";
+import type { ServiceProvider } from "./ServiceProvider";
+import type { FormBody } from "./bindings";
+import type { SAMLError } from "./errors";
+import type { TrustedKeys } from "./signature";
+
 export interface SPOptions {
     assertionEndpoint: string;
     certificate?: string;
     privateKey?: string;
+    /** A rollover key set to hold instead of a single `certificate` and `privateKey`. */
+    keys?: SPKey[];
+    /** What `createMetadata` publishes besides the entityID and keys. */
+    metadata?: MetadataOptions;
     entityID?: string;
     keyLength?: 2048 | 4096;
 }
 
+export interface Endpoint {
+    binding: string;
+    location: string;
+    responseLocation?: string;
+}
+
+export interface IdPOptions {
+    entityID: string;
+    singleSignOnServices?: Endpoint[];
+    singleLogoutServices?: Endpoint[];
+    /** SOAP endpoints that resolve artifacts sent on the HTTP-Artifact binding. */
+    artifactResolutionServices?: IndexedEndpoint[];
+    /** PEM or bare Base64 certificates the IdP signs with. */
+    signingCertificates?: string[];
+    /** PEM or bare Base64 certificates to encrypt messages to the IdP with. */
+    encryptionCertificates?: string[];
+    nameIDFormats?: string[];
+    wantAuthnRequestsSigned?: boolean;
+    validUntil?: Date | null;
+}
+
+/** Time source and tolerance for `NotBefore`/`NotOnOrAfter`-style checks. */
+export interface ClockOptions {
+    /** Drift allowed between this host and the IdP, in milliseconds. Default: `0`. */
+    clockSkewMs?: number;
+    /** Returns the current time. Default: `() => new Date()`. */
+    now?: () => Date;
+}
+
+export interface IdPMetadataOptions extends ClockOptions {
+    /** When set, the metadata must carry a valid enveloped signature from one of these keys. */
+    trustedSigners?: TrustedKeys;
+}
+
 export interface KeyPair {
     privateKey: string;
     certificate: string;
 }
 
-export interface DecryptOptions {
+/**
+ * Where a key stands in a rollover. The `active` key signs; `next` keys are
+ * published ahead of becoming active; `retiring` keys are no longer published
+ * but still decrypt messages encrypted to them.
+ */
+export type KeyStatus = "active" | "next" | "retiring";
+
+export interface DecryptionKey {
     privateKey: string;
+    /** Matched against the `ds:KeyInfo` of encrypted elements to try this key first. */
+    certificate?: string;
+    /** Default: `"active"`. */
+    status?: KeyStatus;
+}
+
+export interface SPKey extends DecryptionKey {
+    certificate: string;
+}
+
+/** Text in a single language, or a map from `xml:lang` to text. A bare string is English. */
+export type LocalizedString = string | Record<string, string>;
+
+export interface IndexedEndpoint extends Endpoint {
+    /** Default: the endpoint's position in the list. */
+    index?: number;
+    isDefault?: boolean;
+}
+
+export interface RequestedAttribute {
+    name: string;
+    nameFormat?: string;
+    friendlyName?: string;
+    isRequired?: boolean;
+    /** Specific values the SP asks for. */
+    values?: string[];
+}
+
+export interface AttributeConsumingService {
+    /** Default: the service's position in the list. */
+    index?: number;
+    isDefault?: boolean;
+    serviceName: LocalizedString;
+    serviceDescription?: LocalizedString;
+    requestedAttributes: RequestedAttribute[];
+}
+
+export interface OrganizationInfo {
+    name: LocalizedString;
+    displayName: LocalizedString;
+    url: LocalizedString;
+}
+
+export type ContactType = "technical" | "support" | "administrative" | "billing" | "other";
+
+export interface ContactPerson {
+    type: ContactType;
+    company?: string;
+    givenName?: string;
+    surName?: string;
+    /** Plain addresses; `mailto:` is added when missing. */
+    emailAddresses?: string[];
+    telephoneNumbers?: string[];
+}
+
+export interface UILogo {
+    url: string;
+    height: number;
+    width: number;
+    lang?: string;
+}
+
+/** The `mdui:UIInfo` discovery services and IdPs show to users. */
+export interface UIInfo {
+    displayName?: LocalizedString;
+    description?: LocalizedString;
+    informationURL?: LocalizedString;
+    privacyStatementURL?: LocalizedString;
+    logos?: UILogo[];
+}
+
+export interface MetadataOptions {
+    /**
+     * How long metadata stays valid from when it is built. `null` omits
+     * `validUntil`. Default: 24 hours.
+     */
+    validityMs?: number | null;
+    /** How long consumers may cache the metadata, as an `xs:duration` such as `"PT6H"`. */
+    cacheDuration?: string;
+    /** Default: `true`. */
+    authnRequestsSigned?: boolean;
+    /** Default: `true`. */
+    wantAssertionsSigned?: boolean;
+    /** Default: HTTP-POST at `assertionEndpoint`. */
+    assertionConsumerServices?: IndexedEndpoint[];
+    /** Default: none, so no `md:SingleLogoutService` is published. */
+    singleLogoutServices?: Endpoint[];
+    nameIDFormats?: string[];
+    /** Algorithm URIs published as `md:EncryptionMethod` on every encryption key. */
+    encryptionMethods?: string[];
+    organization?: OrganizationInfo;
+    contactPersons?: ContactPerson[];
+    attributeConsumingServices?: AttributeConsumingService[];
+    uiInfo?: UIInfo;
+    /**
+     * Adds an enveloped signature to the `md:EntityDescriptor`: `true` signs
+     * with the active SP key, or pass a separate metadata-signing key pair.
+     */
+    sign?: boolean | KeyPair;
+    signatureAlgorithm?: SignatureAlgorithm;
+}
+
+/**
+ * Remembers the IDs of outstanding AuthnRequests so responses can be matched
+ * to them. Back it with a shared store (Redis, a database) when running more
+ * than one instance.
+ */
+export interface RequestStore {
+    /** Records an issued request ID. */
+    save(id: string): Promise<void>;
+    /** Removes `id` and resolves `true` if it was outstanding and unexpired. */
+    consume(id: string): Promise<boolean>;
+}
+
+/**
+ * Remembers assertion IDs that have already been accepted so that a captured
+ * response cannot be replayed. Back it with a shared store when running more
+ * than one instance.
+ */
+export interface ReplayCache {
+    /**
+     * Records `id` until `expiresAt`. Resolves `false`, without changing the
+     * entry, if `id` is already recorded and has not yet expired.
+     */
+    saveIfAbsent(id: string, expiresAt: Date): Promise<boolean>;
+}
+
+/** Server-side storage for `RelayState` values, keyed by the opaque value sent to the IdP. */
+export interface RelayStateStore {
+    save(key: string, value: string): Promise<void>;
+    /** Removes `key` and resolves its value, or `null` if it is unknown or expired. */
+    take(key: string): Promise<string | null>;
+}
+
+/**
+ * Integrity protection for `RelayState`. Set at most one of `secret` and
+ * `store`; share the same options between `SAMLRequest` and `SAMLResponse`.
+ */
+export interface RelayStateOptions {
+    /** HMAC-SHA256 key, at least 32 bytes. The value travels with a tag. */
+    secret?: string | Buffer;
+    /** Keep the value server-side and send only an opaque key. */
+    store?: RelayStateStore;
+    /** Origins an absolute RelayState URL may point at. Same-site paths are always allowed. */
+    allowedOrigins?: string[];
+}
+
+export type SignatureAlgorithm = "rsa-sha1" | "rsa-sha256" | "rsa-sha512";
+
+export type AuthnContextComparison = "exact" | "minimum" | "maximum" | "better";
+
+/** Authentication context classes the SP asks the IdP to satisfy. */
+export interface RequestedAuthnContext {
+    /** `AuthnContextClassRef` URIs, for example `AUTHN_CONTEXT.passwordProtectedTransport`. */
+    classRefs: string[];
+    /** How the IdP compares its context with `classRefs`. Default: `"exact"`. */
+    comparison?: AuthnContextComparison;
+}
+
+export interface NameIDPolicy {
+    /** Default: `urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified`. */
+    format?: string;
+    spNameQualifier?: string;
+    /** Default: `true`. */
+    allowCreate?: boolean;
+}
+
+export interface IdPEntry {
+    providerID: string;
+    name?: string;
+    loc?: string;
+}
+
+/** Proxying instructions for IdPs that broker authentication to other IdPs. */
+export interface Scoping {
+    proxyCount?: number;
+    /** IdPs the SP trusts to authenticate the user, as entityIDs or full entries. */
+    idpList?: (string | IdPEntry)[];
+    requesterIDs?: string[];
+}
+
+/** Per-request settings for the AuthnRequest built by `SAMLRequest`. */
+export interface AuthnRequestOptions {
+    /** Make the IdP authenticate the user again even with an existing session. */
+    forceAuthn?: boolean;
+    /** Forbid the IdP from interacting with the user; it answers `NoPassive` instead. */
+    isPassive?: boolean;
+    requestedAuthnContext?: RequestedAuthnContext;
+    /** `null` omits the NameIDPolicy element. */
+    nameIDPolicy?: NameIDPolicy | null;
+    /** Overrides the ACS URL given to the constructor. Cannot be combined with an index. */
+    assertionConsumerServiceURL?: string;
+    /** Selects an ACS from the SP metadata instead of sending its URL and binding. */
+    assertionConsumerServiceIndex?: number;
+    attributeConsumingServiceIndex?: number;
+    providerName?: string;
+    scoping?: Scoping;
+}
+
+export interface SAMLRequestOptions {
+    /** Supplies the Issuer (its entityID) and the private key requests are signed with. */
+    serviceProvider?: ServiceProvider;
+    /** Sign requests with the SP key. Default: `true` when `serviceProvider` is set. */
+    signRequests?: boolean;
+    signatureAlgorithm?: SignatureAlgorithm;
+    /** Records the ID of every request built by the `createAuthN*` methods. */
+    requestStore?: RequestStore;
+    /** Protects the `RelayState` passed to the async `createAuthN*` methods. */
+    relayState?: RelayStateOptions;
+    /** Defaults for every AuthnRequest; per-call options override them field by field. */
+    authnRequest?: AuthnRequestOptions;
+}
+
+/** Bounds on reading an inbound HTTP request body. */
+export interface BodyLimits {
+    /** Largest accepted body in bytes. Default: 256 KiB. */
+    maxBytes?: number;
+    /** Give up on a body that has not arrived in full after this many ms. Default: `10000`. */
+    timeoutMs?: number;
+}
+
+/** Bounds on inbound XML, checked right after parsing and before any other processing. */
+export interface XMLLimits {
+    /** Deepest element nesting accepted. Default: `64`. */
+    maxDepth?: number;
+    /** Most elements accepted in one document. Default: `10000`. */
+    maxElements?: number;
+}
+
+export interface SAMLLogoutOptions extends ClockOptions {
+    /** The SP's SingleLogoutService URL. Default: the first one the SP publishes in metadata. */
+    logoutEndpoint?: string;
+    /** Sign outgoing LogoutRequests and LogoutResponses with the SP key. Default: `true`. */
+    signMessages?: boolean;
+    signatureAlgorithm?: SignatureAlgorithm;
+    /** Reject inbound logout messages that are not signed by the IdP. Default: `true`. */
+    requireSignedMessages?: boolean;
+    xmlLimits?: XMLLimits;
+}
+
+/** The session to end; a `ParsedAssertion` can be passed as-is. */
+export interface LogoutSubject {
+    nameID: string | null;
+    nameIDFormat?: string | null;
+    nameQualifier?: string | null;
+    spNameQualifier?: string | null;
+    sessionIndex?: string | null;
+}
+
+export interface ParsedLogoutRequest {
+    xml: string;
+    id: string;
+    issuer: string;
+    nameID: string | null;
+    sessionIndexes: string[];
+    notOnOrAfter: Date | null;
+    relayState: string | null;
+}
+
+export interface ParsedLogoutResponse {
+    xml: string;
+    id: string;
+    inResponseTo: string | null;
+    issuer: string;
+    statusCode: string;
+    relayState: string | null;
+}
+
+/** The fields of a type 0x0004 artifact (SAML Bindings 3.6.4). */
+export interface SAMLArtifact {
+    typeCode: number;
+    /** Selects the issuer's ArtifactResolutionService by its `index`. */
+    endpointIndex: number;
+    /** The SHA-1 hash of the issuer's entityID. */
+    sourceID: Buffer;
+    messageHandle: Buffer;
+}
+
+/** An HTTP request carrying a SOAP message to an IdP back-channel endpoint. */
+export interface SOAPRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface SOAPResponse {
+    status: number;
+    body: string;
+}
+
+/**
+ * Sends a SOAP request and resolves with the reply. Supply one to add TLS
+ * client certificates, a proxy or an HTTP client of your choice.
+ */
+export type SOAPTransport = (request: SOAPRequest) => Promise<SOAPResponse>;
+
+export interface ArtifactResolutionOptions {
+    /** Default: `fetch`, bounded by the response's `bodyLimits`. */
+    transport?: SOAPTransport;
+    /** Sign the ArtifactResolve with the SP key. Default: `true`. */
+    signRequests?: boolean;
+    signatureAlgorithm?: SignatureAlgorithm;
+}
+
+export interface DecryptOptions {
+    /** The SP decryption key. */
+    privateKey?: string;
+    /** Several decryption keys, for instance `serviceProvider.keys` during a rollover. */
+    keys?: DecryptionKey[];
+}
+
+/**
+ * Web Browser SSO profile checks applied by `SAMLResponse`. Each defaults to
+ * `true` and runs whenever the value it compares against is configured.
+ */
+export interface AssertionChecks {
+    /** Every `AudienceRestriction` must list the SP entityID. */
+    audience?: boolean;
+    /** The Response `Destination`, when present, must be the ACS URL; signed Responses must carry one. */
+    destination?: boolean;
+    /** The Response and Assertion `Issuer` must be the IdP entityID. */
+    issuer?: boolean;
+    /** A bearer `SubjectConfirmation` must be present and its `NotOnOrAfter` not yet reached. */
+    subjectConfirmation?: boolean;
+    /** The bearer `SubjectConfirmationData/@Recipient` must be the ACS URL. */
+    recipient?: boolean;
+}
+
+export interface SAMLResponseOptions extends DecryptOptions, ClockOptions {
+    /** The IdP this SP trusts; its signing certificates are added to `idpCertificates`. */
+    identityProvider?: IdentityProvider;
+    /** Supplies the expected Audience (its entityID) and ACS URL. */
+    serviceProvider?: ServiceProvider;
+    /** The ACS URL expected in `Destination` and `Recipient`. Default: `serviceProvider.assertionEndpoint`. */
+    assertionEndpoint?: string;
+    /** The IdP entityID expected in `Issuer`. Default: `identityProvider.entityID`. */
+    idpEntityID?: string;
+    /** Turns individual profile checks off. */
+    checks?: AssertionChecks;
+    /** PEM or bare Base64 IdP signing certificates. */
+    idpCertificates?: string[];
+    /** SHA-1 or SHA-256 fingerprints of IdP signing certificates, matched against `ds:KeyInfo`. */
+    idpFingerprints?: string[];
+    /** Reject responses whose Assertion is not signed by a trusted key. */
+    requireSignedAssertion?: boolean;
+    /** Reject responses whose top-level Response is not signed by a trusted key. */
+    requireSignedResponse?: boolean;
+    /**
+     * Where outstanding AuthnRequest IDs are recorded. When set, `InResponseTo` on
+     * the Response and on `SubjectConfirmationData` must name an outstanding
+     * request, which is consumed so it cannot be answered twice.
+     */
+    requestStore?: RequestStore;
+    /** Accept IdP-initiated responses that carry no `InResponseTo`. Default: `false`. */
+    allowUnsolicited?: boolean;
+    /** Where accepted assertion IDs are recorded; a second submission throws `ReplayError`. */
+    replayCache?: ReplayCache;
+    /** Verifies and unwraps the `RelayState` returned with the response. */
+    relayState?: RelayStateOptions;
+    /**
+     * Applied by `processRequest` and `processFetchRequest` when they read the
+     * body, and to the SOAP reply when an artifact is resolved.
+     */
+    bodyLimits?: BodyLimits;
+    /** Applied to the response and to every decrypted element. */
+    xmlLimits?: XMLLimits;
+    /**
+     * How artifacts received on the HTTP-Artifact binding are resolved. The
+     * IdP's ArtifactResolutionService comes from `identityProvider` and the
+     * Issuer and signing key from `serviceProvider`.
+     */
+    artifactResolution?: ArtifactResolutionOptions;
+}
+
+export interface SignedElements {
+    response: boolean;
+    assertion: boolean;
+}
+
+/** The `samlp:Status` of a protocol message. */
+export interface SAMLStatus {
+    /** The top-level `StatusCode`, followed by any nested second-level codes. */
+    codes: string[];
+    message: string | null;
+    /** The serialized contents of `StatusDetail`, whose format is IdP-specific. */
+    detail: string | null;
+}
+
+/**
+ * One `AttributeValue`, typed from its `xsi:type` and content. `xsiType` is the
+ * declared type as written, e.g. `xs:string`, or `null` when there is none.
+ * Values that do not parse as their declared type are kept as strings.
+ */
+export type SAMLAttributeValue =
+    | { type: "string"; value: string; xsiType: string | null }
+    | { type: "boolean"; value: boolean; xsiType: string | null }
+    | { type: "integer"; value: number; xsiType: string | null }
+    | { type: "dateTime"; value: Date; xsiType: string | null }
+    /** `xsi:nil="true"`: present but explicitly without a value. */
+    | { type: "nil"; value: null; xsiType: string | null }
+    /** A `saml:NameID`, as in eduPersonTargetedID. */
+    | {
+          type: "nameID";
+          value: string;
+          format: string | null;
+          nameQualifier: string | null;
+          spNameQualifier: string | null;
+          xsiType: string | null;
+      }
+    /** Any other element content, serialized as XML. */
+    | { type: "xml"; value: string; xsiType: string | null };
+
+export interface SAMLAttribute {
+    name: string;
+    friendlyName: string | null;
+    /** For example `urn:oasis:names:tc:SAML:2.0:attrname-format:uri`. */
+    nameFormat: string | null;
+    values: SAMLAttributeValue[];
 }
 
 export interface ParsedAssertion {
     xml: string;
+    /** The Assertion's `ID`. */
+    id: string | null;
+    /** The entityID in the Assertion's `Issuer`. */
+    issuer: string | null;
     nameID: string | null;
+    nameIDFormat: string | null;
+    nameQualifier: string | null;
+    spNameQualifier: string | null;
+    /** `AuthnStatement/@SessionIndex`, needed to target this session in Single Logout. */
+    sessionIndex: string | null;
+    /** When the IdP authenticated the user. */
+    authnInstant: Date | null;
+    /** When the IdP wants the SP session to end at the latest. */
+    sessionNotOnOrAfter: Date | null;
+    /** How the user authenticated, for example `AUTHN_CONTEXT.passwordProtectedTransport`. */
+    authnContextClassRef: string | null;
+    /** The request this assertion answers, from its `SubjectConfirmationData`. */
+    inResponseTo: string | null;
+    /** Attribute values as text, keyed by `Name`. Empty values are left out. */
     attributes: Record<string, string[]>;
+    /** Every attribute in document order, with its metadata and typed values. */
+    attributeDetails: SAMLAttribute[];
     notBefore: Date | null;
     notOnOrAfter: Date | null;
-}
\ No newline at end of file
+    /** Which elements carried a signature that verified against a trusted IdP key. */
+    signed: SignedElements;
+    /** The Response's Success status, or `null` for an assertion without a Response envelope. */
+    status: SAMLStatus | null;
+    /** The `RelayState` that came back with the response, unwrapped when protection is enabled. */
+    relayState: string | null;
+}
+
+/**
+ * How one field of a mapped profile is read. `from` lists attribute Names in
+ * order of preference; the first one present supplies the value.
+ */
+export interface AttributeRule {
+    from?: string | string[];
+    /** Keep every value as `string[]`. Default: `false`, which keeps only the first value. */
+    multiple?: boolean;
+    /** Reject assertions that carry none of the `from` attributes. Default: `false`. */
+    required?: boolean;
+}
+
+/** Profile field names to the attribute Names, or rules, that supply them. */
+export type AttributeMapping = Record<string, string | string[] | AttributeRule>;
+
+/** Single-valued fields are `string | null`; multi-valued fields are `string[]`. */
+export type MappedAttributes = Record<string, string | string[] | null>;
+
+export type SAMLRoute = "metadata" | "login" | "acs" | "logout";
+
+/** An HTTP request as a framework adapter hands it to `SAMLRoutes`. */
+export interface RouteRequest<Native = unknown> {
+    method: string;
+    /** The raw query string, without the leading `?`. */
+    query: string;
+    /** Reads the POST body. Only called by routes that accept a POST. */
+    body(): Promise<FormBody>;
+    /** The framework's own request or context object, passed through to the callbacks. */
+    native: Native;
+}
+
+/** What a route answers; adapters copy it onto the framework's response. */
+export interface RouteResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+/** A path to redirect to, a complete response, or nothing to follow `RelayState`. */
+export type RouteResult = string | RouteResponse | void;
+
+export interface SAMLRoutesOptions<Native = unknown> {
+    serviceProvider: ServiceProvider;
+    samlRequest: SAMLRequest;
+    samlResponse: SAMLResponse;
+    /** Mounts the logout route. */
+    samlLogout?: SAMLLogout;
+    /** Prefix of every route path, for adapters that see the full request path. Default: `""`. */
+    basePath?: string;
+    /** Route paths below `basePath`. Defaults: `/metadata`, `/login`, `/acs` and `/logout`. */
+    paths?: Partial<Record<SAMLRoute, string>>;
+    /** Where the browser lands when `RelayState` names no same-site path. Default: `"/"`. */
+    defaultRedirect?: string;
+    /** Applied when an adapter reads a POST body itself. */
+    bodyLimits?: BodyLimits;
+    /**
+     * Records the IDs of SP-initiated LogoutRequests; a LogoutResponse must
+     * answer one of them. Default: an `InMemoryRequestStore`.
+     */
+    logoutRequestStore?: RequestStore;
+    /** Establishes the local session for a validated assertion. */
+    onLogin(assertion: ParsedAssertion, native: Native): RouteResult | Promise<RouteResult>;
+    /** Returns the session SP-initiated logout should end, or `null` if there is none. */
+    getLogoutSubject?(native: Native): LogoutSubject | null | Promise<LogoutSubject | null>;
+    /**
+     * Ends local sessions, for an IdP-initiated LogoutRequest or once the
+     * LogoutResponse confirms SP-initiated logout.
+     */
+    onLogout?(
+        message: ParsedLogoutRequest | ParsedLogoutResponse,
+        native: Native
+    ): void | Promise<void>;
+    /** Renders a rejected SAML message. Default: `400` with the error code as plain text. */
+    onError?(error: SAMLError, native: Native): RouteResponse | Promise<RouteResponse>;
+}
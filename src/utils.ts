@@ -1,4 +1,5 @@
 import * as crypto from "node:crypto";
+import { ClockOptions } from "./types";
 
 export function generateRandomEntityID(): string {
     return "_" + crypto.randomBytes(21).toString("hex");
@@ -10,4 +11,78 @@ export function extractPEMBody(pem: string): string {
         .replace(/(-----[A-Z\s]+-----)/g, "")
         .replace(/[\r\n]/g, "")
         .trim();
-}
\ No newline at end of file
+}
+/** Wraps a bare Base64 certificate in PEM armour; PEM input is returned unchanged. */
+export function toPEMCertificate(certificate: string): string {
+    if (certificate.includes("-----BEGIN")) return certificate;
+    const body = certificate.replace(/\s+/g, "").match(/.{1,64}/g)?.join("\n") ?? "";
+    return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----\n`;
+}
+
+/**
+ * Fills `limits` in from `defaults`, throwing on values that are not positive
+ * numbers. `option` names the limits in the error, as in `xmlLimits.maxDepth`.
+ */
+export function resolveLimits<T extends Record<string, number>>(
+    limits: Partial<T>,
+    defaults: T,
+    option: string
+): T {
+    const resolved = { ...defaults, ...limits };
+    for (const [name, value] of Object.entries(resolved)) {
+        if (typeof value !== "number" || !(value > 0)) {
+            throw new Error(`${option}.${name} must be a positive number.`);
+        }
+    }
+    return resolved;
+}
+
+const SAME_SITE_BASE = "https://same-site.invalid";
+
+/**
+ * `true` for a path on this site. Control characters, whitespace and `\` are
+ * refused outright, since browsers strip or rewrite them; what remains must
+ * resolve against a placeholder origin without leaving it.
+ */
+export function isSameSitePath(target: string): boolean {
+    if (!target.startsWith("/")) return false;
+    // Up to space, DEL and backslash; a regex range over them trips no-control-regex.
+    for (let i = 0; i < target.length; i++) {
+        const code = target.charCodeAt(i);
+        if (code <= 0x20 || code === 0x7f || code === 0x5c) return false;
+    }
+    try {
+        return new URL(target, SAME_SITE_BASE).origin === SAME_SITE_BASE;
+    } catch {
+        return false;
+    }
+}
+
+/** A validated `ClockOptions`: the time source plus the tolerance for validity windows. */
+export class Clock {
+    readonly skewMs: number;
+    private readonly source: () => Date;
+
+    constructor(options: ClockOptions = {}) {
+        const skewMs = options.clockSkewMs ?? 0;
+        if (!Number.isFinite(skewMs) || skewMs < 0) {
+            throw new Error("clockSkewMs must be a non-negative number.");
+        }
+        this.skewMs = skewMs;
+        this.source = options.now ?? (() => new Date());
+    }
+
+    now(): Date {
+        return this.source();
+    }
+
+    /** `true` while the current time, plus the skew, is still before `notBefore`. */
+    isBefore(notBefore: Date): boolean {
+        return this.now().getTime() + this.skewMs < notBefore.getTime();
+    }
+
+    /** `true` once the current time, less the skew, has reached `notOnOrAfter`. */
+    hasReached(notOnOrAfter: Date): boolean {
+        return this.now().getTime() - this.skewMs >= notOnOrAfter.getTime();
+    }
+}
@@ -0,0 +1,261 @@
+import {
+    DOMParser,
+    DOMParserOptions,
+    Document,
+    Element,
+    Node,
+    XMLSerializer,
+} from "@xmldom/xmldom";
+import { MalformedXMLError } from "./errors";
+import { SAMLStatus, XMLLimits } from "./types";
+import { resolveLimits } from "./utils";
+
+export const NS = {
+    saml: "urn:oasis:names:tc:SAML:2.0:assertion",
+    samlp: "urn:oasis:names:tc:SAML:2.0:protocol",
+    ds: "http://www.w3.org/2000/09/xmldsig#",
+    xenc: "http://www.w3.org/2001/04/xmlenc#",
+    md: "urn:oasis:names:tc:SAML:2.0:metadata",
+    mdui: "urn:oasis:names:tc:SAML:metadata:ui",
+    xs: "http://www.w3.org/2001/XMLSchema",
+    xsi: "http://www.w3.org/2001/XMLSchema-instance",
+    soap: "http://schemas.xmlsoap.org/soap/envelope/",
+} as const;
+
+export const BINDINGS = {
+    redirect: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect",
+    post: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST",
+    artifact: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Artifact",
+    soap: "urn:oasis:names:tc:SAML:2.0:bindings:SOAP",
+} as const;
+
+export const STATUS_SUCCESS = "urn:oasis:names:tc:SAML:2.0:status:Success";
+
+const STATUS_PREFIX = "urn:oasis:names:tc:SAML:2.0:status:";
+
+/** Top-level and second-level `samlp:StatusCode` values from SAML Core 3.2.2.2. */
+export const STATUS = {
+    success: STATUS_SUCCESS,
+    requester: `${STATUS_PREFIX}Requester`,
+    responder: `${STATUS_PREFIX}Responder`,
+    versionMismatch: `${STATUS_PREFIX}VersionMismatch`,
+    authnFailed: `${STATUS_PREFIX}AuthnFailed`,
+    invalidAttrNameOrValue: `${STATUS_PREFIX}InvalidAttrNameOrValue`,
+    invalidNameIDPolicy: `${STATUS_PREFIX}InvalidNameIDPolicy`,
+    noAuthnContext: `${STATUS_PREFIX}NoAuthnContext`,
+    noAvailableIDP: `${STATUS_PREFIX}NoAvailableIDP`,
+    noPassive: `${STATUS_PREFIX}NoPassive`,
+    noSupportedIDP: `${STATUS_PREFIX}NoSupportedIDP`,
+    partialLogout: `${STATUS_PREFIX}PartialLogout`,
+    proxyCountExceeded: `${STATUS_PREFIX}ProxyCountExceeded`,
+    requestDenied: `${STATUS_PREFIX}RequestDenied`,
+    requestUnsupported: `${STATUS_PREFIX}RequestUnsupported`,
+    requestVersionDeprecated: `${STATUS_PREFIX}RequestVersionDeprecated`,
+    requestVersionTooHigh: `${STATUS_PREFIX}RequestVersionTooHigh`,
+    requestVersionTooLow: `${STATUS_PREFIX}RequestVersionTooLow`,
+    resourceNotRecognized: `${STATUS_PREFIX}ResourceNotRecognized`,
+    tooManyResponses: `${STATUS_PREFIX}TooManyResponses`,
+    unknownAttrProfile: `${STATUS_PREFIX}UnknownAttrProfile`,
+    unknownPrincipal: `${STATUS_PREFIX}UnknownPrincipal`,
+    unsupportedBinding: `${STATUS_PREFIX}UnsupportedBinding`,
+} as const;
+
+const AC_PREFIX = "urn:oasis:names:tc:SAML:2.0:ac:classes:";
+
+/** Common `AuthnContextClassRef` values from the SAML Authentication Context spec. */
+export const AUTHN_CONTEXT = {
+    unspecified: `${AC_PREFIX}unspecified`,
+    password: `${AC_PREFIX}Password`,
+    passwordProtectedTransport: `${AC_PREFIX}PasswordProtectedTransport`,
+    tlsClient: `${AC_PREFIX}TLSClient`,
+    x509: `${AC_PREFIX}X509`,
+    smartcardPKI: `${AC_PREFIX}SmartcardPKI`,
+    kerberos: `${AC_PREFIX}Kerberos`,
+    timeSyncToken: `${AC_PREFIX}TimeSyncToken`,
+    mobileTwoFactorContract: `${AC_PREFIX}MobileTwoFactorContract`,
+} as const;
+
+// Pre-declare all SAML namespace prefixes so the parser never throws a
+// NamespaceError on fragments where xmlns:* attributes are absent.
+// NamespaceErrors are fatalErrors inside @xmldom/xmldom's SAX layer and are
+// thrown before the onError handler is ever called, so the only reliable fix
+// is to seed the parser with the known prefixes upfront.
+export const PARSER_OPTIONS: DOMParserOptions = {
+    xmlns: {
+        saml:   NS.saml,
+        saml2:  NS.saml,
+        samlp:  NS.samlp,
+        samlp2: NS.samlp,
+        ds:     NS.ds,
+        xenc:   NS.xenc,
+        md:     NS.md,
+        xs:     NS.xs,
+        xsd:    NS.xs,
+        xsi:    NS.xsi,
+    },
+};
+
+const DEFAULT_XML_LIMITS: Required<XMLLimits> = { maxDepth: 64, maxElements: 10000 };
+
+/** Metadata aggregates list thousands of entities, so only their nesting is bounded. */
+export const METADATA_XML_LIMITS: XMLLimits = { maxElements: Infinity };
+
+/** Fills in the default limits, throwing on values that are not positive numbers. */
+export function resolveXMLLimits(limits: XMLLimits = {}): Required<XMLLimits> {
+    return resolveLimits(limits, DEFAULT_XML_LIMITS, "xmlLimits");
+}
+
+/**
+ * Parses an XML string with the seeded SAML prefixes, normalising line endings
+ * first. Throws `MalformedXMLError` when the input is not a well-formed document
+ * (even where the parser could recover), declares a DOCTYPE, or is nested deeper
+ * or has more elements than `limits` allow.
+ * Refusing DOCTYPEs outright rules out entity expansion attacks, since SAML
+ * messages never need one.
+ */
+export function parseXML(xml: string, limits: XMLLimits = {}): Document {
+    const { maxDepth, maxElements } = resolveXMLLimits(limits);
+    if (/<!DOCTYPE/i.test(xml)) {
+        throw new MalformedXMLError("DOCTYPE declarations are not allowed.");
+    }
+    const normalised = xml.replace(/\r\n?/g, "\n");
+    // xmldom recovers from errors and warnings (unquoted attributes, unknown
+    // entities, content after the root) unless the handler stops it.
+    const problems: string[] = [];
+    const parser = new DOMParser({
+        ...PARSER_OPTIONS,
+        onError: (_level, message) => {
+            problems.push(message);
+            throw new Error(message);
+        },
+    });
+    let doc: Document;
+    try {
+        doc = parser.parseFromString(normalised, "text/xml");
+    } catch (err) {
+        throw new MalformedXMLError(`Invalid XML: ${problems[0] ?? (err as Error).message}`);
+    }
+    if (!doc.documentElement) {
+        throw new MalformedXMLError("Invalid XML: the document has no root element.");
+    }
+    checkShape(doc.documentElement, maxDepth, maxElements);
+    return doc;
+}
+
+/** Walks the tree without recursion, so a deep document cannot overflow the stack here. */
+function checkShape(root: Element, maxDepth: number, maxElements: number): void {
+    let elements = 0;
+    const pending: [Element, number][] = [[root, 1]];
+    while (pending.length > 0) {
+        const [element, depth] = pending.pop() as [Element, number];
+        if (depth > maxDepth) {
+            throw new MalformedXMLError(`XML is nested deeper than ${maxDepth} elements.`);
+        }
+        if (++elements > maxElements) {
+            throw new MalformedXMLError(`XML has more than ${maxElements} elements.`);
+        }
+        for (let child = element.firstChild; child; child = child.nextSibling) {
+            if (child.nodeType === Node.ELEMENT_NODE) pending.push([child as Element, depth + 1]);
+        }
+    }
+}
+
+/**
+ * Resolves a prefix used inside an attribute value, such as the `xs` in
+ * `xsi:type="xs:string"`, falling back to the prefixes seeded into the parser.
+ */
+export function resolvePrefix(node: Element, prefix: string | null): string | null {
+    const seeded = PARSER_OPTIONS.xmlns as Record<string, string>;
+    return node.lookupNamespaceURI(prefix) ?? (prefix ? seeded[prefix] ?? null : null);
+}
+
+/** Returns the direct child elements of `parent` with the given namespace and local name. */
+export function childElements(parent: Element, namespace: string, localName: string): Element[] {
+    const result: Element[] = [];
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+        if (
+            child.nodeType === Node.ELEMENT_NODE &&
+            child.namespaceURI === namespace &&
+            child.localName === localName
+        ) {
+            result.push(child as Element);
+        }
+    }
+    return result;
+}
+
+/** Returns every direct child element of `parent`, whatever its name. */
+export function elementChildren(parent: Element): Element[] {
+    const result: Element[] = [];
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType === Node.ELEMENT_NODE) result.push(child as Element);
+    }
+    return result;
+}
+
+const DATE_TIME = /^(-?\d{4,})-(\d{2})-(\d{2})T\d{2}:\d{2}:\d{2}(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Reads an `xs:dateTime` attribute, or returns `null` when it is absent. SAML
+ * times carry no zone, or `Z`, and are UTC either way. Throws
+ * `MalformedXMLError` for a value that is not a valid `xs:dateTime`.
+ */
+export function dateTimeAttribute(element: Element, name: string): Date | null {
+    const value = element.getAttribute(name);
+    if (!value) return null;
+    const date = parseDateTime(value);
+    if (!date) {
+        throw new MalformedXMLError(
+            `${element.localName} ${name} is not a valid xs:dateTime: "${value}".`
+        );
+    }
+    return date;
+}
+
+/**
+ * Parses an `xs:dateTime`, reading one without a zone as UTC, or returns
+ * `null`. `Date` alone accepts other formats and rolls February 30 over into March.
+ */
+export function parseDateTime(value: string): Date | null {
+    const match = DATE_TIME.exec(value);
+    if (!match) return null;
+    const [, year, month, day, zone] = match;
+    const date = new Date(zone ? value : `${value}Z`);
+    const calendar = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    const valid =
+        !Number.isNaN(date.getTime()) &&
+        calendar.getUTCMonth() === Number(month) - 1 &&
+        calendar.getUTCDate() === Number(day);
+    return valid ? date : null;
+}
+
+/** Reads the `samlp:Status` of a protocol message, or returns `null` if it has none. */
+export function readStatus(message: Element): SAMLStatus | null {
+    const status = childElements(message, NS.samlp, "Status")[0];
+    if (!status) return null;
+
+    const codes: string[] = [];
+    let code: Element | undefined = childElements(status, NS.samlp, "StatusCode")[0];
+    while (code) {
+        codes.push(code.getAttribute("Value") ?? "");
+        code = childElements(code, NS.samlp, "StatusCode")[0];
+    }
+
+    const statusMessage = childElements(status, NS.samlp, "StatusMessage")[0];
+    const statusDetail = childElements(status, NS.samlp, "StatusDetail")[0];
+    let detail: string | null = null;
+    if (statusDetail) {
+        const serializer = new XMLSerializer();
+        detail = "";
+        for (let child = statusDetail.firstChild; child; child = child.nextSibling) {
+            detail += serializer.serializeToString(child);
+        }
+        detail = detail.trim();
+    }
+
+    return {
+        codes,
+        message: statusMessage ? (statusMessage.textContent ?? "").trim() : null,
+        detail,
+    };
+}
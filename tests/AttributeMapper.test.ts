@@ -0,0 +1,167 @@
+import { ATTRIBUTE_PROFILES, AttributeMapper, ValidationError } from "../src";
+
+describe("AttributeMapper – constructor", () => {
+    it("requires at least one mapping", () => {
+        expect(() => new AttributeMapper()).toThrow("at least one mapping");
+    });
+
+    it("rejects a field without source attributes", () => {
+        expect(() => new AttributeMapper({ email: { required: true } })).toThrow(
+            "Attribute mapping for email names no source attribute."
+        );
+    });
+});
+
+describe("AttributeMapper – map", () => {
+    it("takes a field from the first source attribute that has values", () => {
+        const mapper = new AttributeMapper({ email: ["mail", "email"] });
+        expect(mapper.map({ email: ["b@example.com"] })).toEqual({ email: "b@example.com" });
+        expect(mapper.map({ mail: ["a@example.com"], email: ["b@example.com"] })).toEqual({
+            email: "a@example.com",
+        });
+        expect(mapper.map({ mail: [], email: ["b@example.com"] })).toEqual({
+            email: "b@example.com",
+        });
+    });
+
+    it("keeps the first value of single-valued fields and all values of multi-valued ones", () => {
+        const mapper = new AttributeMapper({
+            email: "mail",
+            groups: { from: "memberOf", multiple: true },
+        });
+        const attributes = { mail: ["a@example.com", "b@example.com"], memberOf: ["x", "y"] };
+        expect(mapper.map(attributes)).toEqual({ email: "a@example.com", groups: ["x", "y"] });
+    });
+
+    it("returns null or an empty list for absent optional fields", () => {
+        const mapper = new AttributeMapper({
+            email: "mail",
+            groups: { from: "memberOf", multiple: true },
+        });
+        expect(mapper.map({})).toEqual({ email: null, groups: [] });
+    });
+
+    it("throws ATTRIBUTE_MISSING listing every absent required field", () => {
+        const mapper = new AttributeMapper({
+            email: { from: "mail", required: true },
+            username: { from: "uid", required: true },
+            displayName: "cn",
+        });
+        let error: unknown;
+        try {
+            mapper.map({ cn: ["Alice"] });
+        } catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({
+            code: "ATTRIBUTE_MISSING",
+            expected: "email, username",
+            message: "Assertion is missing required attributes: email, username.",
+        });
+    });
+
+    it("merges later mappings over earlier ones field by field", () => {
+        const mapper = new AttributeMapper(ATTRIBUTE_PROFILES.okta, {
+            email: { required: true },
+            department: "dept",
+            groups: "team",
+        });
+        expect(() => mapper.map({})).toThrow(ValidationError);
+        const attributes = { email: ["a@example.com"], dept: ["R&D"], team: ["core", "infra"] };
+        expect(mapper.map(attributes)).toMatchObject({
+            email: "a@example.com",
+            department: "R&D",
+            groups: ["core", "infra"],
+        });
+    });
+});
+
+describe("AttributeMapper – built-in profiles", () => {
+    const CLAIMS = "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/";
+    const PLAIN_NAMES = {
+        email: ["alice@example.com"],
+        firstName: ["Alice"],
+        lastName: ["Liddell"],
+        groups: ["g1", "g2"],
+    };
+
+    it.each<[keyof typeof ATTRIBUTE_PROFILES, Record<string, string[]>]>([
+        [
+            "azureAD",
+            {
+                [`${CLAIMS}emailaddress`]: ["alice@example.com"],
+                [`${CLAIMS}givenname`]: ["Alice"],
+                [`${CLAIMS}surname`]: ["Liddell"],
+                "http://schemas.microsoft.com/ws/2008/06/identity/claims/groups": ["g1", "g2"],
+            },
+        ],
+        [
+            "adfs",
+            {
+                [`${CLAIMS}emailaddress`]: ["alice@example.com"],
+                [`${CLAIMS}givenname`]: ["Alice"],
+                [`${CLAIMS}surname`]: ["Liddell"],
+                "http://schemas.xmlsoap.org/claims/Group": ["g1", "g2"],
+            },
+        ],
+        [
+            "okta",
+            PLAIN_NAMES,
+        ],
+        [
+            "googleWorkspace",
+            PLAIN_NAMES,
+        ],
+        [
+            "shibboleth",
+            {
+                "urn:oid:0.9.2342.19200300.100.1.3": ["alice@example.com"],
+                "urn:oid:2.5.4.42": ["Alice"],
+                "urn:oid:2.5.4.4": ["Liddell"],
+                "urn:oid:1.3.6.1.4.1.5923.1.5.1.1": ["g1", "g2"],
+            },
+        ],
+        [
+            "awsIdentityCenter",
+            PLAIN_NAMES,
+        ],
+    ])("maps the %s profile onto the common fields", (profile, attributes) => {
+        expect(new AttributeMapper(ATTRIBUTE_PROFILES[profile]).map(attributes)).toMatchObject({
+            email: "alice@example.com",
+            firstName: "Alice",
+            lastName: "Liddell",
+            groups: ["g1", "g2"],
+        });
+    });
+
+    it("reads the Entra object and tenant IDs", () => {
+        const mapped = new AttributeMapper(ATTRIBUTE_PROFILES.azureAD).map({
+            "http://schemas.microsoft.com/identity/claims/objectidentifier": ["oid-1"],
+            "http://schemas.microsoft.com/identity/claims/tenantid": ["tid-1"],
+        });
+        expect(mapped).toMatchObject({ objectId: "oid-1", tenantId: "tid-1" });
+    });
+
+    it("reads eduPerson affiliations and entitlements", () => {
+        const mapped = new AttributeMapper(ATTRIBUTE_PROFILES.shibboleth).map({
+            "urn:oid:1.3.6.1.4.1.5923.1.1.1.6": ["alice@uni.example.edu"],
+            "urn:oid:1.3.6.1.4.1.5923.1.1.1.9": ["staff@uni.example.edu", "member@uni.example.edu"],
+            "urn:oid:1.3.6.1.4.1.5923.1.1.1.7": ["urn:mace:dir:entitlement:common-lib-terms"],
+        });
+        expect(mapped).toMatchObject({
+            username: "alice@uni.example.edu",
+            affiliations: ["staff@uni.example.edu", "member@uni.example.edu"],
+            entitlements: ["urn:mace:dir:entitlement:common-lib-terms"],
+        });
+    });
+
+    it("reads the AWS RoleSessionName and Role attributes", () => {
+        const ROLE = "arn:aws:iam::1:role/a,arn:aws:iam::1:saml-provider/b";
+        const mapped = new AttributeMapper(ATTRIBUTE_PROFILES.awsIdentityCenter).map({
+            "https://aws.amazon.com/SAML/Attributes/RoleSessionName": ["alice"],
+            "https://aws.amazon.com/SAML/Attributes/Role": [ROLE],
+        });
+        expect(mapped).toMatchObject({ username: "alice", roles: [ROLE] });
+    });
+});
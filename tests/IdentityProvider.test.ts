@@ -0,0 +1,357 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IdentityProvider, SAMLRequest, SAMLResponse, BINDINGS, MalformedXMLError } from "../src";
+import { ServiceProvider } from "../src/ServiceProvider";
+import { signXML } from "../src/signature";
+import { KeyPair } from "../src/types";
+import { extractPEMBody } from "../src/utils";
+
+let idpKeys: KeyPair;
+let spKeys: KeyPair;
+
+beforeAll(async () => {
+    idpKeys = await ServiceProvider.generateKeys(2048);
+    spKeys = await ServiceProvider.generateKeys(2048);
+});
+
+const ENTITY_ID = "https://idp.example.com/metadata";
+const ACS_URL = "https://sp.example.com/acs";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function buildMetadataXML({
+    entityID = ENTITY_ID,
+    signingCert,
+    encryptionCert,
+    validUntil,
+    wantAuthnRequestsSigned = true,
+}: {
+    entityID?: string;
+    signingCert: string;
+    encryptionCert?: string;
+    validUntil?: Date;
+    wantAuthnRequestsSigned?: boolean;
+}): string {
+    const keyDescriptor = (use: string | null, cert: string): string =>
+        `<md:KeyDescriptor${use ? ` use="${use}"` : ""}>` +
+        `<ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:X509Data>` +
+        `<ds:X509Certificate>${extractPEMBody(cert)}</ds:X509Certificate>` +
+        `</ds:X509Data></ds:KeyInfo></md:KeyDescriptor>`;
+
+    return `<?xml version="1.0"?>
+    <md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${entityID}"${
+        validUntil ? ` validUntil="${validUntil.toISOString()}"` : ""
+    }>
+      <md:IDPSSODescriptor WantAuthnRequestsSigned="${wantAuthnRequestsSigned}" protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+        ${encryptionCert
+            ? keyDescriptor("signing", signingCert) + keyDescriptor("encryption", encryptionCert)
+            : keyDescriptor(null, signingCert)}
+        <md:ArtifactResolutionService Binding="urn:oasis:names:tc:SAML:2.0:bindings:SOAP" Location="https://idp.example.com/artifact" index="2" isDefault="true"/>
+        <md:SingleLogoutService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.example.com/slo" ResponseLocation="https://idp.example.com/slo/response"/>
+        <md:NameIDFormat>urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress</md:NameIDFormat>
+        <md:NameIDFormat>urn:oasis:names:tc:SAML:2.0:nameid-format:persistent</md:NameIDFormat>
+        <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.example.com/sso/redirect"/>
+        <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="https://idp.example.com/sso/post"/>
+      </md:IDPSSODescriptor>
+    </md:EntityDescriptor>`;
+}
+
+// ---------------------------------------------------------------------------
+// constructor
+// ---------------------------------------------------------------------------
+
+describe("IdentityProvider – constructor", () => {
+    it("throws when entityID is empty", () => {
+        expect(() => new IdentityProvider({ entityID: "" })).toThrow("entityID is required");
+    });
+
+    it("throws when an endpoint location is not a valid URL", () => {
+        expect(
+            () =>
+                new IdentityProvider({
+                    entityID: ENTITY_ID,
+                    singleSignOnServices: [{ binding: BINDINGS.redirect, location: "not-a-url" }],
+                })
+        ).toThrow();
+    });
+
+    it("normalises bare Base64 certificates to PEM", () => {
+        const idp = new IdentityProvider({
+            entityID: ENTITY_ID,
+            signingCertificates: [extractPEMBody(idpKeys.certificate)],
+        });
+        expect(idp.signingCertificates[0]).toContain("-----BEGIN CERTIFICATE-----");
+    });
+});
+
+// ---------------------------------------------------------------------------
+// fromMetadata
+// ---------------------------------------------------------------------------
+
+describe("IdentityProvider – fromMetadata", () => {
+    it("extracts the entityID", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        expect(idp.entityID).toBe(ENTITY_ID);
+    });
+
+    it("extracts SSO endpoints per binding", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        expect(idp.singleSignOnURL(BINDINGS.redirect)).toBe("https://idp.example.com/sso/redirect");
+        expect(idp.singleSignOnURL(BINDINGS.post)).toBe("https://idp.example.com/sso/post");
+        expect(idp.singleSignOnURL(BINDINGS.artifact)).toBeNull();
+    });
+
+    it("extracts SLO endpoints with their ResponseLocation", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        expect(idp.singleLogoutService()).toEqual({
+            binding: BINDINGS.redirect,
+            location: "https://idp.example.com/slo",
+            responseLocation: "https://idp.example.com/slo/response",
+        });
+    });
+
+    it("extracts ArtifactResolutionServices with their index", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        expect(idp.artifactResolutionServices).toEqual([
+            {
+                binding: BINDINGS.soap,
+                location: "https://idp.example.com/artifact",
+                index: 2,
+                isDefault: true,
+            },
+        ]);
+        expect(idp.artifactResolutionService(2)?.location).toBe("https://idp.example.com/artifact");
+        expect(idp.artifactResolutionService(0)).toBeNull();
+    });
+
+    it("treats a KeyDescriptor without use as both signing and encryption", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        expect(idp.signingCertificates).toHaveLength(1);
+        expect(idp.encryptionCertificates).toHaveLength(1);
+    });
+
+    it("separates signing and encryption certificates", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({
+                signingCert: idpKeys.certificate,
+                encryptionCert: spKeys.certificate,
+            })
+        );
+        expect(extractPEMBody(idp.signingCertificates[0])).toBe(
+            extractPEMBody(idpKeys.certificate)
+        );
+        expect(extractPEMBody(idp.encryptionCertificates[0])).toBe(
+            extractPEMBody(spKeys.certificate)
+        );
+    });
+
+    it("extracts NameID formats and WantAuthnRequestsSigned", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        expect(idp.nameIDFormats).toEqual([
+            "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress",
+            "urn:oasis:names:tc:SAML:2.0:nameid-format:persistent",
+        ]);
+        expect(idp.wantAuthnRequestsSigned).toBe(true);
+    });
+
+    it("throws when the metadata has expired", () => {
+        const xml = buildMetadataXML({
+            signingCert: idpKeys.certificate,
+            validUntil: new Date(Date.now() - 1000),
+        });
+        expect(() => IdentityProvider.fromMetadata(xml)).toThrow("IdP metadata has expired");
+    });
+
+    it("tolerates recently expired metadata within clockSkewMs", () => {
+        const xml = buildMetadataXML({
+            signingCert: idpKeys.certificate,
+            validUntil: new Date(Date.now() - 1000),
+        });
+        expect(() =>
+            IdentityProvider.fromMetadata(xml, undefined, { clockSkewMs: 60_000 })
+        ).not.toThrow();
+    });
+
+    it("checks validUntil against an injected clock", () => {
+        const validUntil = new Date("2030-01-01T00:00:00Z");
+        const xml = buildMetadataXML({ signingCert: idpKeys.certificate, validUntil });
+        const parseAt = (iso: string): IdentityProvider =>
+            IdentityProvider.fromMetadata(xml, undefined, { now: () => new Date(iso) });
+        expect(() => parseAt("2029-12-31T23:59:59Z")).not.toThrow();
+        expect(() => parseAt("2030-01-01T00:00:00Z")).toThrow("IdP metadata has expired");
+    });
+
+    it("throws on a validUntil that is not an xs:dateTime", () => {
+        const xml = buildMetadataXML({ signingCert: idpKeys.certificate }).replace(
+            "entityID=",
+            'validUntil="2030-13-01T00:00:00Z" entityID='
+        );
+        expect(() => IdentityProvider.fromMetadata(xml)).toThrow(
+            'EntityDescriptor validUntil is not a valid xs:dateTime: "2030-13-01T00:00:00Z".'
+        );
+    });
+
+    it("throws when no IDPSSODescriptor is present", () => {
+        const xml = `<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="x"></md:EntityDescriptor>`;
+        expect(() => IdentityProvider.fromMetadata(xml)).toThrow("No IDPSSODescriptor");
+    });
+
+    it("selects an IdP from an EntitiesDescriptor aggregate by entityID", () => {
+        const strip = (xml: string): string => xml.replace(/<\?xml[^>]*\?>/, "");
+        const aggregate =
+            `<md:EntitiesDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata">` +
+            strip(buildMetadataXML({ entityID: "https://a.example.com", signingCert: idpKeys.certificate })) +
+            strip(buildMetadataXML({ entityID: "https://b.example.com", signingCert: idpKeys.certificate })) +
+            `</md:EntitiesDescriptor>`;
+        expect(() => IdentityProvider.fromMetadata(aggregate)).toThrow("more than one IdP");
+        expect(() => IdentityProvider.fromMetadata(aggregate)).toThrow(MalformedXMLError);
+        expect(IdentityProvider.fromMetadata(aggregate, "https://b.example.com").entityID).toBe(
+            "https://b.example.com"
+        );
+    });
+
+    it("reads metadata from a file", () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "saml-sp-")), "idp.xml");
+        fs.writeFileSync(file, buildMetadataXML({ signingCert: idpKeys.certificate }));
+        expect(IdentityProvider.fromMetadataFile(file).entityID).toBe(ENTITY_ID);
+    });
+
+    it("rejects metadata that declares a DOCTYPE", () => {
+        const xml = buildMetadataXML({ signingCert: idpKeys.certificate }).replace(
+            '<?xml version="1.0"?>',
+            '<?xml version="1.0"?><!DOCTYPE md:EntityDescriptor [<!ENTITY x "x">]>'
+        );
+        expect(() => IdentityProvider.fromMetadata(xml)).toThrow(
+            "DOCTYPE declarations are not allowed."
+        );
+    });
+
+    it("reads aggregates with more elements than a SAML message may carry", () => {
+        const entity = buildMetadataXML({ signingCert: idpKeys.certificate }).replace(
+            '<?xml version="1.0"?>',
+            ""
+        );
+        const filler = '<md:EntityDescriptor entityID="https://other.example.com"/>'.repeat(10000);
+        const aggregate =
+            `<md:EntitiesDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata">` +
+            `${filler}${entity}</md:EntitiesDescriptor>`;
+        expect(IdentityProvider.fromMetadata(aggregate, ENTITY_ID).entityID).toBe(ENTITY_ID);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// fromMetadata – signed metadata
+// ---------------------------------------------------------------------------
+
+describe("IdentityProvider – fromMetadata – signed metadata", () => {
+    function signedMetadataXML(keys: KeyPair): string {
+        const xml = buildMetadataXML({ signingCert: idpKeys.certificate }).replace(
+            "entityID=",
+            'ID="_md1" entityID='
+        );
+        return signXML(xml, keys);
+    }
+
+    it("accepts metadata signed by a trusted signer", () => {
+        const idp = IdentityProvider.fromMetadata(signedMetadataXML(spKeys), undefined, {
+            trustedSigners: { certificates: [spKeys.certificate] },
+        });
+        expect(idp.entityID).toBe(ENTITY_ID);
+    });
+
+    it("rejects unsigned metadata when trustedSigners is set", () => {
+        const unsigned = buildMetadataXML({ signingCert: idpKeys.certificate });
+        expect(() =>
+            IdentityProvider.fromMetadata(unsigned, undefined, {
+                trustedSigners: { certificates: [spKeys.certificate] },
+            })
+        ).toThrow(expect.objectContaining({ code: "SIGNATURE_MISSING" }));
+    });
+
+    it("rejects metadata signed by another key", () => {
+        expect(() =>
+            IdentityProvider.fromMetadata(signedMetadataXML(idpKeys), undefined, {
+                trustedSigners: { certificates: [spKeys.certificate] },
+            })
+        ).toThrow(expect.objectContaining({ code: "SIGNATURE_INVALID" }));
+    });
+
+    it("rejects metadata altered after signing", () => {
+        const tampered = signedMetadataXML(spKeys).replace(
+            "https://idp.example.com/sso/post",
+            "https://evil.example.com/sso/post"
+        );
+        expect(() =>
+            IdentityProvider.fromMetadata(tampered, undefined, {
+                trustedSigners: { certificates: [spKeys.certificate] },
+            })
+        ).toThrow("Digest mismatch");
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Integration with SAMLRequest and SAMLResponse
+// ---------------------------------------------------------------------------
+
+describe("IdentityProvider – integration", () => {
+    it("lets SAMLRequest target the HTTP-Redirect SSO endpoint", () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        const sp = new ServiceProvider({ assertionEndpoint: ACS_URL, ...spKeys });
+        const req = new SAMLRequest(idp, ACS_URL, { serviceProvider: sp });
+        expect(req.createAuthNURL()).toMatch(/^https:\/\/idp\.example\.com\/sso\/redirect\?/);
+    });
+
+    it("lets SAMLRequest target the HTTP-POST SSO endpoint", async () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        const sp = new ServiceProvider({ assertionEndpoint: ACS_URL, ...spKeys });
+        const req = new SAMLRequest(idp, ACS_URL, { serviceProvider: sp });
+        expect((await req.createAuthNPost()).action).toBe("https://idp.example.com/sso/post");
+    });
+
+    it("throws from SAMLRequest when the IdP has no SSO endpoint", () => {
+        const idp = new IdentityProvider({ entityID: ENTITY_ID });
+        expect(() => new SAMLRequest(idp, ACS_URL)).toThrow(
+            "no HTTP-Redirect or HTTP-POST SSO endpoint"
+        );
+    });
+
+    it("lets SAMLResponse verify signatures with the IdP signing certificates", async () => {
+        const idp = IdentityProvider.fromMetadata(
+            buildMetadataXML({ signingCert: idpKeys.certificate })
+        );
+        const samlResponse = new SAMLResponse({
+            privateKey: spKeys.privateKey,
+            identityProvider: idp,
+        });
+        const xml = signXML(
+            `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_r1">` +
+                `<saml2:Issuer>${ENTITY_ID}</saml2:Issuer>` +
+                `<saml2:Assertion><saml2:Issuer>${ENTITY_ID}</saml2:Issuer>` +
+                `<saml2:Subject><saml2:NameID>alice</saml2:NameID></saml2:Subject></saml2:Assertion>` +
+                `</samlp:Response>`,
+            idpKeys,
+            "Issuer"
+        );
+        const result = await samlResponse.processXML(xml);
+        expect(result?.signed.response).toBe(true);
+    });
+});
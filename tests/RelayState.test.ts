@@ -0,0 +1,129 @@
+import { InMemoryRelayStateStore, RelayStateCodec } from "../src/RelayState";
+import { ValidationError } from "../src/errors";
+
+const SECRET = "0123456789abcdef0123456789abcdef";
+
+describe("RelayStateCodec – constructor", () => {
+    it("rejects a secret together with a store", () => {
+        expect(
+            () => new RelayStateCodec({ secret: SECRET, store: new InMemoryRelayStateStore() })
+        ).toThrow("either a secret or a store");
+    });
+
+    it("rejects a secret shorter than 32 bytes", () => {
+        expect(() => new RelayStateCodec({ secret: "short" })).toThrow("at least 32 bytes");
+    });
+
+    it("rejects allowed origins that carry a path", () => {
+        expect(
+            () => new RelayStateCodec({ allowedOrigins: ["https://app.example.com/home"] })
+        ).toThrow("bare origin");
+    });
+});
+
+describe("RelayStateCodec – target checks", () => {
+    const codec = new RelayStateCodec({ allowedOrigins: ["https://app.example.com"] });
+
+    it.each(["/dashboard", "/a/b?c=d#e", "https://app.example.com/home"])(
+        "accepts %s",
+        async (target) => {
+            expect(await codec.encode(target)).toBe(target);
+            expect(await codec.decode(target)).toBe(target);
+        }
+    );
+
+    it.each([
+        "https://evil.example.com/",
+        "//evil.example.com/",
+        "/\\evil.example.com",
+        "/\\/evil.example.com",
+        "/\t/evil.example.com",
+        "/\r/evil.example.com",
+        "/\n/evil.example.com",
+        "/dashboard\u0000",
+        "javascript:alert(1)",
+        "dashboard",
+    ])("rejects %s with RELAY_STATE_INVALID", async (target) => {
+        await expect(codec.encode(target)).rejects.toMatchObject({ code: "RELAY_STATE_INVALID" });
+        await expect(codec.decode(target)).rejects.toBeInstanceOf(ValidationError);
+    });
+});
+
+describe("RelayStateCodec – HMAC mode", () => {
+    const codec = new RelayStateCodec({ secret: SECRET });
+
+    it("round-trips a tagged value", async () => {
+        const encoded = await codec.encode("/orders/42?tab=items");
+        expect(encoded).toMatch(/^\/orders\/42\?tab=items\.[\w-]{22}$/);
+        expect(await codec.decode(encoded)).toBe("/orders/42?tab=items");
+    });
+
+    it("rejects a tampered value", async () => {
+        const encoded = await codec.encode("/orders/42");
+        const tampered = encoded.replace("/orders/42", "/orders/43");
+        await expect(codec.decode(tampered)).rejects.toMatchObject({
+            code: "RELAY_STATE_INVALID",
+            message: "RelayState integrity check failed.",
+        });
+    });
+
+    it("rejects a value without a tag", async () => {
+        await expect(codec.decode("/orders/42")).rejects.toMatchObject({
+            code: "RELAY_STATE_INVALID",
+        });
+    });
+
+    it("rejects a value tagged with another secret", async () => {
+        const other = new RelayStateCodec({ secret: SECRET.split("").reverse().join("") });
+        await expect(codec.decode(await other.encode("/orders/42"))).rejects.toMatchObject({
+            code: "RELAY_STATE_INVALID",
+        });
+    });
+});
+
+describe("RelayStateCodec – store mode", () => {
+    it("sends an opaque key and resolves it once", async () => {
+        const codec = new RelayStateCodec({ store: new InMemoryRelayStateStore() });
+        const encoded = await codec.encode("/very/long/path?with=query");
+        expect(encoded).not.toContain("/");
+        expect(await codec.decode(encoded)).toBe("/very/long/path?with=query");
+        await expect(codec.decode(encoded)).rejects.toMatchObject({
+            code: "RELAY_STATE_INVALID",
+        });
+    });
+
+    it("rejects an unknown key", async () => {
+        const codec = new RelayStateCodec({ store: new InMemoryRelayStateStore() });
+        await expect(codec.decode("unknown")).rejects.toMatchObject({
+            code: "RELAY_STATE_INVALID",
+        });
+    });
+});
+
+describe("InMemoryRelayStateStore", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("rejects a non-positive ttl", () => {
+        expect(() => new InMemoryRelayStateStore(0)).toThrow("ttlMs must be a positive number.");
+    });
+
+    it("forgets a value once its ttl has passed", async () => {
+        jest.useFakeTimers();
+        const store = new InMemoryRelayStateStore(1000);
+        await store.save("k", "/home");
+        jest.advanceTimersByTime(1000);
+        expect(await store.take("k")).toBeNull();
+    });
+
+    it("measures the ttl on an injected clock", async () => {
+        let now = new Date("2020-01-01T00:00:00Z");
+        const store = new InMemoryRelayStateStore(1000, () => now);
+        await store.save("a", "/home");
+        await store.save("b", "/away");
+        expect(await store.take("a")).toBe("/home");
+        now = new Date("2020-01-01T00:00:01Z");
+        expect(await store.take("b")).toBeNull();
+    });
+});
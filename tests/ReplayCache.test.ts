@@ -0,0 +1,39 @@
+import { InMemoryReplayCache } from "../src/ReplayCache";
+
+describe("InMemoryReplayCache", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("accepts an ID once until it expires", async () => {
+        const cache = new InMemoryReplayCache();
+        const expiresAt = new Date(Date.now() + 60_000);
+        expect(await cache.saveIfAbsent("_a1", expiresAt)).toBe(true);
+        expect(await cache.saveIfAbsent("_a1", expiresAt)).toBe(false);
+    });
+
+    it("tracks IDs independently", async () => {
+        const cache = new InMemoryReplayCache();
+        const expiresAt = new Date(Date.now() + 60_000);
+        expect(await cache.saveIfAbsent("_a1", expiresAt)).toBe(true);
+        expect(await cache.saveIfAbsent("_a2", expiresAt)).toBe(true);
+    });
+
+    it("forgets an ID once its expiry has passed", async () => {
+        jest.useFakeTimers();
+        const cache = new InMemoryReplayCache();
+        await cache.saveIfAbsent("_a1", new Date(Date.now() + 1000));
+        jest.advanceTimersByTime(1001);
+        expect(await cache.saveIfAbsent("_a1", new Date(Date.now() + 1000))).toBe(true);
+    });
+
+    it("expires entries on an injected clock", async () => {
+        let now = new Date("2020-01-01T00:00:00Z");
+        const cache = new InMemoryReplayCache(() => now);
+        const expiresAt = new Date("2020-01-01T00:05:00Z");
+        expect(await cache.saveIfAbsent("_a1", expiresAt)).toBe(true);
+        expect(await cache.saveIfAbsent("_a1", expiresAt)).toBe(false);
+        now = expiresAt;
+        expect(await cache.saveIfAbsent("_a1", expiresAt)).toBe(true);
+    });
+});
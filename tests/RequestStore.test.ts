@@ -0,0 +1,40 @@
+import { InMemoryRequestStore } from "../src/RequestStore";
+
+describe("InMemoryRequestStore", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("consumes a saved ID exactly once", async () => {
+        const store = new InMemoryRequestStore();
+        await store.save("_req1");
+        expect(await store.consume("_req1")).toBe(true);
+        expect(await store.consume("_req1")).toBe(false);
+    });
+
+    it("does not know IDs it never saved", async () => {
+        expect(await new InMemoryRequestStore().consume("_unknown")).toBe(false);
+    });
+
+    it("expires IDs after the TTL", async () => {
+        jest.useFakeTimers();
+        const store = new InMemoryRequestStore(1000);
+        await store.save("_req1");
+        jest.advanceTimersByTime(1001);
+        expect(await store.consume("_req1")).toBe(false);
+    });
+
+    it("expires IDs on an injected clock", async () => {
+        let now = new Date("2020-01-01T00:00:00Z");
+        const store = new InMemoryRequestStore(1000, () => now);
+        await store.save("_req1");
+        await store.save("_req2");
+        expect(await store.consume("_req1")).toBe(true);
+        now = new Date("2020-01-01T00:00:01Z");
+        expect(await store.consume("_req2")).toBe(false);
+    });
+
+    it("rejects a non-positive TTL", () => {
+        expect(() => new InMemoryRequestStore(0)).toThrow("ttlMs must be a positive number.");
+    });
+});
@@ -0,0 +1,458 @@
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+import {
+    IdentityProvider,
+    MalformedXMLError,
+    SAMLLogout,
+    ServiceProvider,
+    STATUS_SUCCESS,
+    StatusError,
+    ValidationError,
+} from "../src";
+import { buildRedirectURL } from "../src/bindings";
+import { signXML, verifyEnvelopedSignature } from "../src/signature";
+import { KeyPair } from "../src/types";
+import { NS, parseXML } from "../src/xml";
+
+const IDP_ENTITY_ID = "https://idp.example.com/metadata";
+const IDP_SLO = "https://idp.example.com/slo";
+const SP_SLO = "https://sp.example.com/saml/logout";
+
+let sp: ServiceProvider;
+let idp: IdentityProvider;
+let idpKeys: KeyPair;
+let logout: SAMLLogout;
+
+beforeAll(async () => {
+    idpKeys = await ServiceProvider.generateKeys(2048);
+    sp = await ServiceProvider.create({
+        assertionEndpoint: "https://sp.example.com/acs",
+        entityID: "https://sp.example.com/metadata",
+    });
+    idp = new IdentityProvider({
+        entityID: IDP_ENTITY_ID,
+        singleLogoutServices: [
+            {
+                binding: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect",
+                location: IDP_SLO,
+                responseLocation: `${IDP_SLO}/response`,
+            },
+            { binding: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST", location: IDP_SLO },
+        ],
+        signingCertificates: [idpKeys.certificate],
+    });
+    logout = new SAMLLogout(idp, sp, { logoutEndpoint: SP_SLO });
+});
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function inflate(encoded: string): string {
+    return inflateRawSync(Buffer.from(encoded, "base64")).toString("utf-8");
+}
+
+function buildIdPLogoutRequest({
+    issuer = IDP_ENTITY_ID,
+    destination = SP_SLO,
+    notOnOrAfter,
+}: { issuer?: string; destination?: string; notOnOrAfter?: Date } = {}): string {
+    return (
+        `<samlp:LogoutRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ` +
+        `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_idp_logout_1" Version="2.0" ` +
+        `IssueInstant="${new Date().toISOString()}" Destination="${destination}"` +
+        (notOnOrAfter ? ` NotOnOrAfter="${notOnOrAfter.toISOString()}"` : "") +
+        `><saml:Issuer>${issuer}</saml:Issuer>` +
+        `<saml:NameID>alice@example.com</saml:NameID>` +
+        `<samlp:SessionIndex>_session1</samlp:SessionIndex>` +
+        `<samlp:SessionIndex>_session2</samlp:SessionIndex>` +
+        `</samlp:LogoutRequest>`
+    );
+}
+
+function buildIdPLogoutResponse(inResponseTo: string, status = STATUS_SUCCESS): string {
+    return (
+        `<samlp:LogoutResponse xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ` +
+        `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_idp_logout_resp" Version="2.0" ` +
+        `IssueInstant="${new Date().toISOString()}" Destination="${SP_SLO}" InResponseTo="${inResponseTo}">` +
+        `<saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer>` +
+        `<samlp:Status><samlp:StatusCode Value="${status}"/></samlp:Status>` +
+        `</samlp:LogoutResponse>`
+    );
+}
+
+function asRedirect(messageType: "SAMLRequest" | "SAMLResponse", xml: string, keys?: KeyPair) {
+    const url = buildRedirectURL(SP_SLO, messageType, xml, {
+        relayState: "/bye",
+        signing: keys,
+    });
+    return { query: new URL(url).search };
+}
+
+function asPost(messageType: "SAMLRequest" | "SAMLResponse", xml: string, keys?: KeyPair) {
+    const body = keys ? signXML(xml, keys, "Issuer") : xml;
+    return {
+        body: { [messageType]: Buffer.from(body).toString("base64"), RelayState: "/bye" },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// constructor
+// ---------------------------------------------------------------------------
+
+describe("SAMLLogout – constructor", () => {
+    it("throws when the IdP has no SingleLogoutService", () => {
+        const bare = new IdentityProvider({ entityID: IDP_ENTITY_ID });
+        expect(() => new SAMLLogout(bare, sp)).toThrow("no SingleLogoutService");
+    });
+
+    it("requires logoutEndpoint when the SP publishes no SingleLogoutService", () => {
+        expect(() => new SAMLLogout(idp, sp)).toThrow(
+            "logoutEndpoint is required when the SP metadata has no SingleLogoutService."
+        );
+    });
+
+    it("expects the SLO endpoint the SP publishes when logoutEndpoint is not set", () => {
+        const publishing = new ServiceProvider({
+            assertionEndpoint: "https://sp.example.com/acs",
+            certificate: sp.certificate,
+            privateKey: sp.privateKey,
+            metadata: {
+                singleLogoutServices: [
+                    { binding: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST", location: SP_SLO },
+                ],
+            },
+        });
+        const result = new SAMLLogout(idp, publishing).processLogoutRequest(
+            asPost("SAMLRequest", buildIdPLogoutRequest(), idpKeys)
+        );
+        expect(result.nameID).toBe("alice@example.com");
+    });
+});
+
+// ---------------------------------------------------------------------------
+// SP-initiated logout
+// ---------------------------------------------------------------------------
+
+describe("SAMLLogout – createLogoutRequestURL", () => {
+    it("targets the IdP SLO endpoint with a signed, deflated LogoutRequest", () => {
+        const { id, url } = logout.createLogoutRequestURL(
+            { nameID: "alice@example.com", sessionIndex: "_session1" },
+            "/goodbye"
+        );
+        const parsed = new URL(url);
+        expect(`${parsed.origin}${parsed.pathname}`).toBe(IDP_SLO);
+        expect(parsed.searchParams.get("RelayState")).toBe("/goodbye");
+        expect(parsed.searchParams.get("Signature")).not.toBeNull();
+
+        const xml = inflate(parsed.searchParams.get("SAMLRequest")!);
+        expect(xml).toContain(`ID="${id}"`);
+        expect(xml).toContain("<saml:Issuer>https://sp.example.com/metadata</saml:Issuer>");
+        expect(xml).toContain("<saml:NameID>alice@example.com</saml:NameID>");
+        expect(xml).toContain("<samlp:SessionIndex>_session1</samlp:SessionIndex>");
+    });
+
+    it("omits SessionIndex when the subject has none", () => {
+        const { url } = logout.createLogoutRequestURL({ nameID: "alice@example.com" });
+        const xml = inflate(new URL(url).searchParams.get("SAMLRequest")!);
+        expect(xml).not.toContain("SessionIndex");
+    });
+
+    it("echoes the NameID format and qualifiers of the subject", () => {
+        const { url } = logout.createLogoutRequestURL({
+            nameID: "abc123",
+            nameIDFormat: "urn:oasis:names:tc:SAML:2.0:nameid-format:persistent",
+            nameQualifier: IDP_ENTITY_ID,
+            spNameQualifier: "https://sp.example.com/metadata",
+        });
+        const xml = inflate(new URL(url).searchParams.get("SAMLRequest")!);
+        const nameID = parseXML(xml).getElementsByTagNameNS(NS.saml, "NameID")[0];
+        expect(nameID.textContent).toBe("abc123");
+        expect(nameID.getAttribute("Format")).toBe(
+            "urn:oasis:names:tc:SAML:2.0:nameid-format:persistent"
+        );
+        expect(nameID.getAttribute("NameQualifier")).toBe(IDP_ENTITY_ID);
+        expect(nameID.getAttribute("SPNameQualifier")).toBe("https://sp.example.com/metadata");
+    });
+
+    it("throws when the subject has no NameID", () => {
+        expect(() => logout.createLogoutRequestURL({ nameID: null })).toThrow("nameID is required");
+    });
+});
+
+describe("SAMLLogout – createLogoutRequestPost", () => {
+    it("embeds a verifiable signature after the Issuer", () => {
+        const message = logout.createLogoutRequestPost({ nameID: "alice@example.com" }, "/bye");
+        expect(message.action).toBe(IDP_SLO);
+        expect(message.fields.RelayState).toBe("/bye");
+
+        const xml = Buffer.from(message.fields.SAMLRequest, "base64").toString("utf-8");
+        const root = parseXML(xml).documentElement!;
+        const children = Array.from(root.childNodes)
+            .filter((n) => n.nodeType === 1)
+            .map((n) => n.localName);
+        expect(children).toEqual(["Issuer", "Signature", "NameID"]);
+        expect(verifyEnvelopedSignature(root, { certificates: [sp.certificate] })).toBe(true);
+    });
+
+    it("renders a self-submitting form", () => {
+        const { id, html } = logout.createLogoutRequestForm({ nameID: "alice@example.com" });
+        expect(id).toMatch(/^_/);
+        expect(html).toContain(`action="${IDP_SLO}"`);
+    });
+});
+
+describe("SAMLLogout – processLogoutResponse", () => {
+    it("accepts a signed Success response over HTTP-Redirect", () => {
+        const { id } = logout.createLogoutRequestURL({ nameID: "alice@example.com" });
+        const result = logout.processLogoutResponse(
+            asRedirect("SAMLResponse", buildIdPLogoutResponse(id), idpKeys),
+            id
+        );
+        expect(result.inResponseTo).toBe(id);
+        expect(result.statusCode).toBe(STATUS_SUCCESS);
+        expect(result.relayState).toBe("/bye");
+    });
+
+    it("accepts a signed Success response over HTTP-POST", () => {
+        const { id } = logout.createLogoutRequestPost({ nameID: "alice@example.com" });
+        const result = logout.processLogoutResponse(
+            asPost("SAMLResponse", buildIdPLogoutResponse(id), idpKeys),
+            id
+        );
+        expect(result.inResponseTo).toBe(id);
+    });
+
+    it("rejects a response to a different request", () => {
+        expect(() =>
+            logout.processLogoutResponse(
+                asRedirect("SAMLResponse", buildIdPLogoutResponse("_other"), idpKeys),
+                "_mine"
+            )
+        ).toThrow("does not match request");
+    });
+
+    it("throws when the IdP reports a failure status", () => {
+        const xml = buildIdPLogoutResponse("_x", "urn:oasis:names:tc:SAML:2.0:status:Responder");
+        expect(() => logout.processLogoutResponse(asRedirect("SAMLResponse", xml, idpKeys))).toThrow(
+            "StatusCode: urn:oasis:names:tc:SAML:2.0:status:Responder"
+        );
+    });
+
+    it("reports the IdP status codes on a StatusError", () => {
+        const xml = buildIdPLogoutResponse("_x", "urn:oasis:names:tc:SAML:2.0:status:Responder")
+            .replace(
+                `<samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Responder"/>`,
+                `<samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Responder">` +
+                    `<samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:PartialLogout"/>` +
+                    `</samlp:StatusCode><samlp:StatusMessage>Session store unavailable</samlp:StatusMessage>`
+            );
+        let error: unknown;
+        try {
+            logout.processLogoutResponse(asRedirect("SAMLResponse", xml, idpKeys));
+        } catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(StatusError);
+        expect(error).toMatchObject({
+            code: "IDP_STATUS_ERROR",
+            statusCodes: [
+                "urn:oasis:names:tc:SAML:2.0:status:Responder",
+                "urn:oasis:names:tc:SAML:2.0:status:PartialLogout",
+            ],
+            statusMessage: "Session store unavailable",
+        });
+    });
+
+    it("reports the expected and actual InResponseTo on a ValidationError", () => {
+        let error: unknown;
+        try {
+            logout.processLogoutResponse(
+                asRedirect("SAMLResponse", buildIdPLogoutResponse("_other"), idpKeys),
+                "_mine"
+            );
+        } catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({
+            code: "IN_RESPONSE_TO_MISMATCH",
+            expected: "_mine",
+            actual: "_other",
+        });
+    });
+});
+
+// ---------------------------------------------------------------------------
+// IdP-initiated logout
+// ---------------------------------------------------------------------------
+
+describe("SAMLLogout – processLogoutRequest", () => {
+    it("parses a signed HTTP-Redirect LogoutRequest", () => {
+        const result = logout.processLogoutRequest(
+            asRedirect("SAMLRequest", buildIdPLogoutRequest(), idpKeys)
+        );
+        expect(result.id).toBe("_idp_logout_1");
+        expect(result.issuer).toBe(IDP_ENTITY_ID);
+        expect(result.nameID).toBe("alice@example.com");
+        expect(result.sessionIndexes).toEqual(["_session1", "_session2"]);
+        expect(result.relayState).toBe("/bye");
+    });
+
+    it("parses a signed HTTP-POST LogoutRequest", () => {
+        const result = logout.processLogoutRequest(
+            asPost("SAMLRequest", buildIdPLogoutRequest(), idpKeys)
+        );
+        expect(result.nameID).toBe("alice@example.com");
+    });
+
+    it("rejects a redirect message that inflates past the size limit", () => {
+        const bomb = deflateRawSync(Buffer.alloc(1024 * 1024, " ")).toString("base64");
+        expect(() =>
+            logout.processLogoutRequest({ query: `SAMLRequest=${encodeURIComponent(bomb)}` })
+        ).toThrow("HTTP-Redirect message inflates to more than 262144 bytes.");
+    });
+
+    it("applies xmlLimits", () => {
+        const strict = new SAMLLogout(idp, sp, {
+            logoutEndpoint: SP_SLO,
+            requireSignedMessages: false,
+            xmlLimits: { maxElements: 3 },
+        });
+        expect(() =>
+            strict.processLogoutRequest(asPost("SAMLRequest", buildIdPLogoutRequest()))
+        ).toThrow("XML has more than 3 elements.");
+    });
+
+    it("rejects a LogoutRequest without an ID", () => {
+        const lenient = new SAMLLogout(idp, sp, {
+            logoutEndpoint: SP_SLO,
+            requireSignedMessages: false,
+        });
+        const xml = buildIdPLogoutRequest().replace(' ID="_idp_logout_1"', "");
+        expect(() => lenient.processLogoutRequest(asPost("SAMLRequest", xml))).toThrow(
+            MalformedXMLError
+        );
+        expect(() => lenient.processLogoutRequest(asPost("SAMLRequest", xml))).toThrow(
+            "LogoutRequest has no ID."
+        );
+    });
+
+    it("rejects an unsigned LogoutRequest", () => {
+        expect(() =>
+            logout.processLogoutRequest(asRedirect("SAMLRequest", buildIdPLogoutRequest()))
+        ).toThrow("LogoutRequest is not signed");
+    });
+
+    it("accepts an unsigned LogoutRequest when signatures are not required", () => {
+        const lenient = new SAMLLogout(idp, sp, {
+            logoutEndpoint: SP_SLO,
+            requireSignedMessages: false,
+        });
+        expect(
+            lenient.processLogoutRequest(asPost("SAMLRequest", buildIdPLogoutRequest())).nameID
+        ).toBe("alice@example.com");
+    });
+
+    it("rejects a redirect signed by another key", () => {
+        expect(() =>
+            logout.processLogoutRequest(
+                asRedirect("SAMLRequest", buildIdPLogoutRequest(), {
+                    privateKey: sp.privateKey,
+                    certificate: sp.certificate,
+                })
+            )
+        ).toThrow("not valid for any trusted certificate");
+    });
+
+    it("rejects a redirect whose RelayState was altered after signing", () => {
+        const { query } = asRedirect("SAMLRequest", buildIdPLogoutRequest(), idpKeys);
+        expect(() =>
+            logout.processLogoutRequest({ query: query.replace("RelayState=%2Fbye", "RelayState=%2Fevil") })
+        ).toThrow("not valid for any trusted certificate");
+    });
+
+    it("rejects a request from another Issuer", () => {
+        expect(() =>
+            logout.processLogoutRequest(
+                asPost("SAMLRequest", buildIdPLogoutRequest({ issuer: "https://evil.example.com" }), idpKeys)
+            )
+        ).toThrow("does not match IdP");
+    });
+
+    it("rejects a request for another Destination", () => {
+        expect(() =>
+            logout.processLogoutRequest(
+                asPost(
+                    "SAMLRequest",
+                    buildIdPLogoutRequest({ destination: "https://other.example.com/slo" }),
+                    idpKeys
+                )
+            )
+        ).toThrow("Destination");
+    });
+
+    it("rejects an expired request", () => {
+        expect(() =>
+            logout.processLogoutRequest(
+                asPost(
+                    "SAMLRequest",
+                    buildIdPLogoutRequest({ notOnOrAfter: new Date(Date.now() - 1000) }),
+                    idpKeys
+                )
+            )
+        ).toThrow("LogoutRequest has expired");
+    });
+
+    it("rejects a NotOnOrAfter that is not an xs:dateTime", () => {
+        const xml = buildIdPLogoutRequest().replace(" Version=", ' NotOnOrAfter="soon" Version=');
+        expect(() => logout.processLogoutRequest(asPost("SAMLRequest", xml, idpKeys))).toThrow(
+            'LogoutRequest NotOnOrAfter is not a valid xs:dateTime: "soon".'
+        );
+    });
+
+    it("tolerates a recently expired request within clockSkewMs", () => {
+        const tolerant = new SAMLLogout(idp, sp, { logoutEndpoint: SP_SLO, clockSkewMs: 60_000 });
+        expect(() =>
+            tolerant.processLogoutRequest(
+                asPost(
+                    "SAMLRequest",
+                    buildIdPLogoutRequest({ notOnOrAfter: new Date(Date.now() - 1000) }),
+                    idpKeys
+                )
+            )
+        ).not.toThrow();
+    });
+});
+
+describe("SAMLLogout – LogoutResponse generation", () => {
+    it("answers over HTTP-Redirect at the IdP ResponseLocation", () => {
+        const request = logout.processLogoutRequest(
+            asRedirect("SAMLRequest", buildIdPLogoutRequest(), idpKeys)
+        );
+        const url = new URL(logout.createLogoutResponseURL(request));
+        expect(`${url.origin}${url.pathname}`).toBe(`${IDP_SLO}/response`);
+        expect(url.searchParams.get("RelayState")).toBe("/bye");
+        expect(url.searchParams.get("Signature")).not.toBeNull();
+
+        const xml = inflate(url.searchParams.get("SAMLResponse")!);
+        expect(xml).toContain(`InResponseTo="_idp_logout_1"`);
+        expect(xml).toContain(`Value="${STATUS_SUCCESS}"`);
+    });
+
+    it("answers over HTTP-POST with an enveloped signature", () => {
+        const request = logout.processLogoutRequest(
+            asPost("SAMLRequest", buildIdPLogoutRequest(), idpKeys)
+        );
+        const message = logout.createLogoutResponsePost(
+            request,
+            "urn:oasis:names:tc:SAML:2.0:status:PartialLogout"
+        );
+        const xml = Buffer.from(message.fields.SAMLResponse, "base64").toString("utf-8");
+        expect(xml).toContain("PartialLogout");
+        expect(
+            verifyEnvelopedSignature(parseXML(xml).documentElement!, {
+                certificates: [sp.certificate],
+            })
+        ).toBe(true);
+    });
+});
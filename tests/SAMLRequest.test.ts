@@ -1,4 +1,27 @@
-import { SAMLRequest } from "../src";
+import * as crypto from "node:crypto";
+import { inflateRawSync } from "node:zlib";
+import {
+    AUTHN_CONTEXT,
+    IdentityProvider,
+    InMemoryRequestStore,
+    SAMLRequest,
+    ServiceProvider,
+} from "../src";
+import { verifyEnvelopedSignature } from "../src/signature";
+import { NS, parseXML } from "../src/xml";
+
+let sp: ServiceProvider;
+
+beforeAll(async () => {
+    sp = await ServiceProvider.create({
+        assertionEndpoint: "https://sp.example.com/acs",
+        entityID: "https://sp.example.com/metadata",
+    });
+});
+
+function inflate(encoded: string): string {
+    return inflateRawSync(Buffer.from(encoded, "base64")).toString("utf-8");
+}
 
 const IDP_URL = "https://idp.example.com/sso";
 const ACS_URL = "https://sp.example.com/acs";
@@ -109,12 +132,23 @@ describe("SAMLRequest – createAuthNURL", () => {
         expect(url.searchParams.get("SAMLRequest")).not.toBeNull();
     });
 
-    it("SAMLRequest value decodes to valid AuthnRequest XML", () => {
+    it("SAMLRequest value inflates to valid AuthnRequest XML", () => {
         const req = new SAMLRequest(IDP_URL, ACS_URL);
         const url = new URL(req.createAuthNURL());
         const encoded = url.searchParams.get("SAMLRequest")!;
-        const decoded = Buffer.from(encoded, "base64").toString("utf-8");
-        expect(decoded).toContain("AuthnRequest");
+        expect(inflate(encoded)).toContain("AuthnRequest");
+    });
+
+    it("does not add RelayState or a signature by default", () => {
+        const url = new URL(new SAMLRequest(IDP_URL, ACS_URL).createAuthNURL());
+        expect(url.searchParams.has("RelayState")).toBe(false);
+        expect(url.searchParams.has("SigAlg")).toBe(false);
+        expect(url.searchParams.has("Signature")).toBe(false);
+    });
+
+    it("carries RelayState when given", () => {
+        const url = new URL(new SAMLRequest(IDP_URL, ACS_URL).createAuthNURL("/dashboard?x=1"));
+        expect(url.searchParams.get("RelayState")).toBe("/dashboard?x=1");
     });
 
     it("preserves existing query parameters on the IdP URL", () => {
@@ -131,4 +165,385 @@ describe("SAMLRequest – createAuthNURL", () => {
         const req = new SAMLRequest(IDP_URL, ACS_URL);
         expect(req.createAuthNURL()).not.toBe(req.createAuthNURL());
     });
-});
\ No newline at end of file
+});
+describe("SAMLRequest – signed HTTP-Redirect binding", () => {
+    it("uses the ServiceProvider entityID as Issuer", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { serviceProvider: sp });
+        const url = new URL(req.createAuthNURL());
+        expect(inflate(url.searchParams.get("SAMLRequest")!)).toContain(
+            "<saml:Issuer>https://sp.example.com/metadata</saml:Issuer>"
+        );
+    });
+
+    it("signs the query string with the ServiceProvider key", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { serviceProvider: sp });
+        const raw = req.createAuthNURL("state-123");
+        const query = raw.slice(raw.indexOf("?") + 1);
+        const [signed, signature] = query.split("&Signature=");
+
+        expect(signed).toMatch(/^SAMLRequest=[^&]+&RelayState=state-123&SigAlg=[^&]+$/);
+        expect(new URL(raw).searchParams.get("SigAlg")).toBe(
+            "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"
+        );
+        expect(
+            crypto.verify(
+                "sha256",
+                Buffer.from(signed),
+                sp.certificate,
+                Buffer.from(decodeURIComponent(signature), "base64")
+            )
+        ).toBe(true);
+    });
+
+    it("honours the configured signature algorithm", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, {
+            serviceProvider: sp,
+            signatureAlgorithm: "rsa-sha512",
+        });
+        expect(new URL(req.createAuthNURL()).searchParams.get("SigAlg")).toBe(
+            "http://www.w3.org/2001/04/xmldsig-more#rsa-sha512"
+        );
+    });
+
+    it("keeps existing IdP query parameters outside the signed portion", () => {
+        const req = new SAMLRequest("https://idp.example.com/sso?tenant=acme", ACS_URL, {
+            serviceProvider: sp,
+        });
+        const raw = req.createAuthNURL();
+        expect(raw).toMatch(/\?tenant=acme&SAMLRequest=/);
+    });
+
+    it("does not embed an XML signature in a redirect-bound request", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { serviceProvider: sp });
+        const url = new URL(req.createAuthNURL());
+        expect(inflate(url.searchParams.get("SAMLRequest")!)).not.toContain("Signature");
+    });
+
+    it("can leave requests unsigned when signRequests is false", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { serviceProvider: sp, signRequests: false });
+        expect(new URL(req.createAuthNURL()).searchParams.has("Signature")).toBe(false);
+    });
+
+    it("throws when signing is requested without a ServiceProvider", () => {
+        expect(() => new SAMLRequest(IDP_URL, ACS_URL, { signRequests: true })).toThrow(
+            "serviceProvider is required"
+        );
+    });
+
+    it("throws when the IdP wants signed requests but signing is disabled", () => {
+        const idp = new IdentityProvider({
+            entityID: "https://idp.example.com",
+            singleSignOnServices: [
+                {
+                    binding: "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect",
+                    location: IDP_URL,
+                },
+            ],
+            wantAuthnRequestsSigned: true,
+        });
+        expect(() => new SAMLRequest(idp, ACS_URL)).toThrow("requires signed AuthnRequests");
+        expect(() => new SAMLRequest(idp, ACS_URL, { serviceProvider: sp })).not.toThrow();
+    });
+});
+
+describe("SAMLRequest – HTTP-POST binding", () => {
+    async function decodePosted(req: SAMLRequest, relayState?: string): Promise<string> {
+        const post = await req.createAuthNPost(relayState);
+        return Buffer.from(post.fields.SAMLRequest, "base64").toString("utf-8");
+    }
+
+    it("posts to the IdP URL with a Base64 SAMLRequest", async () => {
+        const post = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNPost();
+        expect(post.action).toBe(IDP_URL);
+        expect(
+            Buffer.from(post.fields.SAMLRequest, "base64").toString("utf-8")
+        ).toContain("AuthnRequest");
+    });
+
+    it("includes RelayState only when given", async () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL);
+        expect((await req.createAuthNPost()).fields).not.toHaveProperty("RelayState");
+        expect((await req.createAuthNPost("abc")).fields.RelayState).toBe("abc");
+    });
+
+    it("leaves the request unsigned without a ServiceProvider", async () => {
+        expect(await decodePosted(new SAMLRequest(IDP_URL, ACS_URL))).not.toContain("Signature");
+    });
+
+    it("embeds an enveloped signature immediately after saml:Issuer", async () => {
+        const xml = await decodePosted(new SAMLRequest(IDP_URL, ACS_URL, { serviceProvider: sp }));
+        const root = parseXML(xml).documentElement!;
+        const children = Array.from(root.childNodes)
+            .filter((n) => n.nodeType === 1)
+            .map((n) => n.localName);
+        expect(children).toEqual(["Issuer", "Signature", "NameIDPolicy"]);
+    });
+
+    it("produces a signature that verifies with the ServiceProvider certificate", async () => {
+        const xml = await decodePosted(new SAMLRequest(IDP_URL, ACS_URL, { serviceProvider: sp }));
+        const root = parseXML(xml).documentElement!;
+        expect(verifyEnvelopedSignature(root, { certificates: [sp.certificate] })).toBe(true);
+    });
+});
+
+describe("SAMLRequest – createAuthNForm", () => {
+    it("renders a self-submitting form with an inline script", async () => {
+        const { html } = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNForm("state");
+        expect(html).toContain(`<form id="saml-form" method="post" action="${IDP_URL}">`);
+        expect(html).toContain(`name="SAMLRequest"`);
+        expect(html).toContain(`<input type="hidden" name="RelayState" value="state"/>`);
+        expect(html).toMatch(/<script>[^<]*submit\(\)/);
+    });
+
+    it("adds a nonce to the inline script when given", async () => {
+        const { html } = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNForm(undefined, {
+            nonce: "r4nd0m",
+        });
+        expect(html).toContain(`<script nonce="r4nd0m">`);
+    });
+
+    it("omits inline script in CSP-safe mode", async () => {
+        const { html } = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNForm(undefined, {
+            cspSafe: true,
+            scriptSrc: "/saml/autosubmit.js",
+        });
+        expect(html).not.toMatch(/<script>/);
+        expect(html).toContain(`<script src="/saml/autosubmit.js"></script>`);
+        expect(html).toContain(`<button type="submit">`);
+    });
+
+    it("escapes RelayState values", async () => {
+        const { html } = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNForm(`"><script>x</script>`);
+        expect(html).toContain(`value="&quot;&gt;&lt;script&gt;x&lt;/script&gt;"`);
+    });
+});
+
+describe("SAMLRequest – request ID correlation", () => {
+    it("returns the request ID with the redirect URL", async () => {
+        const { id, url } = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNRedirect();
+        const xml = inflate(new URL(url).searchParams.get("SAMLRequest")!);
+        expect(xml).toContain(`ID="${id}"`);
+    });
+
+    it("returns the request ID with the XML", async () => {
+        const { id, xml } = await new SAMLRequest(IDP_URL, ACS_URL).createAuthNRequest();
+        expect(xml).toContain(`ID="${id}"`);
+    });
+
+    it("records the request ID in the request store", async () => {
+        const requestStore = new InMemoryRequestStore();
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { requestStore });
+        const redirect = await req.createAuthNRedirect();
+        const post = await req.createAuthNPost();
+        const form = await req.createAuthNForm();
+        expect(await requestStore.consume(redirect.id)).toBe(true);
+        expect(await requestStore.consume(post.id)).toBe(true);
+        expect(await requestStore.consume(form.id)).toBe(true);
+    });
+});
+
+describe("SAMLRequest – RelayState protection", () => {
+    const relayState = { secret: "0123456789abcdef0123456789abcdef" };
+
+    it("tags the RelayState of redirect and POST requests", async () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { relayState });
+        const { url } = await req.createAuthNRedirect("/dashboard");
+        expect(new URL(url).searchParams.get("RelayState")).toMatch(/^\/dashboard\.[\w-]+$/);
+        const post = await req.createAuthNPost("/dashboard");
+        expect(post.fields.RelayState).toMatch(/^\/dashboard\.[\w-]+$/);
+    });
+
+    it("rejects an open-redirect target before building the request", async () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { relayState });
+        await expect(req.createAuthNRedirect("https://evil.example.com/")).rejects.toMatchObject({
+            code: "RELAY_STATE_INVALID",
+        });
+    });
+
+    it("refuses a RelayState on the synchronous createAuthNURL", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, { relayState });
+        expect(() => req.createAuthNURL("/dashboard")).toThrow("use createAuthNRedirect");
+        expect(() => req.createAuthNURL()).not.toThrow();
+    });
+});
+
+describe("SAMLRequest – AuthnRequest options", () => {
+    function parse(xml: string) {
+        return parseXML(xml).documentElement!;
+    }
+
+    function child(parent: any, localName: string): any {
+        return parent.getElementsByTagNameNS(NS.samlp, localName)[0] ?? null;
+    }
+
+    it("keeps the previous defaults when no options are given", () => {
+        const root = parse(new SAMLRequest(IDP_URL, ACS_URL).generateAuthNRequest());
+        expect(root.hasAttribute("ForceAuthn")).toBe(false);
+        expect(root.hasAttribute("IsPassive")).toBe(false);
+        const policy = child(root, "NameIDPolicy");
+        expect(policy.getAttribute("Format")).toBe(
+            "urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified"
+        );
+        expect(policy.getAttribute("AllowCreate")).toBe("true");
+        expect(child(root, "RequestedAuthnContext")).toBeNull();
+        expect(child(root, "Scoping")).toBeNull();
+    });
+
+    it("sets ForceAuthn, IsPassive and ProviderName", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL);
+        const forced = parse(
+            req.generateAuthNRequest({ forceAuthn: true, providerName: "My App" })
+        );
+        expect(forced.getAttribute("ForceAuthn")).toBe("true");
+        expect(forced.getAttribute("ProviderName")).toBe("My App");
+        const passive = parse(req.generateAuthNRequest({ isPassive: true }));
+        expect(passive.getAttribute("IsPassive")).toBe("true");
+    });
+
+    it("requests an authentication context after NameIDPolicy", () => {
+        const xml = new SAMLRequest(IDP_URL, ACS_URL).generateAuthNRequest({
+            requestedAuthnContext: {
+                classRefs: [AUTHN_CONTEXT.mobileTwoFactorContract, AUTHN_CONTEXT.x509],
+                comparison: "minimum",
+            },
+        });
+        const context = child(parse(xml), "RequestedAuthnContext");
+        expect(context.getAttribute("Comparison")).toBe("minimum");
+        const refs = context.getElementsByTagNameNS(NS.saml, "AuthnContextClassRef");
+        expect(Array.from(refs, (ref: any) => ref.textContent)).toEqual([
+            AUTHN_CONTEXT.mobileTwoFactorContract,
+            AUTHN_CONTEXT.x509,
+        ]);
+        expect(xml.indexOf("NameIDPolicy")).toBeLessThan(xml.indexOf("RequestedAuthnContext"));
+    });
+
+    it("configures or omits the NameIDPolicy", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL);
+        const policy = child(
+            parse(
+                req.generateAuthNRequest({
+                    nameIDPolicy: {
+                        format: "urn:oasis:names:tc:SAML:2.0:nameid-format:persistent",
+                        spNameQualifier: "https://sp.example.com",
+                        allowCreate: false,
+                    },
+                })
+            ),
+            "NameIDPolicy"
+        );
+        expect(policy.getAttribute("Format")).toBe(
+            "urn:oasis:names:tc:SAML:2.0:nameid-format:persistent"
+        );
+        expect(policy.getAttribute("SPNameQualifier")).toBe("https://sp.example.com");
+        expect(policy.getAttribute("AllowCreate")).toBe("false");
+        const omitted = parse(req.generateAuthNRequest({ nameIDPolicy: null }));
+        expect(child(omitted, "NameIDPolicy")).toBeNull();
+    });
+
+    it("replaces the ACS URL and binding with an index", () => {
+        const root = parse(
+            new SAMLRequest(IDP_URL, ACS_URL).generateAuthNRequest({
+                assertionConsumerServiceIndex: 1,
+                attributeConsumingServiceIndex: 2,
+            })
+        );
+        expect(root.getAttribute("AssertionConsumerServiceIndex")).toBe("1");
+        expect(root.getAttribute("AttributeConsumingServiceIndex")).toBe("2");
+        expect(root.hasAttribute("AssertionConsumerServiceURL")).toBe(false);
+        expect(root.hasAttribute("ProtocolBinding")).toBe(false);
+    });
+
+    it("overrides the ACS URL per request", () => {
+        const root = parse(
+            new SAMLRequest(IDP_URL, ACS_URL).generateAuthNRequest({
+                assertionConsumerServiceURL: "https://sp.example.com/acs/admin",
+            })
+        );
+        expect(root.getAttribute("AssertionConsumerServiceURL")).toBe(
+            "https://sp.example.com/acs/admin"
+        );
+    });
+
+    it("builds Scoping with an IDPList and RequesterIDs", () => {
+        const scoping = child(
+            parse(
+                new SAMLRequest(IDP_URL, ACS_URL).generateAuthNRequest({
+                    scoping: {
+                        proxyCount: 2,
+                        idpList: [
+                            "https://idp-a.example.com",
+                            {
+                                providerID: "https://idp-b.example.com",
+                                name: "B",
+                                loc: "https://b/sso",
+                            },
+                        ],
+                        requesterIDs: ["https://portal.example.com"],
+                    },
+                })
+            ),
+            "Scoping"
+        );
+        expect(scoping.getAttribute("ProxyCount")).toBe("2");
+        const entries = scoping.getElementsByTagNameNS(NS.samlp, "IDPEntry");
+        expect(entries.length).toBe(2);
+        expect(entries[0].getAttribute("ProviderID")).toBe("https://idp-a.example.com");
+        expect(entries[0].hasAttribute("Name")).toBe(false);
+        expect(entries[1].getAttribute("Name")).toBe("B");
+        expect(entries[1].getAttribute("Loc")).toBe("https://b/sso");
+        expect(child(scoping, "RequesterID").textContent).toBe("https://portal.example.com");
+    });
+
+    it("merges per-request options over the constructor defaults", () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL, {
+            authnRequest: { providerName: "My App", forceAuthn: false },
+        });
+        const root = parse(req.generateAuthNRequest({ forceAuthn: true }));
+        expect(root.getAttribute("ProviderName")).toBe("My App");
+        expect(root.getAttribute("ForceAuthn")).toBe("true");
+    });
+
+    it("passes options through every builder", async () => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL);
+        const options = { isPassive: true };
+        const fromURL = (url: string) => inflate(new URL(url).searchParams.get("SAMLRequest")!);
+        const { url } = await req.createAuthNRedirect(undefined, options);
+        expect(fromURL(url)).toContain('IsPassive="true"');
+        expect(fromURL(req.createAuthNURL(undefined, options))).toContain('IsPassive="true"');
+        const post = await req.createAuthNPost(undefined, options);
+        const posted = Buffer.from(post.fields.SAMLRequest, "base64").toString();
+        expect(posted).toContain('IsPassive="true"');
+        expect((await req.createAuthNRequest(options)).xml).toContain('IsPassive="true"');
+    });
+
+    it.each<[string, object, string]>([
+        ["forceAuthn with isPassive", { forceAuthn: true, isPassive: true }, "cannot both be true"],
+        [
+            "an ACS URL with an ACS index",
+            { assertionConsumerServiceURL: ACS_URL, assertionConsumerServiceIndex: 0 },
+            "cannot be combined",
+        ],
+        ["a negative index", { attributeConsumingServiceIndex: -1 }, "between 0 and 65535"],
+        ["a fractional index", { assertionConsumerServiceIndex: 1.5 }, "between 0 and 65535"],
+        ["no class refs", { requestedAuthnContext: { classRefs: [] } }, "at least one class"],
+        [
+            "an unknown comparison",
+            { requestedAuthnContext: { classRefs: [AUTHN_CONTEXT.password], comparison: "most" } },
+            "Unknown AuthnContext comparison",
+        ],
+        ["a negative proxy count", { scoping: { proxyCount: -1 } }, "non-negative integer"],
+        ["an empty IDPList", { scoping: { idpList: [] } }, "at least one IdP"],
+    ])("rejects %s", (_, options, message) => {
+        const req = new SAMLRequest(IDP_URL, ACS_URL);
+        expect(() => req.generateAuthNRequest(options)).toThrow(message);
+    });
+
+    it("validates the constructor defaults up front", () => {
+        expect(
+            () =>
+                new SAMLRequest(IDP_URL, ACS_URL, {
+                    authnRequest: { forceAuthn: true, isPassive: true },
+                })
+        ).toThrow("cannot both be true");
+    });
+});
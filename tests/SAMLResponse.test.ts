@@ -1,12 +1,35 @@
+import * as crypto from "node:crypto";
 import { EventEmitter } from "events";
+import { Readable } from "stream";
+import * as xmlenc from "xml-encryption";
+import { XMLSerializer } from "@xmldom/xmldom";
+import {
+    BindingError,
+    DecryptionError,
+    MalformedXMLError,
+    ReplayError,
+    SAMLError,
+    SignatureError,
+    StatusError,
+    TimeWindowError,
+    ValidationError,
+} from "../src/errors";
+import { InMemoryReplayCache } from "../src/ReplayCache";
+import { RelayStateCodec } from "../src/RelayState";
+import { InMemoryRequestStore } from "../src/RequestStore";
 import { SAMLResponse } from "../src/SAMLResponse";
 import { ServiceProvider } from "../src/ServiceProvider";
-import { KeyPair } from "../src/types";
+import { signElement } from "../src/signature";
+import { IdentityProvider } from "../src/IdentityProvider";
+import { AssertionChecks, KeyPair, SAMLResponseOptions } from "../src/types";
+import { NS, STATUS, parseXML } from "../src/xml";
 
 let sharedKeys: KeyPair;
+let idpKeys: KeyPair;
 
 beforeAll(async () => {
     sharedKeys = await ServiceProvider.generateKeys(2048);
+    idpKeys = await ServiceProvider.generateKeys(2048);
 });
 
 // ---------------------------------------------------------------------------
@@ -47,9 +70,7 @@ function buildAssertionXML({
         )
         .join("");
 
-    const nsAttr = tagPrefix
-        ? `xmlns:${tagPrefix}="urn:oasis:names:tc:SAML:2.0:assertion"`
-        : "";
+    const nsAttr = `${tagPrefix ? `xmlns:${tagPrefix}` : "xmlns"}="urn:oasis:names:tc:SAML:2.0:assertion"`;
 
     return `
     <${p}Assertion ${nsAttr}>
@@ -73,10 +94,116 @@ function buildPostBody(innerXML: string): string {
     return `SAMLResponse=${encodeURIComponent(encoded)}`;
 }
 
+/** Build a Response with IDs on both the Response and the Assertion, optionally signing either. */
+function buildSignedResponseXML({
+    signResponse = false,
+    signAssertion = false,
+    keys,
+    nameID = "user@example.com",
+    inResponseTo,
+    confirmationInResponseTo = inResponseTo,
+    confirmationNotOnOrAfter,
+}: {
+    signResponse?: boolean;
+    signAssertion?: boolean;
+    keys: KeyPair;
+    nameID?: string;
+    inResponseTo?: string;
+    confirmationInResponseTo?: string;
+    confirmationNotOnOrAfter?: Date;
+}): string {
+    const responseAttr = inResponseTo ? ` InResponseTo="${inResponseTo}"` : "";
+    const confirmationAttrs = [
+        confirmationInResponseTo ? `InResponseTo="${confirmationInResponseTo}"` : "",
+        confirmationNotOnOrAfter ? `NotOnOrAfter="${confirmationNotOnOrAfter.toISOString()}"` : "",
+    ]
+        .filter(Boolean)
+        .join(" ");
+    const confirmation = confirmationAttrs
+        ? `<saml2:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml2:SubjectConfirmationData ${confirmationAttrs}/></saml2:SubjectConfirmation>`
+        : "";
+    const xml = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="_response1" Version="2.0"${responseAttr}>
+    <saml2:Issuer>https://idp.example.com</saml2:Issuer>
+    <saml2:Assertion ID="_assertion1" Version="2.0">
+      <saml2:Issuer>https://idp.example.com</saml2:Issuer>
+      <saml2:Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"></saml2:Conditions>
+      <saml2:Subject><saml2:NameID>${nameID}</saml2:NameID>${confirmation}</saml2:Subject>
+    </saml2:Assertion>
+  </samlp:Response>`;
+
+    const doc = parseXML(xml);
+    const [responseIssuer, assertionIssuer] = Array.from(
+        doc.getElementsByTagNameNS("urn:oasis:names:tc:SAML:2.0:assertion", "Issuer")
+    );
+    const assertion = doc.getElementsByTagNameNS(
+        "urn:oasis:names:tc:SAML:2.0:assertion",
+        "Assertion"
+    )[0];
+    if (signAssertion) signElement(assertion, keys, assertionIssuer);
+    if (signResponse) signElement(doc.documentElement!, keys, responseIssuer);
+    return new XMLSerializer().serializeToString(doc);
+}
+
+const SP_ENTITY_ID = "https://sp.example.com/metadata";
+const ACS_URL = "https://sp.example.com/acs";
+const IDP_ENTITY_ID = "https://idp.example.com";
+
+/** Build a Response that satisfies every Web Browser SSO profile check unless overridden. */
+function buildProfileResponseXML({
+    destination = ACS_URL,
+    responseIssuer = IDP_ENTITY_ID,
+    assertionIssuer = IDP_ENTITY_ID,
+    audiences = [[SP_ENTITY_ID]],
+    method = "urn:oasis:names:tc:SAML:2.0:cm:bearer",
+    recipient = ACS_URL,
+    confirmationNotOnOrAfter = FUTURE,
+    confirmationNotBefore,
+    signWith,
+}: {
+    destination?: string | null;
+    responseIssuer?: string | null;
+    assertionIssuer?: string | null;
+    audiences?: string[][];
+    method?: string;
+    recipient?: string | null;
+    confirmationNotOnOrAfter?: Date | null;
+    confirmationNotBefore?: Date;
+    signWith?: KeyPair;
+} = {}): string {
+    const attr = (name: string, value: string | null | undefined): string =>
+        value ? ` ${name}="${value}"` : "";
+    const restrictions = audiences
+        .map(
+            (list) =>
+                `<saml2:AudienceRestriction>${list
+                    .map((a) => `<saml2:Audience>${a}</saml2:Audience>`)
+                    .join("")}</saml2:AudienceRestriction>`
+        )
+        .join("");
+    const xml = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="_response1" Version="2.0"${attr("Destination", destination)}>${
+        responseIssuer ? `<saml2:Issuer>${responseIssuer}</saml2:Issuer>` : ""
+    }<saml2:Assertion ID="_assertion1" Version="2.0">${
+        assertionIssuer ? `<saml2:Issuer>${assertionIssuer}</saml2:Issuer>` : ""
+    }<saml2:Subject><saml2:NameID>user@example.com</saml2:NameID><saml2:SubjectConfirmation Method="${method}"><saml2:SubjectConfirmationData${attr(
+        "Recipient",
+        recipient
+    )}${attr("NotOnOrAfter", confirmationNotOnOrAfter?.toISOString())}${attr(
+        "NotBefore",
+        confirmationNotBefore?.toISOString()
+    )}/></saml2:SubjectConfirmation></saml2:Subject><saml2:Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}">${restrictions}</saml2:Conditions></saml2:Assertion></samlp:Response>`;
+
+    if (!signWith) return xml;
+    const doc = parseXML(xml);
+    const issuer = doc.getElementsByTagNameNS("urn:oasis:names:tc:SAML:2.0:assertion", "Issuer")[0];
+    signElement(doc.documentElement!, signWith, issuer);
+    return new XMLSerializer().serializeToString(doc);
+}
+
 /** Create a minimal mock of IncomingMessage that emits a POST body. */
 function mockPostRequest(body: string): any {
     const emitter = new EventEmitter() as any;
     emitter.method = "POST";
+    emitter.headers = { "content-type": "application/x-www-form-urlencoded" };
     process.nextTick(() => {
         emitter.emit("data", Buffer.from(body));
         emitter.emit("end");
@@ -111,6 +238,18 @@ describe("SAMLResponse – constructor", () => {
             () => new SAMLResponse({ privateKey: sharedKeys.privateKey })
         ).not.toThrow();
     });
+
+    it("reports whether trust anchors are configured", () => {
+        const { privateKey } = sharedKeys;
+        expect(new SAMLResponse({ privateKey }).hasTrustAnchors).toBe(false);
+        const pinned = new SAMLResponse({ privateKey, idpFingerprints: ["AB:CD"] });
+        expect(pinned.hasTrustAnchors).toBe(true);
+        const identityProvider = new IdentityProvider({
+            entityID: "https://idp.example.com",
+            signingCertificates: [sharedKeys.certificate],
+        });
+        expect(new SAMLResponse({ privateKey, identityProvider }).hasTrustAnchors).toBe(true);
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -124,10 +263,11 @@ describe("SAMLResponse – processXML – basic parsing", () => {
         samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
     });
 
-    it("returns null when neither Assertion nor EncryptedAssertion is present", async () => {
+    it("throws ASSERTION_MISSING when neither Assertion nor EncryptedAssertion is present", async () => {
         const xml = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol"></samlp:Response>`;
-        const result = await samlResponse.processXML(xml);
-        expect(result).toBeNull();
+        await expect(samlResponse.processXML(xml)).rejects.toMatchObject({
+            code: "ASSERTION_MISSING",
+        });
     });
 
     it("extracts nameID from a plain Assertion", async () => {
@@ -153,7 +293,7 @@ describe("SAMLResponse – processXML – basic parsing", () => {
 
     it("returns null nameID when NameID element is absent", async () => {
         const xml = `
-      <Assertion>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">
         <Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"></Conditions>
         <Subject></Subject>
       </Assertion>
@@ -178,7 +318,7 @@ describe("SAMLResponse – processXML – basic parsing", () => {
 
     it("returns empty attributes object when AttributeStatement is absent", async () => {
         const xml = `
-      <Assertion>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">
         <Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"></Conditions>
       </Assertion>
     `;
@@ -207,6 +347,404 @@ describe("SAMLResponse – processXML – basic parsing", () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// processXML – assertion details
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – processXML – assertion details", () => {
+    let samlResponse: SAMLResponse;
+
+    beforeAll(() => {
+        samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+    });
+
+    const AUTHN_INSTANT = new Date(Date.now() - 1000 * 60 * 5);
+
+    function buildDetailedAssertionXML(): string {
+        return `<saml2:Assertion xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a42" Version="2.0">
+      <saml2:Issuer> ${IDP_ENTITY_ID} </saml2:Issuer>
+      <saml2:Subject>
+        <saml2:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent"
+            NameQualifier="${IDP_ENTITY_ID}" SPNameQualifier="${SP_ENTITY_ID}">abc123</saml2:NameID>
+        <saml2:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">
+          <saml2:SubjectConfirmationData InResponseTo="_req7"/>
+        </saml2:SubjectConfirmation>
+      </saml2:Subject>
+      <saml2:Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"/>
+      <saml2:AuthnStatement AuthnInstant="${AUTHN_INSTANT.toISOString()}" SessionIndex="_s9"
+          SessionNotOnOrAfter="${FUTURE.toISOString()}">
+        <saml2:AuthnContext>
+          <saml2:AuthnContextClassRef>
+            urn:oasis:names:tc:SAML:2.0:ac:classes:MobileTwoFactorContract
+          </saml2:AuthnContextClassRef>
+        </saml2:AuthnContext>
+      </saml2:AuthnStatement>
+    </saml2:Assertion>`;
+    }
+
+    it("exposes the assertion ID and Issuer", async () => {
+        const result = await samlResponse.processXML(buildDetailedAssertionXML());
+        expect(result.id).toBe("_a42");
+        expect(result.issuer).toBe(IDP_ENTITY_ID);
+    });
+
+    it("exposes the NameID format and qualifiers", async () => {
+        const result = await samlResponse.processXML(buildDetailedAssertionXML());
+        expect(result.nameID).toBe("abc123");
+        expect(result.nameIDFormat).toBe("urn:oasis:names:tc:SAML:2.0:nameid-format:persistent");
+        expect(result.nameQualifier).toBe(IDP_ENTITY_ID);
+        expect(result.spNameQualifier).toBe(SP_ENTITY_ID);
+    });
+
+    it("exposes the AuthnStatement details", async () => {
+        const result = await samlResponse.processXML(buildDetailedAssertionXML());
+        expect(result.sessionIndex).toBe("_s9");
+        expect(result.authnInstant).toEqual(AUTHN_INSTANT);
+        expect(result.sessionNotOnOrAfter).toEqual(FUTURE);
+        expect(result.authnContextClassRef).toBe(
+            "urn:oasis:names:tc:SAML:2.0:ac:classes:MobileTwoFactorContract"
+        );
+    });
+
+    it("exposes InResponseTo from the SubjectConfirmationData", async () => {
+        const result = await samlResponse.processXML(buildDetailedAssertionXML());
+        expect(result.inResponseTo).toBe("_req7");
+    });
+
+    it("returns null for details the assertion does not carry", async () => {
+        const result = await samlResponse.processXML(
+            buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE })
+        );
+        expect(result).toMatchObject({
+            id: null,
+            issuer: null,
+            nameIDFormat: null,
+            nameQualifier: null,
+            spNameQualifier: null,
+            sessionIndex: null,
+            authnInstant: null,
+            sessionNotOnOrAfter: null,
+            authnContextClassRef: null,
+            inResponseTo: null,
+        });
+    });
+});
+
+// ---------------------------------------------------------------------------
+// processXML – namespace prefixes
+// ---------------------------------------------------------------------------
+
+/** `xmlns:prefix="uri"`, or a default namespace declaration when `prefix` is empty. */
+function nsDeclaration(prefix: string, uri: string): string {
+    return `${prefix ? `xmlns:${prefix}` : "xmlns"}="${uri}"`;
+}
+
+/** A complete assertion whose elements use `prefix`; `declare` controls where it is bound. */
+function buildPrefixedAssertionXML(prefix: string, declare = true): string {
+    const p = prefix ? `${prefix}:` : "";
+    const declaration = declare ? nsDeclaration(prefix, NS.saml) : "";
+    const window = `NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"`;
+    return `<${p}Assertion ${declaration} ID="_a1" Version="2.0">` +
+        `<${p}Issuer>${IDP_ENTITY_ID}</${p}Issuer>` +
+        `<${p}Subject><${p}NameID>alice@example.com</${p}NameID></${p}Subject>` +
+        `<${p}Conditions ${window}/>` +
+        `<${p}AuthnStatement SessionIndex="_s1"/>` +
+        `<${p}AttributeStatement><${p}Attribute Name="role">` +
+        `<${p}AttributeValue>admin</${p}AttributeValue>` +
+        `</${p}Attribute></${p}AttributeStatement>` +
+        `</${p}Assertion>`;
+}
+
+/** Wraps `inner` in a Success Response whose protocol elements use `prefix`. */
+function buildPrefixedResponseXML(prefix: string, inner: string, extraDeclarations = ""): string {
+    const p = prefix ? `${prefix}:` : "";
+    const declarations = `${nsDeclaration(prefix, NS.samlp)} ${extraDeclarations}`;
+    return `<${p}Response ${declarations} ID="_r1" Version="2.0">` +
+        `<${p}Status><${p}StatusCode Value="${STATUS.success}"/></${p}Status>` +
+        inner +
+        `</${p}Response>`;
+}
+
+function encryptXML(xml: string, keys: KeyPair): Promise<string> {
+    return new Promise((resolve, reject) => {
+        xmlenc.encrypt(
+            xml,
+            {
+                rsa_pub: crypto.createPublicKey(keys.certificate).export({
+                    type: "spki",
+                    format: "pem",
+                }),
+                pem: keys.certificate,
+                encryptionAlgorithm: "http://www.w3.org/2001/04/xmlenc#aes256-cbc",
+                keyEncryptionAlgorithm: "http://www.w3.org/2001/04/xmlenc#rsa-oaep-mgf1p",
+            },
+            (err, result) => (err ? reject(err) : resolve(result))
+        );
+    });
+}
+
+describe("SAMLResponse – processXML – namespace prefixes", () => {
+    let samlResponse: SAMLResponse;
+
+    beforeAll(() => {
+        samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+    });
+
+    function expectParsed(result: Awaited<ReturnType<SAMLResponse["processXML"]>>): void {
+        expect(result).toMatchObject({
+            id: "_a1",
+            issuer: IDP_ENTITY_ID,
+            nameID: "alice@example.com",
+            sessionIndex: "_s1",
+            attributes: { role: ["admin"] },
+            notOnOrAfter: FUTURE,
+        });
+        expect(parseXML(result.xml).documentElement!.namespaceURI).toBe(NS.saml);
+    }
+
+    const RESPONSE_PREFIXES = ["samlp", "saml2p", "ns1", ""];
+    const ASSERTION_PREFIXES = ["saml", "saml2", "ns2", ""];
+    const matrix = RESPONSE_PREFIXES.flatMap((responsePrefix) =>
+        ASSERTION_PREFIXES.map((assertionPrefix) => [responsePrefix, assertionPrefix])
+    );
+
+    it.each(matrix)("parses a %p Response with a %p Assertion", async (rp, ap) => {
+        const xml = buildPrefixedResponseXML(rp, buildPrefixedAssertionXML(ap));
+        expectParsed(await samlResponse.processXML(xml));
+    });
+
+    it.each(ASSERTION_PREFIXES.filter(Boolean))(
+        "parses a %p Assertion whose prefix is bound on the Response",
+        async (ap) => {
+            const xml = buildPrefixedResponseXML(
+                "samlp",
+                buildPrefixedAssertionXML(ap, false),
+                nsDeclaration(ap, NS.saml)
+            );
+            expectParsed(await samlResponse.processXML(xml));
+        }
+    );
+
+    it.each(ASSERTION_PREFIXES)("parses a bare %p Assertion", async (ap) => {
+        expectParsed(await samlResponse.processXML(buildPrefixedAssertionXML(ap)));
+    });
+
+    it.each(ASSERTION_PREFIXES)("decrypts a %p EncryptedAssertion", async (ap) => {
+        const p = ap ? `${ap}:` : "";
+        const encrypted = await encryptXML(buildPrefixedAssertionXML(ap), sharedKeys);
+        const xml = buildPrefixedResponseXML(
+            "samlp",
+            `<${p}EncryptedAssertion ${nsDeclaration(ap, NS.saml)}>` +
+                encrypted +
+                `</${p}EncryptedAssertion>`
+        );
+        expectParsed(await samlResponse.processXML(xml));
+    });
+
+    it("returns typed attribute details next to the simple view", async () => {
+        const result = await samlResponse.processXML(
+            buildPrefixedResponseXML("samlp", buildPrefixedAssertionXML("saml"))
+        );
+        expect(result.attributeDetails).toEqual([
+            {
+                name: "role",
+                friendlyName: null,
+                nameFormat: null,
+                values: [{ type: "string", value: "admin", xsiType: null }],
+            },
+        ]);
+    });
+
+    it("ignores elements with a SAML local name in another namespace", async () => {
+        const assertion = buildPrefixedAssertionXML("saml").replace(
+            "</saml:AttributeStatement>",
+            `<x:Attribute xmlns:x="urn:example:other" Name="role">` +
+                "<x:AttributeValue>root</x:AttributeValue>" +
+                "</x:Attribute></saml:AttributeStatement>"
+        );
+        const result = await samlResponse.processXML(buildPrefixedResponseXML("samlp", assertion));
+        expect(result.attributes).toEqual({ role: ["admin"] });
+    });
+
+    it("rejects an Assertion in the wrong namespace", async () => {
+        const xml = buildPrefixedResponseXML(
+            "samlp",
+            buildPrefixedAssertionXML("saml", false),
+            `xmlns:saml="urn:oasis:names:tc:SAML:1.0:assertion"`
+        );
+        await expect(samlResponse.processXML(xml)).rejects.toMatchObject({
+            code: "ASSERTION_MISSING",
+        });
+    });
+
+    it("only takes an Assertion that is a direct child of the Response", async () => {
+        const xml = buildPrefixedResponseXML(
+            "samlp",
+            `<samlp:Extensions>${buildPrefixedAssertionXML("saml")}</samlp:Extensions>`
+        );
+        await expect(samlResponse.processXML(xml)).rejects.toMatchObject({
+            code: "ASSERTION_MISSING",
+        });
+    });
+
+    it("rejects a document that is neither a Response nor an Assertion", async () => {
+        const xml = buildPrefixedResponseXML("", buildPrefixedAssertionXML("saml")).replace(
+            NS.samlp,
+            "urn:example:other"
+        );
+        await expect(samlResponse.processXML(xml)).rejects.toBeInstanceOf(MalformedXMLError);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// processXML – EncryptedID and EncryptedAttribute
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – processXML – EncryptedID and EncryptedAttribute", () => {
+    const SAML = `xmlns:saml="${NS.saml}"`;
+
+    /** An assertion whose NameID and `mail` attribute are encrypted for `keys`. */
+    async function buildEncryptedPartsXML(keys: KeyPair): Promise<string> {
+        const nameID = await encryptXML(
+            `<saml:NameID ${SAML} Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent">` +
+                "abc123</saml:NameID>",
+            keys
+        );
+        const mail = await encryptXML(
+            `<saml:Attribute ${SAML} Name="mail" FriendlyName="mail">` +
+                "<saml:AttributeValue>alice@example.com</saml:AttributeValue></saml:Attribute>",
+            keys
+        );
+        const window = `NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"`;
+        return `<saml:Assertion ${SAML} ID="_a1" Version="2.0">` +
+            `<saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer>` +
+            `<saml:Subject><saml:EncryptedID>${nameID}</saml:EncryptedID></saml:Subject>` +
+            `<saml:Conditions ${window}/>` +
+            "<saml:AttributeStatement>" +
+            `<saml:Attribute Name="role">` +
+            "<saml:AttributeValue>admin</saml:AttributeValue></saml:Attribute>" +
+            `<saml:EncryptedAttribute>${mail}</saml:EncryptedAttribute>` +
+            "</saml:AttributeStatement>" +
+            "</saml:Assertion>";
+    }
+
+    it("decrypts an EncryptedID into the NameID", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const result = await samlResponse.processXML(await buildEncryptedPartsXML(sharedKeys));
+        expect(result.nameID).toBe("abc123");
+        expect(result.nameIDFormat).toBe("urn:oasis:names:tc:SAML:2.0:nameid-format:persistent");
+        expect(result.xml).not.toContain("EncryptedID");
+    });
+
+    it("decrypts EncryptedAttributes alongside plaintext ones", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const result = await samlResponse.processXML(await buildEncryptedPartsXML(sharedKeys));
+        expect(result.attributes).toEqual({ role: ["admin"], mail: ["alice@example.com"] });
+        expect(result.attributeDetails[1]).toMatchObject({ name: "mail", friendlyName: "mail" });
+    });
+
+    it("verifies the signature over the encrypted form before decrypting", async () => {
+        const doc = parseXML(await buildEncryptedPartsXML(sharedKeys));
+        const assertion = doc.documentElement!;
+        signElement(assertion, idpKeys, assertion.getElementsByTagNameNS(NS.saml, "Issuer")[0]);
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+            requireSignedAssertion: true,
+        });
+        const result = await samlResponse.processXML(new XMLSerializer().serializeToString(doc));
+        expect(result.signed.assertion).toBe(true);
+        expect(result.nameID).toBe("abc123");
+    });
+
+    it("throws DecryptionError when the SP key cannot decrypt", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const xml = await buildEncryptedPartsXML(idpKeys);
+        await expect(samlResponse.processXML(xml)).rejects.toBeInstanceOf(DecryptionError);
+    });
+
+    it("rejects an EncryptedID that does not decrypt to an identifier", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const wrong = await encryptXML(`<saml:Issuer ${SAML}>x</saml:Issuer>`, sharedKeys);
+        const xml = buildPrefixedAssertionXML("saml").replace(
+            "<saml:NameID>alice@example.com</saml:NameID>",
+            `<saml:EncryptedID>${wrong}</saml:EncryptedID>`
+        );
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "EncryptedID does not contain a saml:NameID or saml:BaseID."
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// processXML – decryption key rollover
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – processXML – key rollover", () => {
+    let nextKeys: KeyPair;
+
+    beforeAll(async () => {
+        nextKeys = await ServiceProvider.generateKeys(2048);
+    });
+
+    async function encryptedResponseXML(keys: KeyPair): Promise<string> {
+        const encrypted = await encryptXML(buildPrefixedAssertionXML("saml"), keys);
+        return buildPrefixedResponseXML(
+            "samlp",
+            `<saml:EncryptedAssertion ${nsDeclaration("saml", NS.saml)}>` +
+                encrypted +
+                "</saml:EncryptedAssertion>"
+        );
+    }
+
+    it("rejects privateKey together with keys", () => {
+        expect(
+            () => new SAMLResponse({ privateKey: sharedKeys.privateKey, keys: [sharedKeys] })
+        ).toThrow("either privateKey or keys");
+    });
+
+    it("rejects an empty key set", () => {
+        expect(() => new SAMLResponse({ keys: [] })).toThrow("privateKey is required");
+    });
+
+    it.each(["next", "retiring"] as const)("decrypts with a %s key", async (status) => {
+        const samlResponse = new SAMLResponse({
+            keys: [sharedKeys, { ...nextKeys, status }],
+        });
+        const result = await samlResponse.processXML(await encryptedResponseXML(nextKeys));
+        expect(result.nameID).toBe("alice@example.com");
+    });
+
+    it("tries keys that carry no certificate", async () => {
+        const samlResponse = new SAMLResponse({
+            keys: [{ privateKey: sharedKeys.privateKey }, { privateKey: nextKeys.privateKey }],
+        });
+        const result = await samlResponse.processXML(await encryptedResponseXML(nextKeys));
+        expect(result.nameID).toBe("alice@example.com");
+    });
+
+    it("accepts the key set of a ServiceProvider", async () => {
+        const sp = new ServiceProvider({
+            assertionEndpoint: ACS_URL,
+            keys: [{ ...nextKeys, status: "next" }, sharedKeys],
+        });
+        const samlResponse = new SAMLResponse({ keys: sp.keys });
+        const result = await samlResponse.processXML(await encryptedResponseXML(nextKeys));
+        expect(result.nameID).toBe("alice@example.com");
+    });
+
+    it("throws DecryptionError once every key has failed", async () => {
+        const samlResponse = new SAMLResponse({
+            keys: [sharedKeys, { ...nextKeys, status: "next" }],
+        });
+        const xml = await encryptedResponseXML(idpKeys);
+        await expect(samlResponse.processXML(xml)).rejects.toMatchObject({
+            code: "DECRYPTION_FAILED",
+            message: expect.stringContaining("Decryption failed with all 2 SP keys"),
+        });
+    });
+});
+
 // ---------------------------------------------------------------------------
 // processXML – timestamp validation
 // ---------------------------------------------------------------------------
@@ -244,7 +782,7 @@ describe("SAMLResponse – processXML – timestamp validation", () => {
     });
 
     it("accepts an assertion with no Conditions element", async () => {
-        const xml = `<Assertion><Subject><NameID>user@example.com</NameID></Subject></Assertion>`;
+        const xml = `<Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion"><Subject><NameID>user@example.com</NameID></Subject></Assertion>`;
         const result = await samlResponse.processXML(xml);
         expect(result?.notBefore).toBeNull();
         expect(result?.notOnOrAfter).toBeNull();
@@ -252,7 +790,7 @@ describe("SAMLResponse – processXML – timestamp validation", () => {
 
     it("accepts an assertion with Conditions but no timestamp attributes", async () => {
         const xml = `
-      <Assertion>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">
         <Conditions></Conditions>
         <Subject><NameID>user@example.com</NameID></Subject>
       </Assertion>
@@ -260,6 +798,29 @@ describe("SAMLResponse – processXML – timestamp validation", () => {
         await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
     });
 
+    it.each([
+        ["Conditions", `<Conditions NotOnOrAfter="tomorrow"/>`],
+        ["AuthnStatement", `<AuthnStatement AuthnInstant="2024-02-30T00:00:00Z"/>`],
+        ["AuthnStatement", `<AuthnStatement SessionNotOnOrAfter="2030-01-01"/>`],
+    ])("throws MalformedXMLError for an unparsable %s timestamp", async (element, child) => {
+        const xml =
+            `<Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">${child}` +
+            `<Subject><NameID>user@example.com</NameID></Subject></Assertion>`;
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            new RegExp(`^${element} \\w+ is not a valid xs:dateTime`)
+        );
+        await expect(samlResponse.processXML(xml)).rejects.toBeInstanceOf(MalformedXMLError);
+    });
+
+    it("reads a timestamp without a zone as UTC", async () => {
+        const xml =
+            `<Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">` +
+            `<Conditions NotBefore="2000-01-01T00:00:00"/>` +
+            `<Subject><NameID>user@example.com</NameID></Subject></Assertion>`;
+        const result = await samlResponse.processXML(xml);
+        expect(result.notBefore).toEqual(new Date("2000-01-01T00:00:00Z"));
+    });
+
     it("populates notBefore and notOnOrAfter on the result", async () => {
         const xml = buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE });
         const result = await samlResponse.processXML(xml);
@@ -269,75 +830,1064 @@ describe("SAMLResponse – processXML – timestamp validation", () => {
 });
 
 // ---------------------------------------------------------------------------
-// processRequest
+// processXML – clock skew
 // ---------------------------------------------------------------------------
 
-describe("SAMLResponse – processRequest", () => {
-    let samlResponse: SAMLResponse;
+describe("SAMLResponse – processXML – clock skew and injected clock", () => {
+    const SECOND = 1000;
 
-    beforeAll(() => {
-        samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+    it("accepts an assertion whose NotBefore is within clockSkewMs in the future", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            clockSkewMs: 5 * SECOND,
+        });
+        const xml = buildAssertionXML({
+            notBefore: new Date(Date.now() + 2 * SECOND),
+            notOnOrAfter: FUTURE,
+        });
+        await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
     });
 
-    it("rejects non-POST requests", async () => {
-        const req = mockGetRequest();
-        await expect(samlResponse.processRequest(req)).rejects.toThrow(
-            "HTTP POST"
-        );
+    it("accepts an assertion whose NotOnOrAfter passed within clockSkewMs", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            clockSkewMs: 5 * SECOND,
+        });
+        const xml = buildAssertionXML({
+            notBefore: PAST,
+            notOnOrAfter: new Date(Date.now() - 2 * SECOND),
+        });
+        await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
     });
 
-    it("returns null when SAMLResponse param is absent", async () => {
-        const req = mockPostRequest("foo=bar");
-        const result = await samlResponse.processRequest(req);
-        expect(result).toBeNull();
+    it("still rejects an assertion beyond clockSkewMs", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            clockSkewMs: 5 * SECOND,
+        });
+        const xml = buildAssertionXML({
+            notBefore: new Date(Date.now() + 10 * SECOND),
+            notOnOrAfter: FUTURE,
+        });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Assertion not yet valid");
     });
 
-    it("parses a valid POST body and returns an assertion", async () => {
-        const assertionXML = buildAssertionXML({
-            notBefore: PAST,
-            notOnOrAfter: FUTURE,
-            nameID: "dave@example.com",
+    it("applies clockSkewMs to SubjectConfirmationData NotOnOrAfter", async () => {
+        const sp = new ServiceProvider({
+            assertionEndpoint: ACS_URL,
+            entityID: SP_ENTITY_ID,
+            ...sharedKeys,
         });
-        const body = buildPostBody(assertionXML);
-        const req = mockPostRequest(body);
+        const xml = buildProfileResponseXML({
+            confirmationNotOnOrAfter: new Date(Date.now() - 2 * SECOND),
+        });
+        const strict = new SAMLResponse({ privateKey: sharedKeys.privateKey, serviceProvider: sp });
+        const tolerant = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            serviceProvider: sp,
+            clockSkewMs: 5 * SECOND,
+        });
+        await expect(strict.processXML(xml)).rejects.toThrow("SubjectConfirmationData expired");
+        await expect(tolerant.processXML(xml)).resolves.not.toBeNull();
+    });
 
-        const result = await samlResponse.processRequest(req);
-        expect(result?.nameID).toBe("dave@example.com");
+    it("rejects an assertion whose SessionNotOnOrAfter has passed", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const xml = `<saml2:Assertion xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion">
+      <saml2:AuthnStatement SessionIndex="_s1" SessionNotOnOrAfter="${PAST.toISOString()}"/>
+    </saml2:Assertion>`;
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Session has expired");
     });
 
-    it("handles a chunked POST body correctly", async () => {
-        const assertionXML = buildAssertionXML({
-            notBefore: PAST,
-            notOnOrAfter: FUTURE,
-            nameID: "eve@example.com",
+    it("evaluates every window against an injected clock", async () => {
+        const xml = buildAssertionXML({
+            notBefore: new Date("2020-01-01T00:00:00Z"),
+            notOnOrAfter: new Date("2020-01-01T00:05:00Z"),
         });
-        const body = buildPostBody(assertionXML);
+        const at = (iso: string): SAMLResponse =>
+            new SAMLResponse({ privateKey: sharedKeys.privateKey, now: () => new Date(iso) });
 
-        const emitter = new EventEmitter() as any;
-        emitter.method = "POST";
+        await expect(at("2020-01-01T00:01:00Z").processXML(xml)).resolves.not.toBeNull();
+        await expect(at("2019-12-31T23:59:59Z").processXML(xml)).rejects.toThrow(
+            "Assertion not yet valid"
+        );
+        await expect(at("2020-01-01T00:05:00Z").processXML(xml)).rejects.toThrow(
+            "Assertion has expired"
+        );
+    });
 
-        // Emit data in two chunks
-        process.nextTick(() => {
-            const mid = Math.floor(body.length / 2);
-            emitter.emit("data", Buffer.from(body.slice(0, mid)));
-            emitter.emit("data", Buffer.from(body.slice(mid)));
-            emitter.emit("end");
+    it("rejects a negative clockSkewMs", () => {
+        expect(
+            () => new SAMLResponse({ privateKey: sharedKeys.privateKey, clockSkewMs: -1 })
+        ).toThrow("clockSkewMs must be a non-negative number.");
+    });
+});
+
+// ---------------------------------------------------------------------------
+// processXML – signature verification
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – processXML – signature verification", () => {
+    it("reports nothing as signed when no IdP certificate is configured", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const xml = buildSignedResponseXML({ signAssertion: true, keys: idpKeys });
+        const result = await samlResponse.processXML(xml);
+        expect(result?.signed).toEqual({ response: false, assertion: false });
+    });
+
+    it("accepts a signed Assertion and reports it", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
         });
+        const xml = buildSignedResponseXML({ signAssertion: true, keys: idpKeys });
+        const result = await samlResponse.processXML(xml);
+        expect(result?.signed).toEqual({ response: false, assertion: true });
+    });
 
-        const result = await samlResponse.processRequest(emitter);
-        expect(result?.nameID).toBe("eve@example.com");
+    it("accepts a signed Response and reports it", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        });
+        const xml = buildSignedResponseXML({ signResponse: true, keys: idpKeys });
+        const result = await samlResponse.processXML(xml);
+        expect(result?.signed).toEqual({ response: true, assertion: false });
     });
 
-    it("propagates stream errors as rejected promises", async () => {
-        const emitter = new EventEmitter() as any;
-        emitter.method = "POST";
+    it("accepts a Response and Assertion that are both signed", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+            requireSignedAssertion: true,
+            requireSignedResponse: true,
+        });
+        const xml = buildSignedResponseXML({
+            signResponse: true,
+            signAssertion: true,
+            keys: idpKeys,
+        });
+        const result = await samlResponse.processXML(xml);
+        expect(result?.signed).toEqual({ response: true, assertion: true });
+    });
 
-        process.nextTick(() => {
-            emitter.emit("error", new Error("Stream exploded"));
+    it("rejects an unsigned response when an IdP certificate is configured", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
         });
+        const xml = buildSignedResponseXML({ keys: idpKeys });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Neither the Response");
+    });
 
-        await expect(samlResponse.processRequest(emitter)).rejects.toThrow(
-            "Stream exploded"
+    it("rejects a response signed by an untrusted key", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        });
+        const xml = buildSignedResponseXML({ signAssertion: true, keys: sharedKeys });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "Signature verification failed"
         );
     });
-});
\ No newline at end of file
+
+    it("rejects a tampered signed Assertion", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        });
+        const xml = buildSignedResponseXML({
+            signAssertion: true,
+            keys: idpKeys,
+            nameID: "alice@example.com",
+        }).replace("alice@example.com", "admin@example.com");
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Digest mismatch");
+    });
+
+    it("enforces requireSignedAssertion when only the Response is signed", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+            requireSignedAssertion: true,
+        });
+        const xml = buildSignedResponseXML({ signResponse: true, keys: idpKeys });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Assertion is not signed");
+    });
+
+    it("enforces requireSignedResponse when only the Assertion is signed", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+            requireSignedResponse: true,
+        });
+        const xml = buildSignedResponseXML({ signAssertion: true, keys: idpKeys });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Response is not signed");
+    });
+
+    it.each(["requireSignedAssertion", "requireSignedResponse"])(
+        "refuses %s without any trusted certificate at construction",
+        (option) => {
+            expect(
+                () => new SAMLResponse({ privateKey: sharedKeys.privateKey, [option]: true })
+            ).toThrow(
+                "idpCertificates, idpFingerprints or an identityProvider with signing " +
+                    "certificates are required to verify signatures."
+            );
+        }
+    );
+});
+
+// ---------------------------------------------------------------------------
+// processXML – samlp:Status
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – processXML – samlp:Status", () => {
+    function buildStatusResponseXML(status: string, assertion = ""): string {
+        return `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="_response1" Version="2.0">
+    <saml2:Issuer>https://idp.example.com</saml2:Issuer>
+    <samlp:Status>${status}</samlp:Status>
+    ${assertion}
+  </samlp:Response>`;
+    }
+
+    async function statusErrorOf(xml: string): Promise<StatusError> {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        try {
+            await samlResponse.processXML(xml);
+        } catch (err) {
+            if (err instanceof StatusError) return err;
+            throw err;
+        }
+        throw new Error("Expected a StatusError.");
+    }
+
+    it("throws StatusError with the top-level and nested status codes", async () => {
+        const error = await statusErrorOf(
+            buildStatusResponseXML(
+                `<samlp:StatusCode Value="${STATUS.responder}"><samlp:StatusCode Value="${STATUS.noPassive}"/></samlp:StatusCode>`
+            )
+        );
+        expect(error.code).toBe("IDP_STATUS_ERROR");
+        expect(error.statusCodes).toEqual([STATUS.responder, STATUS.noPassive]);
+        expect(error.hasStatus(STATUS.noPassive)).toBe(true);
+        expect(error.hasStatus(STATUS.authnFailed)).toBe(false);
+    });
+
+    it("carries StatusMessage and StatusDetail", async () => {
+        const error = await statusErrorOf(
+            buildStatusResponseXML(
+                `<samlp:StatusCode Value="${STATUS.requester}"><samlp:StatusCode Value="${STATUS.requestDenied}"/></samlp:StatusCode>` +
+                    `<samlp:StatusMessage> User cancelled sign-in </samlp:StatusMessage>` +
+                    `<samlp:StatusDetail><Cause xmlns="urn:example:idp">mfa_required</Cause></samlp:StatusDetail>`
+            )
+        );
+        expect(error.statusMessage).toBe("User cancelled sign-in");
+        expect(error.statusDetail).toBe(`<Cause xmlns="urn:example:idp">mfa_required</Cause>`);
+        expect(error.message).toContain("User cancelled sign-in");
+    });
+
+    it("reports a missing StatusCode as a failure", async () => {
+        const error = await statusErrorOf(buildStatusResponseXML(""));
+        expect(error.statusCodes).toEqual([]);
+    });
+
+    it("rejects a non-Success response even when it carries an assertion", async () => {
+        const assertion = `<saml2:Assertion ID="_a1"><saml2:Subject><saml2:NameID>alice</saml2:NameID></saml2:Subject></saml2:Assertion>`;
+        const error = await statusErrorOf(
+            buildStatusResponseXML(
+                `<samlp:StatusCode Value="${STATUS.responder}"><samlp:StatusCode Value="${STATUS.authnFailed}"/></samlp:StatusCode>`,
+                assertion
+            )
+        );
+        expect(error.statusCodes).toEqual([STATUS.responder, STATUS.authnFailed]);
+    });
+
+    it("returns the Success status with the assertion", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const result = await samlResponse.processXML(
+            buildStatusResponseXML(
+                `<samlp:StatusCode Value="${STATUS.success}"/>`,
+                `<saml2:Assertion ID="_a1"><saml2:Subject><saml2:NameID>alice</saml2:NameID></saml2:Subject></saml2:Assertion>`
+            )
+        );
+        expect(result.status).toEqual({ codes: [STATUS.success], message: null, detail: null });
+    });
+
+    it("reports no status for a bare assertion", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const result = await samlResponse.processXML(
+            buildAssertionXML({ tagPrefix: "saml2", notOnOrAfter: FUTURE })
+        );
+        expect(result.status).toBeNull();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Error codes
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – typed errors", () => {
+    async function rejectionOf(promise: Promise<unknown>): Promise<unknown> {
+        try {
+            await promise;
+        } catch (err) {
+            return err;
+        }
+        throw new Error("Expected the promise to reject.");
+    }
+
+    it("throws MalformedXMLError for unparsable input", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const error = await rejectionOf(samlResponse.processXML("<samlp:Response>"));
+        expect(error).toBeInstanceOf(MalformedXMLError);
+        expect(error).toBeInstanceOf(SAMLError);
+        expect(error).toMatchObject({ code: "MALFORMED_XML", name: "MalformedXMLError" });
+    });
+
+    it("throws TimeWindowError with the window and the current time", async () => {
+        const now = new Date("2020-01-01T01:00:00Z");
+        const notOnOrAfter = new Date("2020-01-01T00:05:00Z");
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey, now: () => now });
+        const xml = buildAssertionXML({ notBefore: new Date("2020-01-01T00:00:00Z"), notOnOrAfter });
+        const error = await rejectionOf(samlResponse.processXML(xml));
+        expect(error).toBeInstanceOf(TimeWindowError);
+        expect(error).toMatchObject({ code: "ASSERTION_EXPIRED", notOnOrAfter, now });
+    });
+
+    it("throws DecryptionError when an EncryptedAssertion cannot be decrypted", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const xml = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion"><saml2:EncryptedAssertion><xenc:EncryptedData xmlns:xenc="http://www.w3.org/2001/04/xmlenc#"/></saml2:EncryptedAssertion></samlp:Response>`;
+        const error = await rejectionOf(samlResponse.processXML(xml));
+        expect(error).toBeInstanceOf(DecryptionError);
+        expect(error).toMatchObject({ code: "DECRYPTION_FAILED" });
+    });
+
+    it("throws SignatureError with SIGNATURE_INVALID for a tampered assertion", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        });
+        const xml = buildSignedResponseXML({ signAssertion: true, keys: idpKeys }).replace(
+            "user@example.com",
+            "admin@example.com"
+        );
+        const error = await rejectionOf(samlResponse.processXML(xml));
+        expect(error).toBeInstanceOf(SignatureError);
+        expect(error).toMatchObject({ code: "SIGNATURE_INVALID" });
+    });
+
+    it("throws SignatureError with SIGNATURE_MISSING for an unsigned response", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        });
+        const error = await rejectionOf(
+            samlResponse.processXML(buildSignedResponseXML({ keys: idpKeys }))
+        );
+        expect(error).toMatchObject({ code: "SIGNATURE_MISSING" });
+    });
+
+    it("throws ValidationError with the expected and actual audience", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            serviceProvider: new ServiceProvider({
+                assertionEndpoint: ACS_URL,
+                entityID: SP_ENTITY_ID,
+                ...sharedKeys,
+            }),
+        });
+        const xml = buildProfileResponseXML({ audiences: [["https://other-sp.example.com"]] });
+        const error = await rejectionOf(samlResponse.processXML(xml));
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({
+            code: "AUDIENCE_MISMATCH",
+            expected: SP_ENTITY_ID,
+            actual: "https://other-sp.example.com",
+        });
+    });
+
+    it("reports a Recipient-only failure as RECIPIENT_MISMATCH", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            assertionEndpoint: ACS_URL,
+        });
+        const xml = buildProfileResponseXML({ recipient: "https://other-sp.example.com/acs" });
+        const error = await rejectionOf(samlResponse.processXML(xml));
+        expect(error).toMatchObject({
+            code: "RECIPIENT_MISMATCH",
+            expected: ACS_URL,
+            actual: "https://other-sp.example.com/acs",
+        });
+    });
+
+    it("throws BindingError for a GET request", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const error = await rejectionOf(samlResponse.processRequest(mockGetRequest()));
+        expect(error).toBeInstanceOf(BindingError);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// processRequest
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – processXML – InResponseTo correlation", () => {
+    async function storeWith(...ids: string[]): Promise<InMemoryRequestStore> {
+        const store = new InMemoryRequestStore();
+        for (const id of ids) await store.save(id);
+        return store;
+    }
+
+    it("accepts a response to an outstanding request", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            requestStore: await storeWith("_req1"),
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys, inResponseTo: "_req1" });
+        await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
+    });
+
+    it("consumes the request ID so the same response cannot be used twice", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            requestStore: await storeWith("_req1"),
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys, inResponseTo: "_req1" });
+        await samlResponse.processXML(xml);
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "does not match an outstanding request"
+        );
+    });
+
+    it("rejects an InResponseTo the SP never issued", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            requestStore: await storeWith("_req1"),
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys, inResponseTo: "_other" });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "InResponseTo _other does not match an outstanding request."
+        );
+    });
+
+    it("rejects unsolicited responses by default", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            requestStore: await storeWith("_req1"),
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("Unsolicited response rejected");
+    });
+
+    it("accepts unsolicited responses when allowUnsolicited is set", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            requestStore: await storeWith(),
+            allowUnsolicited: true,
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys });
+        await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
+    });
+
+    it("rejects a response whose InResponseTo values disagree", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            requestStore: await storeWith("_req1", "_req2"),
+        });
+        const xml = buildSignedResponseXML({
+            keys: idpKeys,
+            inResponseTo: "_req1",
+            confirmationInResponseTo: "_req2",
+        });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow("InResponseTo values disagree");
+    });
+
+    it("skips correlation when no request store is configured", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const xml = buildSignedResponseXML({ keys: idpKeys, inResponseTo: "_unknown" });
+        await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
+    });
+});
+
+describe("SAMLResponse – processXML – replay protection", () => {
+    it("accepts an assertion the first time", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            replayCache: new InMemoryReplayCache(),
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys });
+        await expect(samlResponse.processXML(xml)).resolves.not.toBeNull();
+    });
+
+    it("rejects a second submission with a ReplayError", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            replayCache: new InMemoryReplayCache(),
+        });
+        const xml = buildSignedResponseXML({ keys: idpKeys });
+        await samlResponse.processXML(xml);
+        const replay = samlResponse.processXML(xml);
+        await expect(replay).rejects.toBeInstanceOf(ReplayError);
+        await expect(replay).rejects.toMatchObject({ assertionID: "_assertion1" });
+    });
+
+    it("keeps the entry until the later of the Conditions and SubjectConfirmationData expiries", async () => {
+        const saveIfAbsent = jest.fn().mockResolvedValue(true);
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            replayCache: { saveIfAbsent },
+        });
+        const later = new Date(FUTURE.getTime() + 1000 * 60);
+        const xml = buildSignedResponseXML({ keys: idpKeys, confirmationNotOnOrAfter: later });
+        await samlResponse.processXML(xml);
+        expect(saveIfAbsent).toHaveBeenCalledWith("_assertion1", later);
+    });
+
+    it("keeps the entry until Conditions NotOnOrAfter when that is the only expiry", async () => {
+        const saveIfAbsent = jest.fn().mockResolvedValue(true);
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            replayCache: { saveIfAbsent },
+        });
+        await samlResponse.processXML(buildSignedResponseXML({ keys: idpKeys }));
+        expect(saveIfAbsent).toHaveBeenCalledWith("_assertion1", FUTURE);
+    });
+
+    it("rejects an assertion without an ID", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            replayCache: new InMemoryReplayCache(),
+        });
+        const xml = buildAssertionXML({ tagPrefix: "saml2", notOnOrAfter: FUTURE });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "Assertion has no ID, so it cannot be checked for replay."
+        );
+    });
+});
+
+describe("SAMLResponse – processXML – Web Browser SSO profile checks", () => {
+    let sp: ServiceProvider;
+
+    beforeAll(() => {
+        sp = new ServiceProvider({
+            assertionEndpoint: ACS_URL,
+            entityID: SP_ENTITY_ID,
+            ...sharedKeys,
+        });
+    });
+
+    function profileResponse(options: Partial<SAMLResponseOptions> = {}): SAMLResponse {
+        return new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            serviceProvider: sp,
+            idpEntityID: IDP_ENTITY_ID,
+            ...options,
+        });
+    }
+
+    it("accepts a response that satisfies every check", async () => {
+        const result = await profileResponse().processXML(buildProfileResponseXML());
+        expect(result?.nameID).toBe("user@example.com");
+    });
+
+    it("rejects an assertion issued for another SP", async () => {
+        const xml = buildProfileResponseXML({ audiences: [["https://other-sp.example.com"]] });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            `Assertion audience https://other-sp.example.com does not include ${SP_ENTITY_ID}.`
+        );
+    });
+
+    it("requires every AudienceRestriction to include the SP", async () => {
+        const xml = buildProfileResponseXML({
+            audiences: [[SP_ENTITY_ID], ["https://other-sp.example.com"]],
+        });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow("does not include");
+    });
+
+    it("rejects an assertion without an AudienceRestriction", async () => {
+        const xml = buildProfileResponseXML({ audiences: [] });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            "Assertion has no AudienceRestriction."
+        );
+    });
+
+    it("rejects a Response sent to another Destination", async () => {
+        const xml = buildProfileResponseXML({ destination: "https://other-sp.example.com/acs" });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            `Response Destination https://other-sp.example.com/acs does not match ${ACS_URL}.`
+        );
+    });
+
+    it("rejects a signed Response without a Destination", async () => {
+        const xml = buildProfileResponseXML({ destination: null, signWith: idpKeys });
+        const samlResponse = profileResponse({ idpCertificates: [idpKeys.certificate] });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "Signed Response has no Destination."
+        );
+    });
+
+    it("accepts an unsigned Response without a Destination", async () => {
+        const xml = buildProfileResponseXML({ destination: null });
+        await expect(profileResponse().processXML(xml)).resolves.not.toBeNull();
+    });
+
+    it("rejects a Response Issuer other than the IdP", async () => {
+        const xml = buildProfileResponseXML({ responseIssuer: "https://evil.example.com" });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            `Response Issuer https://evil.example.com does not match IdP ${IDP_ENTITY_ID}.`
+        );
+    });
+
+    it("rejects an Assertion without an Issuer", async () => {
+        const xml = buildProfileResponseXML({ assertionIssuer: null });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            `Assertion Issuer null does not match IdP ${IDP_ENTITY_ID}.`
+        );
+    });
+
+    it("takes the expected Issuer from identityProvider", async () => {
+        const idp = new IdentityProvider({ entityID: "https://other-idp.example.com" });
+        const samlResponse = profileResponse({ idpEntityID: undefined, identityProvider: idp });
+        await expect(samlResponse.processXML(buildProfileResponseXML())).rejects.toThrow(
+            "does not match IdP https://other-idp.example.com."
+        );
+    });
+
+    it("rejects a SubjectConfirmation that is not bearer", async () => {
+        const xml = buildProfileResponseXML({
+            method: "urn:oasis:names:tc:SAML:2.0:cm:holder-of-key",
+        });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            "No valid bearer SubjectConfirmation: Method urn:oasis:names:tc:SAML:2.0:cm:holder-of-key is not bearer."
+        );
+    });
+
+    it("rejects a Recipient other than the ACS URL", async () => {
+        const xml = buildProfileResponseXML({ recipient: "https://other-sp.example.com/acs" });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            `Recipient https://other-sp.example.com/acs does not match ${ACS_URL}`
+        );
+    });
+
+    it("rejects an expired SubjectConfirmationData", async () => {
+        const xml = buildProfileResponseXML({ confirmationNotOnOrAfter: PAST });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            "SubjectConfirmationData expired"
+        );
+    });
+
+    it("rejects SubjectConfirmationData without NotOnOrAfter", async () => {
+        const xml = buildProfileResponseXML({ confirmationNotOnOrAfter: null });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            "SubjectConfirmationData has no NotOnOrAfter"
+        );
+    });
+
+    it("rejects SubjectConfirmationData carrying NotBefore", async () => {
+        const xml = buildProfileResponseXML({ confirmationNotBefore: PAST });
+        await expect(profileResponse().processXML(xml)).rejects.toThrow(
+            "SubjectConfirmationData must not carry NotBefore"
+        );
+    });
+
+    it("checks Destination and Recipient against an explicit assertionEndpoint", async () => {
+        const samlResponse = profileResponse({ assertionEndpoint: "https://sp.example.com/acs2" });
+        await expect(samlResponse.processXML(buildProfileResponseXML())).rejects.toThrow(
+            "does not match https://sp.example.com/acs2."
+        );
+    });
+
+    it.each<[keyof AssertionChecks, Parameters<typeof buildProfileResponseXML>[0]]>([
+        ["audience", { audiences: [["https://other-sp.example.com"]] }],
+        ["destination", { destination: "https://other-sp.example.com/acs" }],
+        ["issuer", { assertionIssuer: "https://evil.example.com" }],
+        ["subjectConfirmation", { confirmationNotOnOrAfter: PAST }],
+        ["recipient", { recipient: "https://other-sp.example.com/acs" }],
+    ])("skips the %s check when it is turned off", async (check, override) => {
+        const samlResponse = profileResponse({ checks: { [check]: false } });
+        await expect(
+            samlResponse.processXML(buildProfileResponseXML(override))
+        ).resolves.not.toBeNull();
+    });
+});
+
+describe("SAMLResponse – processRequest", () => {
+    let samlResponse: SAMLResponse;
+
+    beforeAll(() => {
+        samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+    });
+
+    it("rejects non-POST requests", async () => {
+        const req = mockGetRequest();
+        await expect(samlResponse.processRequest(req)).rejects.toThrow(
+            "HTTP POST"
+        );
+    });
+
+    it("throws BINDING_ERROR when SAMLResponse param is absent", async () => {
+        const req = mockPostRequest("foo=bar");
+        await expect(samlResponse.processRequest(req)).rejects.toMatchObject({
+            code: "BINDING_ERROR",
+        });
+    });
+
+    it("parses a valid POST body and returns an assertion", async () => {
+        const assertionXML = buildAssertionXML({
+            notBefore: PAST,
+            notOnOrAfter: FUTURE,
+            nameID: "dave@example.com",
+        });
+        const body = buildPostBody(assertionXML);
+        const req = mockPostRequest(body);
+
+        const result = await samlResponse.processRequest(req);
+        expect(result?.nameID).toBe("dave@example.com");
+    });
+
+    it("handles a chunked POST body correctly", async () => {
+        const assertionXML = buildAssertionXML({
+            notBefore: PAST,
+            notOnOrAfter: FUTURE,
+            nameID: "eve@example.com",
+        });
+        const body = buildPostBody(assertionXML);
+
+        const emitter = new EventEmitter() as any;
+        emitter.method = "POST";
+        emitter.headers = { "content-type": "application/x-www-form-urlencoded" };
+
+        // Emit data in two chunks
+        process.nextTick(() => {
+            const mid = Math.floor(body.length / 2);
+            emitter.emit("data", Buffer.from(body.slice(0, mid)));
+            emitter.emit("data", Buffer.from(body.slice(mid)));
+            emitter.emit("end");
+        });
+
+        const result = await samlResponse.processRequest(emitter);
+        expect(result?.nameID).toBe("eve@example.com");
+    });
+
+    it("propagates stream errors as rejected promises", async () => {
+        const emitter = new EventEmitter() as any;
+        emitter.method = "POST";
+        emitter.headers = { "content-type": "application/x-www-form-urlencoded" };
+
+        process.nextTick(() => {
+            emitter.emit("error", new Error("Stream exploded"));
+        });
+
+        await expect(samlResponse.processRequest(emitter)).rejects.toThrow(
+            "Stream exploded"
+        );
+    });
+
+    it("uses a body already parsed onto req.body", async () => {
+        const body = buildPostBody(
+            buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE, nameID: "fay@example.com" })
+        );
+        const req = mockGetRequest();
+        req.method = "POST";
+        req.readableEnded = true;
+        req.body = Object.fromEntries(new URLSearchParams(body));
+
+        const result = await samlResponse.processRequest(req);
+        expect(result.nameID).toBe("fay@example.com");
+    });
+
+    it("rejects a consumed stream without a parsed body instead of hanging", async () => {
+        const req = mockGetRequest();
+        req.method = "POST";
+        req.readableEnded = true;
+
+        await expect(samlResponse.processRequest(req)).rejects.toThrow(
+            "The request body has already been read."
+        );
+    });
+});
+
+describe("SAMLResponse – processBody and processFetchRequest", () => {
+    let samlResponse: SAMLResponse;
+    let body: string;
+
+    beforeAll(() => {
+        samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const assertionXML = buildAssertionXML({
+            notBefore: PAST,
+            notOnOrAfter: FUTURE,
+            nameID: "gil@example.com",
+        });
+        body = buildPostBody(assertionXML) + "&RelayState=%2Fhome";
+    });
+
+    it.each([
+        ["urlencoded text", () => body],
+        ["a Buffer", () => Buffer.from(body)],
+        ["URLSearchParams", () => new URLSearchParams(body)],
+        ["a parsed object", () => Object.fromEntries(new URLSearchParams(body))],
+    ])("accepts %s", async (_kind, makeBody) => {
+        const result = await samlResponse.processBody(makeBody());
+        expect(result.nameID).toBe("gil@example.com");
+        expect(result.relayState).toBe("/home");
+    });
+
+    it("rejects a repeated SAMLResponse field", async () => {
+        await expect(samlResponse.processBody(`${body}&SAMLResponse=x`)).rejects.toMatchObject({
+            code: "BINDING_ERROR",
+            message: "SAMLResponse appears more than once in the request body.",
+        });
+    });
+
+    it("rejects a field a body parser turned into an array", async () => {
+        const parsed = { SAMLResponse: ["a", "b"] };
+        await expect(samlResponse.processBody(parsed)).rejects.toMatchObject({
+            code: "BINDING_ERROR",
+            message: "SAMLResponse in the request body is not a single string.",
+        });
+    });
+
+    it("reads a Fetch API Request", async () => {
+        const request = new Request(ACS_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body,
+        });
+        const result = await samlResponse.processFetchRequest(request);
+        expect(result.nameID).toBe("gil@example.com");
+    });
+
+    it("rejects a Fetch API GET", async () => {
+        await expect(samlResponse.processFetchRequest(new Request(ACS_URL))).rejects.toMatchObject({
+            code: "BINDING_ERROR",
+        });
+    });
+});
+// ---------------------------------------------------------------------------
+// Hostile input
+// ---------------------------------------------------------------------------
+
+/** A readable POST request whose body arrives in `chunks`, or never when `chunks` is null. */
+function streamingRequest(chunks: string[] | null, headers: Record<string, string> = {}): any {
+    const req = new Readable({ read() {} }) as any;
+    req.method = "POST";
+    req.headers = { "content-type": "application/x-www-form-urlencoded", ...headers };
+    if (chunks) {
+        for (const chunk of chunks) req.push(chunk);
+        req.push(null);
+    }
+    return req;
+}
+
+describe("SAMLResponse – hostile input", () => {
+    let samlResponse: SAMLResponse;
+    let body: string;
+
+    beforeAll(() => {
+        samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            bodyLimits: { maxBytes: 4096, timeoutMs: 50 },
+            xmlLimits: { maxDepth: 16, maxElements: 50 },
+        });
+        body = buildPostBody(buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE }));
+    });
+
+    it("rejects limits that are not positive numbers", () => {
+        const privateKey = sharedKeys.privateKey;
+        expect(() => new SAMLResponse({ privateKey, bodyLimits: { maxBytes: 0 } })).toThrow(
+            "bodyLimits.maxBytes must be a positive number."
+        );
+        expect(() => new SAMLResponse({ privateKey, xmlLimits: { maxDepth: -1 } })).toThrow(
+            "xmlLimits.maxDepth must be a positive number."
+        );
+    });
+
+    it("rejects a declared Content-Length over maxBytes before reading", async () => {
+        const req = streamingRequest(null, { "content-length": "5000" });
+        await expect(samlResponse.processRequest(req)).rejects.toThrow(
+            "The request body exceeds 4096 bytes."
+        );
+    });
+
+    it("stops reading once the body passes maxBytes", async () => {
+        const req = streamingRequest(["SAMLResponse=" + "A".repeat(5000)]);
+        await expect(samlResponse.processRequest(req)).rejects.toThrow(
+            "The request body exceeds 4096 bytes."
+        );
+        expect(req.isPaused()).toBe(true);
+    });
+
+    it("gives up on a body that never finishes", async () => {
+        await expect(samlResponse.processRequest(streamingRequest(null))).rejects.toThrow(
+            "The request body did not arrive within 50 ms."
+        );
+    });
+
+    it("decodes multi-byte characters split across chunks", async () => {
+        const xml = buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE, nameID: "zoë" });
+        const encoded = Buffer.from(
+            `SAMLResponse=${encodeURIComponent(Buffer.from(xml).toString("base64"))}&RelayState=é`
+        );
+        const split = encoded.indexOf(Buffer.from("é")) + 1;
+        const req = streamingRequest(null);
+        req.push(encoded.subarray(0, split));
+        req.push(encoded.subarray(split));
+        req.push(null);
+
+        const result = await samlResponse.processRequest(req);
+        expect(result.nameID).toBe("zoë");
+        expect(result.relayState).toBe("é");
+    });
+
+    it.each([
+        [{ "content-type": "application/json" }, "got application/json"],
+        [{ "content-type": "" }, "got no Content-Type"],
+    ])("rejects a body with Content-Type %j", async (headers, message) => {
+        await expect(
+            samlResponse.processRequest(streamingRequest([body], headers))
+        ).rejects.toMatchObject({
+            code: "BINDING_ERROR",
+            message: expect.stringContaining(message),
+        });
+    });
+
+    it("accepts a Content-Type with a charset parameter", async () => {
+        const req = streamingRequest([body], {
+            "content-type": "application/x-www-form-urlencoded; charset=UTF-8",
+        });
+        expect((await samlResponse.processRequest(req)).nameID).toBe("user@example.com");
+    });
+
+    it("tells a missing SAMLResponse apart from one that is not Base64", async () => {
+        await expect(samlResponse.processBody("RelayState=x")).rejects.toThrow(
+            "No SAMLResponse parameter in the request body."
+        );
+        await expect(samlResponse.processBody("SAMLResponse=PHNhbWw%2A*")).rejects.toThrow(
+            "SAMLResponse is not valid Base64."
+        );
+    });
+
+    it("accepts Base64 wrapped across lines", async () => {
+        const xml = buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE });
+        const wrapped = Buffer.from(xml).toString("base64").replace(/(.{76})/g, "$1\r\n");
+        const result = await samlResponse.processBody({ SAMLResponse: wrapped });
+        expect(result.nameID).toBe("user@example.com");
+    });
+
+    it("rejects a DOCTYPE before any entity is expanded", async () => {
+        const bomb =
+            `<?xml version="1.0"?><!DOCTYPE lolz [<!ENTITY lol "lol">` +
+            `<!ENTITY lol2 "&lol;&lol;&lol;&lol;&lol;&lol;&lol;&lol;&lol;&lol;">]>` +
+            `<samlp:Response xmlns:samlp="${NS.samlp}">&lol2;</samlp:Response>`;
+        await expect(samlResponse.processXML(bomb)).rejects.toMatchObject({
+            code: "MALFORMED_XML",
+            message: "DOCTYPE declarations are not allowed.",
+        });
+    });
+
+    it.each([
+        ["an unquoted attribute", `<samlp:Response xmlns:samlp="${NS.samlp}" ID=_a/>`],
+        ["an undefined entity", `<samlp:Response xmlns:samlp="${NS.samlp}">&foo;</samlp:Response>`],
+        ["content after the root", `<samlp:Response xmlns:samlp="${NS.samlp}"/><extra/>`],
+    ])("rejects %s that the parser would recover from", async (_name, xml) => {
+        const error = await samlResponse.processXML(xml).catch((err) => err);
+        expect(error).toBeInstanceOf(MalformedXMLError);
+        expect(error.message).toMatch(/^Invalid XML: /);
+    });
+
+    it("rejects nesting deeper than maxDepth", async () => {
+        const deep = "<a>".repeat(20) + "</a>".repeat(20);
+        await expect(samlResponse.processXML(deep)).rejects.toThrow(
+            "XML is nested deeper than 16 elements."
+        );
+    });
+
+    it("rejects more elements than maxElements", async () => {
+        const xml = buildAssertionXML({
+            notBefore: PAST,
+            notOnOrAfter: FUTURE,
+            attributes: { groups: Array.from({ length: 60 }, (_, i) => `g${i}`) },
+        });
+        await expect(samlResponse.processXML(xml)).rejects.toThrow(
+            "XML has more than 50 elements."
+        );
+    });
+
+    it("applies maxBytes to a Fetch API Request", async () => {
+        const request = new Request(ACS_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: "SAMLResponse=" + "A".repeat(5000),
+        });
+        await expect(samlResponse.processFetchRequest(request)).rejects.toThrow(
+            "The request body exceeds 4096 bytes."
+        );
+    });
+
+    it("checks the Content-Type of a Fetch API Request", async () => {
+        const request = new Request(ACS_URL, {
+            method: "POST",
+            headers: { "Content-Type": "text/plain" },
+            body,
+        });
+        await expect(samlResponse.processFetchRequest(request)).rejects.toThrow(
+            "got text/plain"
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// RelayState
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – RelayState", () => {
+    const relayState = { secret: "0123456789abcdef0123456789abcdef" };
+
+    function postWithRelayState(value: string): any {
+        const body = buildPostBody(
+            buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE })
+        );
+        return mockPostRequest(`${body}&RelayState=${encodeURIComponent(value)}`);
+    }
+
+    it("returns null when the POST carries no RelayState", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const body = buildPostBody(buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE }));
+        const result = await samlResponse.processRequest(mockPostRequest(body));
+        expect(result.relayState).toBeNull();
+    });
+
+    it("passes the RelayState through unchanged without protection", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
+        const result = await samlResponse.processRequest(postWithRelayState("anything goes"));
+        expect(result.relayState).toBe("anything goes");
+    });
+
+    it("unwraps a RelayState tagged by the same secret", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey, relayState });
+        const encoded = await new RelayStateCodec(relayState).encode("/orders/42");
+        const result = await samlResponse.processRequest(postWithRelayState(encoded));
+        expect(result.relayState).toBe("/orders/42");
+    });
+
+    it("rejects a tampered RelayState", async () => {
+        const samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey, relayState });
+        const encoded = await new RelayStateCodec(relayState).encode("/orders/42");
+        await expect(
+            samlResponse.processRequest(postWithRelayState(encoded.replace("42", "43")))
+        ).rejects.toMatchObject({ code: "RELAY_STATE_INVALID" });
+    });
+
+    it("checks the allowed origins when passed to processXML", async () => {
+        const samlResponse = new SAMLResponse({
+            privateKey: sharedKeys.privateKey,
+            relayState: { allowedOrigins: ["https://app.example.com"] },
+        });
+        const xml = buildAssertionXML({ notBefore: PAST, notOnOrAfter: FUTURE });
+        const result = await samlResponse.processXML(xml, "https://app.example.com/home");
+        expect(result.relayState).toBe("https://app.example.com/home");
+        await expect(
+            samlResponse.processXML(xml, "https://evil.example.com/")
+        ).rejects.toBeInstanceOf(ValidationError);
+    });
+});
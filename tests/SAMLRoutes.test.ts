@@ -0,0 +1,397 @@
+import { inflateRawSync } from "node:zlib";
+import {
+    IdentityProvider,
+    SAMLLogout,
+    SAMLRequest,
+    SAMLResponse,
+    SAMLRoutes,
+    ServiceProvider,
+} from "../src";
+import { buildRedirectURL } from "../src/bindings";
+import { signXML } from "../src/signature";
+import { KeyPair, ParsedAssertion, RouteRequest, SAMLRoutesOptions } from "../src/types";
+import { BINDINGS, NS } from "../src/xml";
+import { MockArtifactResolver } from "./fixtures/artifactResolver";
+
+const IDP_ENTITY_ID = "https://idp.example.com/metadata";
+const IDP_SSO = "https://idp.example.com/sso";
+const IDP_SLO = "https://idp.example.com/slo";
+const SP_SLO = "https://sp.example.com/saml/logout";
+const REDIRECT = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect";
+const POST = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST";
+
+type Native = { user?: string };
+
+let baseOptions: SAMLRoutesOptions<Native>;
+let idpKeys: KeyPair;
+
+beforeAll(async () => {
+    idpKeys = await ServiceProvider.generateKeys(2048);
+    const sp = await ServiceProvider.create({
+        assertionEndpoint: "https://sp.example.com/saml/acs",
+        entityID: "https://sp.example.com/metadata",
+    });
+    const idp = new IdentityProvider({
+        entityID: IDP_ENTITY_ID,
+        singleSignOnServices: [{ binding: REDIRECT, location: IDP_SSO }],
+        singleLogoutServices: [
+            { binding: REDIRECT, location: IDP_SLO },
+            { binding: POST, location: IDP_SLO },
+        ],
+    });
+    baseOptions = {
+        serviceProvider: sp,
+        samlRequest: new SAMLRequest(idp, sp.assertionEndpoint, { signRequests: false }),
+        samlResponse: new SAMLResponse({
+            privateKey: sp.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        }),
+        samlLogout: new SAMLLogout(idp, sp, {
+            logoutEndpoint: SP_SLO,
+            signMessages: false,
+            requireSignedMessages: false,
+        }),
+        basePath: "/saml",
+        onLogin: () => undefined,
+    };
+});
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function responseBody(relayState?: string): string {
+    const xml = signXML(
+        `<samlp:Response xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ID="_response1">` +
+            `<saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer>` +
+            `<saml:Assertion><saml:Subject><saml:NameID>ann@example.com</saml:NameID>` +
+            `</saml:Subject></saml:Assertion></samlp:Response>`,
+        idpKeys,
+        "Issuer"
+    );
+    const params = new URLSearchParams({ SAMLResponse: Buffer.from(xml).toString("base64") });
+    if (relayState !== undefined) params.set("RelayState", relayState);
+    return params.toString();
+}
+
+function idpLogoutRequestXML(): string {
+    return (
+        `<samlp:LogoutRequest xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ` +
+        `ID="_idp_logout_1" Version="2.0" IssueInstant="${new Date().toISOString()}" ` +
+        `Destination="${SP_SLO}"><saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer>` +
+        `<saml:NameID>ann@example.com</saml:NameID></samlp:LogoutRequest>`
+    );
+}
+
+function idpLogoutResponseXML(inResponseTo: string): string {
+    return (
+        `<samlp:LogoutResponse xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ` +
+        `ID="_idp_logout_response_1" Version="2.0" IssueInstant="${new Date().toISOString()}" ` +
+        `Destination="${SP_SLO}" InResponseTo="${inResponseTo}">` +
+        `<saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer>` +
+        `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/>` +
+        `</samlp:Status></samlp:LogoutResponse>`
+    );
+}
+
+function queryOf(url: string): string {
+    return new URL(url).search.slice(1);
+}
+
+function get(query = "", native: Native = {}): RouteRequest<Native> {
+    return { method: "GET", query, body: async () => "", native };
+}
+
+function post(body: string, native: Native = {}): RouteRequest<Native> {
+    return { method: "POST", query: "", body: async () => body, native };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration and matching
+// ---------------------------------------------------------------------------
+
+describe("SAMLRoutes – configuration", () => {
+    it("requires onLogin", () => {
+        expect(() => new SAMLRoutes({ ...baseOptions, onLogin: undefined as any })).toThrow(
+            "onLogin is required."
+        );
+    });
+
+    it("refuses a samlResponse that trusts no IdP certificate", () => {
+        const { serviceProvider } = baseOptions;
+        const samlResponse = new SAMLResponse({ privateKey: serviceProvider.privateKey });
+        expect(() => new SAMLRoutes({ ...baseOptions, samlResponse })).toThrow(
+            "samlResponse needs idpCertificates, idpFingerprints or an identityProvider"
+        );
+    });
+
+    it("rejects paths without a leading slash", () => {
+        expect(() => new SAMLRoutes({ ...baseOptions, paths: { acs: "acs" } })).toThrow(
+            'paths.acs must start with "/", got acs.'
+        );
+        expect(() => new SAMLRoutes({ ...baseOptions, basePath: "saml" })).toThrow(
+            'basePath must start with "/"'
+        );
+    });
+
+    it("matches each route by method and full path", () => {
+        const routes = new SAMLRoutes({ ...baseOptions, paths: { acs: "/consume" } });
+        expect(routes.match("GET", "/saml/metadata")).toBe("metadata");
+        expect(routes.match("get", "/saml/login")).toBe("login");
+        expect(routes.match("POST", "/saml/consume")).toBe("acs");
+        expect(routes.match("GET", "/saml/consume")).toBe("acs");
+        expect(routes.match("PUT", "/saml/consume")).toBeNull();
+        expect(routes.match("POST", "/saml/logout")).toBe("logout");
+        expect(routes.match("GET", "/metadata")).toBeNull();
+    });
+
+    it("mounts the logout route only with samlLogout", () => {
+        const routes = new SAMLRoutes({ ...baseOptions, samlLogout: undefined, basePath: "/" });
+        expect(routes.routes.map((r) => r.path)).toEqual(["/metadata", "/login", "/acs"]);
+        expect(routes.match("GET", "/logout")).toBeNull();
+    });
+
+    it("refuses to handle the logout route without samlLogout", async () => {
+        const routes = new SAMLRoutes({ ...baseOptions, samlLogout: undefined });
+        await expect(routes.handle("logout", get())).rejects.toThrow(
+            "samlLogout is required to serve the logout route."
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Metadata and login
+// ---------------------------------------------------------------------------
+
+describe("SAMLRoutes – metadata and login", () => {
+    it("serves the SP metadata", async () => {
+        const response = await new SAMLRoutes(baseOptions).handle("metadata", get());
+        expect(response.status).toBe(200);
+        expect(response.headers["Content-Type"]).toBe("application/samlmetadata+xml");
+        expect(response.body).toContain("EntityDescriptor");
+    });
+
+    it("redirects to the IdP with a same-site returnTo as RelayState", async () => {
+        const response = await new SAMLRoutes(baseOptions).handle(
+            "login",
+            get("returnTo=%2Forders%2F42")
+        );
+        expect(response.status).toBe(302);
+        const location = new URL(response.headers.Location);
+        expect(location.origin + location.pathname).toBe(IDP_SSO);
+        expect(location.searchParams.get("RelayState")).toBe("/orders/42");
+        expect(location.searchParams.get("SAMLRequest")).toBeTruthy();
+    });
+
+    it.each(["https://evil.example.com/", "//evil.example.com/", "/\t/evil.example.com"])(
+        "drops an off-site returnTo of %s",
+        async (returnTo) => {
+            const response = await new SAMLRoutes(baseOptions).handle(
+                "login",
+                get(`returnTo=${encodeURIComponent(returnTo)}`)
+            );
+            expect(new URL(response.headers.Location).searchParams.has("RelayState")).toBe(false);
+        }
+    );
+});
+
+// ---------------------------------------------------------------------------
+// ACS
+// ---------------------------------------------------------------------------
+
+describe("SAMLRoutes – acs", () => {
+    it("hands the assertion to onLogin and follows a same-site RelayState", async () => {
+        const seen: [ParsedAssertion, Native][] = [];
+        const native = { user: "before" };
+        const routes = new SAMLRoutes<Native>({
+            ...baseOptions,
+            onLogin: (assertion, req) => {
+                seen.push([assertion, req]);
+            },
+        });
+        const response = await routes.handle("acs", post(responseBody("/orders/42"), native));
+        expect(seen[0][0].nameID).toBe("ann@example.com");
+        expect(seen[0][1]).toBe(native);
+        expect(response).toEqual({ status: 303, headers: { Location: "/orders/42" }, body: "" });
+    });
+
+    it.each(["https://evil.example.com/", "/\\evil.example.com", "/\n/evil.example.com"])(
+        "sends an off-site RelayState of %s to defaultRedirect",
+        async (relayState) => {
+            const routes = new SAMLRoutes({ ...baseOptions, defaultRedirect: "/home" });
+            const response = await routes.handle("acs", post(responseBody(relayState)));
+            expect(response.headers.Location).toBe("/home");
+        }
+    );
+
+    it("redirects to a path onLogin returns", async () => {
+        const routes = new SAMLRoutes({ ...baseOptions, onLogin: async () => "/welcome" });
+        const response = await routes.handle("acs", post(responseBody("/orders/42")));
+        expect(response.headers.Location).toBe("/welcome");
+    });
+
+    it("sends a response onLogin returns", async () => {
+        const custom = { status: 200, headers: {}, body: "hello" };
+        const routes = new SAMLRoutes({ ...baseOptions, onLogin: () => custom });
+        expect(await routes.handle("acs", post(responseBody()))).toBe(custom);
+    });
+
+    it("resolves an artifact sent on the query string", async () => {
+        const resolver = new MockArtifactResolver({
+            entityID: IDP_ENTITY_ID,
+            signingKeys: idpKeys,
+        });
+        const sp = baseOptions.serviceProvider;
+        const samlResponse = new SAMLResponse({
+            privateKey: sp.privateKey,
+            serviceProvider: sp,
+            identityProvider: new IdentityProvider({
+                entityID: IDP_ENTITY_ID,
+                artifactResolutionServices: [
+                    { binding: BINDINGS.soap, location: "https://idp.example.com/artifact" },
+                ],
+                signingCertificates: [idpKeys.certificate],
+            }),
+            allowUnsolicited: true,
+            artifactResolution: { transport: resolver.handle },
+        });
+        const routes = new SAMLRoutes({ ...baseOptions, samlResponse });
+        const query = new URLSearchParams({
+            SAMLart: resolver.issue(resolver.signedResponse(sp, "ann@example.com")),
+            RelayState: "/orders/42",
+        });
+        const response = await routes.handle("acs", get(query.toString()));
+        expect(response).toEqual({ status: 303, headers: { Location: "/orders/42" }, body: "" });
+
+        const missing = await routes.handle("acs", get());
+        expect(missing.body).toBe("SAML error: BINDING_ERROR");
+    });
+
+    it("answers a rejected SAML message with 400", async () => {
+        const response = await new SAMLRoutes(baseOptions).handle("acs", post("foo=bar"));
+        expect(response.status).toBe(400);
+        expect(response.body).toBe("SAML error: BINDING_ERROR");
+    });
+
+    it("renders a rejected SAML message with onError", async () => {
+        const routes = new SAMLRoutes({
+            ...baseOptions,
+            onError: (error) => ({ status: 401, headers: {}, body: error.message }),
+        });
+        const response = await routes.handle("acs", post("foo=bar"));
+        expect(response).toEqual({
+            status: 401,
+            headers: {},
+            body: "No SAMLResponse parameter in the request body.",
+        });
+    });
+
+    it("propagates errors that are not SAML errors", async () => {
+        const routes = new SAMLRoutes({
+            ...baseOptions,
+            onLogin: () => {
+                throw new Error("session store down");
+            },
+        });
+        await expect(routes.handle("acs", post(responseBody()))).rejects.toThrow(
+            "session store down"
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Logout
+// ---------------------------------------------------------------------------
+
+describe("SAMLRoutes – logout", () => {
+    it("answers an IdP LogoutRequest over HTTP-Redirect", async () => {
+        const onLogout = jest.fn();
+        const routes = new SAMLRoutes({ ...baseOptions, onLogout });
+        const url = buildRedirectURL(SP_SLO, "SAMLRequest", idpLogoutRequestXML(), {
+            relayState: "token",
+        });
+        const response = await routes.handle("logout", get(queryOf(url)));
+
+        expect(onLogout.mock.calls[0][0].nameID).toBe("ann@example.com");
+        expect(response.status).toBe(302);
+        const location = new URL(response.headers.Location);
+        expect(location.origin + location.pathname).toBe(IDP_SLO);
+        expect(location.searchParams.get("RelayState")).toBe("token");
+        expect(location.searchParams.get("SAMLResponse")).toBeTruthy();
+    });
+
+    it("answers an IdP LogoutRequest over HTTP-POST with a form", async () => {
+        const body = new URLSearchParams({
+            SAMLRequest: Buffer.from(idpLogoutRequestXML()).toString("base64"),
+        }).toString();
+        const response = await new SAMLRoutes(baseOptions).handle("logout", post(body));
+        expect(response.status).toBe(200);
+        expect(response.headers["Content-Type"]).toBe("text/html; charset=utf-8");
+        expect(response.body).toContain(`action="${IDP_SLO}"`);
+    });
+
+    /** Starts SP-initiated logout and returns the ID of the LogoutRequest sent. */
+    async function startLogout(routes: SAMLRoutes<Native>): Promise<string> {
+        const response = await routes.handle("logout", get("", { user: "ann@example.com" }));
+        const samlRequest = new URL(response.headers.Location).searchParams.get("SAMLRequest")!;
+        const xml = inflateRawSync(Buffer.from(samlRequest, "base64")).toString("utf-8");
+        return /\sID="([^"]+)"/.exec(xml)![1];
+    }
+
+    function logoutResponse(inResponseTo: string): RouteRequest<Native> {
+        const url = buildRedirectURL(SP_SLO, "SAMLResponse", idpLogoutResponseXML(inResponseTo), {
+            relayState: "/bye",
+        });
+        return get(queryOf(url));
+    }
+
+    it("accepts the LogoutResponse to its LogoutRequest once and follows RelayState", async () => {
+        const onLogout = jest.fn();
+        const routes = new SAMLRoutes<Native>({
+            ...baseOptions,
+            onLogout,
+            getLogoutSubject: (native) => (native.user ? { nameID: native.user } : null),
+        });
+        const id = await startLogout(routes);
+        const response = await routes.handle("logout", logoutResponse(id));
+        expect(onLogout.mock.calls[0][0].statusCode).toBe(
+            "urn:oasis:names:tc:SAML:2.0:status:Success"
+        );
+        expect(response.headers.Location).toBe("/bye");
+
+        const replayed = await routes.handle("logout", logoutResponse(id));
+        expect(replayed.body).toBe("SAML error: IN_RESPONSE_TO_MISMATCH");
+        expect(onLogout).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects a LogoutResponse to a request it never sent", async () => {
+        const onLogout = jest.fn();
+        const routes = new SAMLRoutes({ ...baseOptions, onLogout });
+        const response = await routes.handle("logout", logoutResponse("_unknown"));
+        expect(response.status).toBe(400);
+        expect(response.body).toBe("SAML error: IN_RESPONSE_TO_MISMATCH");
+        expect(onLogout).not.toHaveBeenCalled();
+    });
+
+    it("starts SP-initiated logout for the current session", async () => {
+        const routes = new SAMLRoutes<Native>({
+            ...baseOptions,
+            getLogoutSubject: (native) => (native.user ? { nameID: native.user } : null),
+        });
+        const response = await routes.handle("logout", get("", { user: "ann@example.com" }));
+        const location = new URL(response.headers.Location);
+        expect(location.origin + location.pathname).toBe(IDP_SLO);
+        expect(location.searchParams.get("SAMLRequest")).toBeTruthy();
+    });
+
+    it("redirects to defaultRedirect when there is no session", async () => {
+        const routes = new SAMLRoutes({ ...baseOptions, getLogoutSubject: () => null });
+        const response = await routes.handle("logout", get());
+        expect(response.headers.Location).toBe("/");
+    });
+
+    it("rejects a POST without a SAML message", async () => {
+        const response = await new SAMLRoutes(baseOptions).handle("logout", post("x=1"));
+        expect(response.status).toBe(400);
+    });
+});
@@ -1,7 +1,10 @@
+import * as crypto from "node:crypto";
 import { EventEmitter } from "events";
 import { SAMLResponse } from "../src/SAMLResponse";
 import { ServiceProvider } from "../src/ServiceProvider";
-import { KeyPair } from "../src/types";
+import { KeyPair, MetadataOptions } from "../src/types";
+import { BINDINGS, NS, childElements, parseXML } from "../src/xml";
+import { verifyMetadata } from "../src/metadata";
 
 let sharedKeys: KeyPair;
 
@@ -47,8 +50,10 @@ function buildAssertionXML({
         )
         .join("");
 
+    const nsAttr = `${tagPrefix ? `xmlns:${tagPrefix}` : "xmlns"}="urn:oasis:names:tc:SAML:2.0:assertion"`;
+
     return `
-    <${p}Assertion>
+    <${p}Assertion ${nsAttr}>
       <${p}Conditions ${conditionAttrs}></${p}Conditions>
       <${p}Subject>
         <${p}NameID>${nameID}</${p}NameID>
@@ -73,6 +78,7 @@ function buildPostBody(innerXML: string): string {
 function mockPostRequest(body: string): any {
     const emitter = new EventEmitter() as any;
     emitter.method = "POST";
+    emitter.headers = { "content-type": "application/x-www-form-urlencoded" };
     process.nextTick(() => {
         emitter.emit("data", Buffer.from(body));
         emitter.emit("end");
@@ -120,10 +126,11 @@ describe("SAMLResponse – processXML – basic parsing", () => {
         samlResponse = new SAMLResponse({ privateKey: sharedKeys.privateKey });
     });
 
-    it("returns null when neither Assertion nor EncryptedAssertion is present", async () => {
+    it("throws ASSERTION_MISSING when neither Assertion nor EncryptedAssertion is present", async () => {
         const xml = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol"></samlp:Response>`;
-        const result = await samlResponse.processXML(xml);
-        expect(result).toBeNull();
+        await expect(samlResponse.processXML(xml)).rejects.toMatchObject({
+            code: "ASSERTION_MISSING",
+        });
     });
 
     it("extracts nameID from a plain Assertion", async () => {
@@ -149,7 +156,7 @@ describe("SAMLResponse – processXML – basic parsing", () => {
 
     it("returns null nameID when NameID element is absent", async () => {
         const xml = `
-      <Assertion>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">
         <Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"></Conditions>
         <Subject></Subject>
       </Assertion>
@@ -174,7 +181,7 @@ describe("SAMLResponse – processXML – basic parsing", () => {
 
     it("returns empty attributes object when AttributeStatement is absent", async () => {
         const xml = `
-      <Assertion>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">
         <Conditions NotBefore="${PAST.toISOString()}" NotOnOrAfter="${FUTURE.toISOString()}"></Conditions>
       </Assertion>
     `;
@@ -240,7 +247,7 @@ describe("SAMLResponse – processXML – timestamp validation", () => {
     });
 
     it("accepts an assertion with no Conditions element", async () => {
-        const xml = `<Assertion><Subject><NameID>user@example.com</NameID></Subject></Assertion>`;
+        const xml = `<Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion"><Subject><NameID>user@example.com</NameID></Subject></Assertion>`;
         const result = await samlResponse.processXML(xml);
         expect(result?.notBefore).toBeNull();
         expect(result?.notOnOrAfter).toBeNull();
@@ -248,7 +255,7 @@ describe("SAMLResponse – processXML – timestamp validation", () => {
 
     it("accepts an assertion with Conditions but no timestamp attributes", async () => {
         const xml = `
-      <Assertion>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion">
         <Conditions></Conditions>
         <Subject><NameID>user@example.com</NameID></Subject>
       </Assertion>
@@ -282,10 +289,11 @@ describe("SAMLResponse – processRequest", () => {
         );
     });
 
-    it("returns null when SAMLResponse param is absent", async () => {
+    it("throws BINDING_ERROR when SAMLResponse param is absent", async () => {
         const req = mockPostRequest("foo=bar");
-        const result = await samlResponse.processRequest(req);
-        expect(result).toBeNull();
+        await expect(samlResponse.processRequest(req)).rejects.toMatchObject({
+            code: "BINDING_ERROR",
+        });
     });
 
     it("parses a valid POST body and returns an assertion", async () => {
@@ -311,6 +319,7 @@ describe("SAMLResponse – processRequest", () => {
 
         const emitter = new EventEmitter() as any;
         emitter.method = "POST";
+        emitter.headers = { "content-type": "application/x-www-form-urlencoded" };
 
         // Emit data in two chunks
         process.nextTick(() => {
@@ -327,6 +336,7 @@ describe("SAMLResponse – processRequest", () => {
     it("propagates stream errors as rejected promises", async () => {
         const emitter = new EventEmitter() as any;
         emitter.method = "POST";
+        emitter.headers = { "content-type": "application/x-www-form-urlencoded" };
 
         process.nextTick(() => {
             emitter.emit("error", new Error("Stream exploded"));
@@ -336,4 +346,399 @@ describe("SAMLResponse – processRequest", () => {
             "Stream exploded"
         );
     });
-});
\ No newline at end of file
+});
+
+// ---------------------------------------------------------------------------
+// ServiceProvider – key rollover
+// ---------------------------------------------------------------------------
+
+describe("ServiceProvider – key rollover", () => {
+    const ACS_URL = "https://sp.example.com/acs";
+    let nextKeys: KeyPair;
+
+    beforeAll(async () => {
+        nextKeys = await ServiceProvider.generateKeys(2048);
+    });
+
+    function publishedCertificates(metadata: string, use: string): string[] {
+        const pattern = new RegExp(
+            `<md:KeyDescriptor use="${use}">[\\s\\S]*?<ds:X509Certificate>([^<]+)<`,
+            "g"
+        );
+        return [...metadata.matchAll(pattern)].map((match) => match[1]);
+    }
+
+    function bodyOf(certificate: string): string {
+        return certificate.replace(/-----[A-Z ]+-----|\s/g, "");
+    }
+
+    it("uses the active key as certificate and privateKey", () => {
+        const sp = new ServiceProvider({
+            assertionEndpoint: ACS_URL,
+            keys: [{ ...nextKeys, status: "next" }, sharedKeys],
+        });
+        expect(sp.certificate).toBe(sharedKeys.certificate);
+        expect(sp.privateKey).toBe(sharedKeys.privateKey);
+        expect(sp.keys.map((key) => key.status)).toEqual(["next", "active"]);
+    });
+
+    it("holds a single certificate and privateKey as its active key", () => {
+        const sp = new ServiceProvider({ assertionEndpoint: ACS_URL, ...sharedKeys });
+        expect(sp.keys).toEqual([{ ...sharedKeys, status: "active" }]);
+    });
+
+    it.each([
+        [[{ ...sharedKeys, status: "next" as const }], 0],
+        [[{ ...sharedKeys }, { ...sharedKeys }], 2],
+    ])("requires exactly one active key (%#)", (keys, count) => {
+        expect(() => new ServiceProvider({ assertionEndpoint: ACS_URL, keys })).toThrow(
+            `exactly one active key, not ${count}`
+        );
+    });
+
+    it("rejects keys together with a certificate and privateKey", () => {
+        expect(
+            () =>
+                new ServiceProvider({
+                    assertionEndpoint: ACS_URL,
+                    ...sharedKeys,
+                    keys: [sharedKeys],
+                })
+        ).toThrow("either keys or a certificate and privateKey");
+    });
+
+    it("builds from keys in ServiceProvider.create without generating new ones", async () => {
+        const sp = await ServiceProvider.create({ assertionEndpoint: ACS_URL, keys: [sharedKeys] });
+        expect(sp.certificate).toBe(sharedKeys.certificate);
+    });
+
+    it("publishes the active certificate, then next ones, but not retiring ones", async () => {
+        const retiring = await ServiceProvider.generateKeys(2048);
+        const sp = new ServiceProvider({
+            assertionEndpoint: ACS_URL,
+            keys: [
+                { ...retiring, status: "retiring" },
+                { ...nextKeys, status: "next" },
+                sharedKeys,
+            ],
+        });
+        const metadata = sp.createMetadata();
+        const expected = [bodyOf(sharedKeys.certificate), bodyOf(nextKeys.certificate)];
+        expect(publishedCertificates(metadata, "signing")).toEqual(expected);
+        expect(publishedCertificates(metadata, "encryption")).toEqual(expected);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// ServiceProvider – metadata options
+// ---------------------------------------------------------------------------
+
+describe("ServiceProvider – metadata options", () => {
+    const ACS_URL = "https://sp.example.com/acs";
+    const SLO_URL = "https://sp.example.com/slo";
+
+    function spWith(metadata: MetadataOptions): ServiceProvider {
+        return new ServiceProvider({ assertionEndpoint: ACS_URL, ...sharedKeys, metadata });
+    }
+
+    function descriptorOf(sp: ServiceProvider) {
+        const entity = parseXML(sp.createMetadata()).documentElement!;
+        return { entity, descriptor: childElements(entity, NS.md, "SPSSODescriptor")[0] };
+    }
+
+    function childNames(element: any): string[] {
+        const names: string[] = [];
+        for (let child = element.firstChild; child; child = child.nextSibling) {
+            if (child.nodeType === 1) names.push(child.localName);
+        }
+        return names;
+    }
+
+    it("keeps the previous defaults without options", () => {
+        const { entity, descriptor } = descriptorOf(spWith({}));
+        const validUntil = new Date(entity.getAttribute("validUntil")!).getTime();
+        expect(validUntil - Date.now()).toBeGreaterThan(1000 * 60 * 60 * 23);
+        expect(entity.hasAttribute("cacheDuration")).toBe(false);
+        expect(childElements(descriptor, NS.md, "SingleLogoutService")).toHaveLength(0);
+        const acs = childElements(descriptor, NS.md, "AssertionConsumerService");
+        expect(acs).toHaveLength(1);
+        expect(acs[0].getAttribute("index")).toBe("0");
+        expect(acs[0].getAttribute("isDefault")).toBe("true");
+    });
+
+    it("sets validUntil and cacheDuration", () => {
+        const { entity } = descriptorOf(
+            spWith({ validityMs: 1000 * 60 * 60, cacheDuration: "PT6H" })
+        );
+        const validUntil = new Date(entity.getAttribute("validUntil")!).getTime();
+        expect(validUntil - Date.now()).toBeLessThanOrEqual(1000 * 60 * 60);
+        expect(entity.getAttribute("cacheDuration")).toBe("PT6H");
+    });
+
+    it("omits validUntil when validityMs is null", () => {
+        expect(descriptorOf(spWith({ validityMs: null })).entity.hasAttribute("validUntil")).toBe(
+            false
+        );
+    });
+
+    it("publishes several indexed ACS endpoints and separate SLO endpoints", () => {
+        const sp = spWith({
+            assertionConsumerServices: [
+                { binding: BINDINGS.post, location: ACS_URL },
+                { binding: BINDINGS.artifact, location: `${ACS_URL}/artifact`, isDefault: true },
+                { binding: BINDINGS.post, location: "https://sp.example.com/acs2", index: 5 },
+            ],
+            singleLogoutServices: [
+                { binding: BINDINGS.redirect, location: SLO_URL, responseLocation: `${SLO_URL}/r` },
+                { binding: BINDINGS.post, location: SLO_URL },
+            ],
+        });
+        const { descriptor } = descriptorOf(sp);
+        const acs = childElements(descriptor, NS.md, "AssertionConsumerService").map((el) => [
+            el.getAttribute("index"),
+            el.getAttribute("Binding"),
+            el.getAttribute("isDefault"),
+        ]);
+        expect(acs).toEqual([
+            ["0", BINDINGS.post, null],
+            ["1", BINDINGS.artifact, "true"],
+            ["5", BINDINGS.post, null],
+        ]);
+        const slo = childElements(descriptor, NS.md, "SingleLogoutService");
+        expect(slo.map((el) => el.getAttribute("Location"))).toEqual([SLO_URL, SLO_URL]);
+        expect(slo[0].getAttribute("ResponseLocation")).toBe(`${SLO_URL}/r`);
+    });
+
+    it("publishes every optional element in schema order", () => {
+        const sp = spWith({
+            nameIDFormats: ["urn:oasis:names:tc:SAML:2.0:nameid-format:persistent"],
+            encryptionMethods: ["http://www.w3.org/2009/xmlenc11#aes256-gcm"],
+            singleLogoutServices: [{ binding: BINDINGS.redirect, location: ACS_URL }],
+            organization: {
+                name: "Example",
+                displayName: { en: "Example Inc.", de: "Beispiel GmbH" },
+                url: "https://example.com",
+            },
+            contactPersons: [
+                { type: "technical", givenName: "Ops", emailAddresses: ["ops@example.com"] },
+                { type: "support", emailAddresses: ["mailto:help@example.com"] },
+            ],
+            attributeConsumingServices: [
+                {
+                    serviceName: "Example App",
+                    requestedAttributes: [
+                        {
+                            name: "urn:oid:0.9.2342.19200300.100.1.3",
+                            friendlyName: "mail",
+                            isRequired: true,
+                        },
+                        { name: "eduPersonAffiliation", values: ["member"] },
+                    ],
+                },
+            ],
+            uiInfo: {
+                displayName: "Example App",
+                description: { en: "An example" },
+                informationURL: "https://example.com/about",
+                privacyStatementURL: "https://example.com/privacy",
+                logos: [{ url: "https://example.com/logo.png", height: 60, width: 80 }],
+            },
+        });
+        const { entity, descriptor } = descriptorOf(sp);
+
+        expect(childNames(entity)).toEqual([
+            "SPSSODescriptor",
+            "Organization",
+            "ContactPerson",
+            "ContactPerson",
+        ]);
+        expect(childNames(descriptor)).toEqual([
+            "Extensions",
+            "KeyDescriptor",
+            "KeyDescriptor",
+            "SingleLogoutService",
+            "NameIDFormat",
+            "AssertionConsumerService",
+            "AttributeConsumingService",
+        ]);
+
+        const [encryption] = childElements(descriptor, NS.md, "KeyDescriptor").filter(
+            (el) => el.getAttribute("use") === "encryption"
+        );
+        const [method] = childElements(encryption, NS.md, "EncryptionMethod");
+        expect(method.getAttribute("Algorithm")).toBe("http://www.w3.org/2009/xmlenc11#aes256-gcm");
+
+        const organization = childElements(entity, NS.md, "Organization")[0];
+        const displayNames = childElements(organization, NS.md, "OrganizationDisplayName");
+        expect(displayNames.map((el) => [el.getAttribute("xml:lang"), el.textContent])).toEqual([
+            ["en", "Example Inc."],
+            ["de", "Beispiel GmbH"],
+        ]);
+
+        const contacts = childElements(entity, NS.md, "ContactPerson");
+        expect(contacts[0].getAttribute("contactType")).toBe("technical");
+        expect(childNames(contacts[0])).toEqual(["GivenName", "EmailAddress"]);
+        expect(childElements(contacts[0], NS.md, "EmailAddress")[0].textContent).toBe(
+            "mailto:ops@example.com"
+        );
+        expect(childElements(contacts[1], NS.md, "EmailAddress")[0].textContent).toBe(
+            "mailto:help@example.com"
+        );
+
+        const service = childElements(descriptor, NS.md, "AttributeConsumingService")[0];
+        expect(service.getAttribute("index")).toBe("0");
+        expect(service.getAttribute("isDefault")).toBe("true");
+        const requested = childElements(service, NS.md, "RequestedAttribute");
+        expect(requested[0].getAttribute("isRequired")).toBe("true");
+        expect(requested[0].getAttribute("FriendlyName")).toBe("mail");
+        const [value] = childElements(requested[1], NS.saml, "AttributeValue");
+        expect(value.textContent).toBe("member");
+
+        const extensions = childElements(descriptor, NS.md, "Extensions")[0];
+        const ui = childElements(extensions, NS.mdui, "UIInfo")[0];
+        expect(childNames(ui)).toEqual([
+            "DisplayName",
+            "Description",
+            "Logo",
+            "InformationURL",
+            "PrivacyStatementURL",
+        ]);
+        const logo = childElements(ui, NS.mdui, "Logo")[0];
+        expect([logo.getAttribute("height"), logo.getAttribute("width")]).toEqual(["60", "80"]);
+    });
+
+    it("sets AuthnRequestsSigned and WantAssertionsSigned", () => {
+        const { descriptor } = descriptorOf(
+            spWith({ authnRequestsSigned: false, wantAssertionsSigned: false })
+        );
+        expect(descriptor.getAttribute("AuthnRequestsSigned")).toBe("false");
+        expect(descriptor.getAttribute("WantAssertionsSigned")).toBe("false");
+    });
+
+    it.each<[string, MetadataOptions]>([
+        ["positive number or null", { validityMs: 0 }],
+        ["is not an xs:duration", { cacheDuration: "6 hours" }],
+        ["at least one endpoint", { assertionConsumerServices: [] }],
+        [
+            "uses index 0 more than once",
+            {
+                assertionConsumerServices: [
+                    { binding: BINDINGS.post, location: ACS_URL },
+                    { binding: BINDINGS.post, location: ACS_URL, index: 0 },
+                ],
+            },
+        ],
+        [
+            "only one entry as isDefault",
+            {
+                assertionConsumerServices: [
+                    { binding: BINDINGS.post, location: ACS_URL, isDefault: true },
+                    { binding: BINDINGS.post, location: ACS_URL, isDefault: true },
+                ],
+            },
+        ],
+        [
+            "between 0 and 65535",
+            {
+                assertionConsumerServices: [
+                    { binding: BINDINGS.post, location: ACS_URL, index: -1 },
+                ],
+            },
+        ],
+        ["Invalid URL", { singleLogoutServices: [{ binding: BINDINGS.post, location: "slo" }] }],
+        [
+            "at least one requested attribute",
+            { attributeConsumingServices: [{ serviceName: "App", requestedAttributes: [] }] },
+        ],
+        ["Unknown ContactPerson type", { contactPersons: [{ type: "sales" as any }] }],
+        [
+            "must not be empty",
+            { organization: { name: {}, displayName: "Example", url: "https://example.com" } },
+        ],
+        [
+            "positive integers",
+            { uiInfo: { logos: [{ url: "https://example.com/logo.png", height: 0, width: 10 }] } },
+        ],
+    ])("rejects options that would fail validation: %s", (message, metadata) => {
+        expect(() => spWith(metadata)).toThrow(message);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// ServiceProvider – signed metadata
+// ---------------------------------------------------------------------------
+
+describe("ServiceProvider – signed metadata", () => {
+    const ACS_URL = "https://sp.example.com/acs";
+    let signingKeys: KeyPair;
+
+    beforeAll(async () => {
+        signingKeys = await ServiceProvider.generateKeys(2048);
+    });
+
+    function spWith(metadata: MetadataOptions): ServiceProvider {
+        return new ServiceProvider({ assertionEndpoint: ACS_URL, ...sharedKeys, metadata });
+    }
+
+    it("signs the EntityDescriptor with the active SP key", () => {
+        const xml = spWith({ sign: true }).createMetadata();
+        const entity = parseXML(xml).documentElement!;
+        expect(entity.getAttribute("ID")).toMatch(/^_/);
+        expect(childElements(entity, NS.ds, "Signature")).toHaveLength(1);
+        expect(() => verifyMetadata(xml, { certificates: [sharedKeys.certificate] })).not.toThrow();
+    });
+
+    it("signs with a separate metadata-signing key", () => {
+        const sp = spWith({ sign: signingKeys, signatureAlgorithm: "rsa-sha512" });
+        const xml = sp.createMetadata();
+        expect(xml).toContain("http://www.w3.org/2001/04/xmldsig-more#rsa-sha512");
+        const trusted = { certificates: [signingKeys.certificate] };
+        expect(() => verifyMetadata(xml, trusted)).not.toThrow();
+        expect(() => verifyMetadata(xml, { certificates: [sharedKeys.certificate] })).toThrow(
+            expect.objectContaining({ code: "SIGNATURE_INVALID" })
+        );
+    });
+
+    it("leaves metadata unsigned by default", () => {
+        const xml = spWith({}).createMetadata();
+        expect(parseXML(xml).documentElement!.hasAttribute("ID")).toBe(false);
+        expect(() => verifyMetadata(xml, { certificates: [sharedKeys.certificate] })).toThrow(
+            expect.objectContaining({ code: "SIGNATURE_MISSING" })
+        );
+    });
+
+    it("detects metadata altered after signing", () => {
+        const xml = spWith({ sign: true })
+            .createMetadata()
+            .replace(ACS_URL, "https://evil.example.com/acs");
+        expect(() => verifyMetadata(xml, { certificates: [sharedKeys.certificate] })).toThrow(
+            "Digest mismatch"
+        );
+    });
+
+    it("accepts a trusted fingerprint instead of a certificate", () => {
+        const xml = spWith({ sign: true }).createMetadata();
+        const fingerprint = new crypto.X509Certificate(sharedKeys.certificate).fingerprint256;
+        expect(() => verifyMetadata(xml, { fingerprints: [fingerprint] })).not.toThrow();
+    });
+
+    it("rejects a metadata-signing key without a certificate", () => {
+        expect(() => spWith({ sign: { privateKey: signingKeys.privateKey } as KeyPair })).toThrow(
+            "metadata.sign needs both a privateKey and a certificate."
+        );
+    });
+
+    it("requires something to verify against", () => {
+        expect(() => verifyMetadata(spWith({ sign: true }).createMetadata(), {})).toThrow(
+            "trusted certificates or fingerprints"
+        );
+    });
+
+    it("rejects documents that are not metadata", () => {
+        expect(() =>
+            verifyMetadata(`<samlp:Response xmlns:samlp="${NS.samlp}"/>`, {
+                certificates: [sharedKeys.certificate],
+            })
+        ).toThrow("Expected an md:EntityDescriptor or md:EntitiesDescriptor.");
+    });
+});
@@ -0,0 +1,265 @@
+import { EventEmitter } from "events";
+import {
+    IdentityProvider,
+    SAMLRequest,
+    SAMLResponse,
+    ServiceProvider,
+    createExpressMiddleware,
+    createFastifyPlugin,
+    createFetchHandler,
+    createKoaMiddleware,
+} from "../src";
+import { FastifyInstanceLike, FastifyReplyLike, KoaContextLike } from "../src/adapters";
+import { signXML } from "../src/signature";
+import { SAMLRoutesOptions } from "../src/types";
+import { NS } from "../src/xml";
+
+const REDIRECT = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect";
+
+let baseOptions: Omit<SAMLRoutesOptions<any>, "onLogin">;
+let acsBody: string;
+
+beforeAll(async () => {
+    const idpKeys = await ServiceProvider.generateKeys(2048);
+    const sp = await ServiceProvider.create({
+        assertionEndpoint: "https://sp.example.com/saml/acs",
+        entityID: "https://sp.example.com/metadata",
+    });
+    const idp = new IdentityProvider({
+        entityID: "https://idp.example.com/metadata",
+        singleSignOnServices: [{ binding: REDIRECT, location: "https://idp.example.com/sso" }],
+    });
+    baseOptions = {
+        serviceProvider: sp,
+        samlRequest: new SAMLRequest(idp, sp.assertionEndpoint, { signRequests: false }),
+        samlResponse: new SAMLResponse({
+            privateKey: sp.privateKey,
+            idpCertificates: [idpKeys.certificate],
+        }),
+    };
+    const xml = signXML(
+        `<samlp:Response xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ID="_response1">` +
+            `<saml:Issuer>https://idp.example.com/metadata</saml:Issuer>` +
+            `<saml:Assertion><saml:Subject><saml:NameID>ann@example.com</saml:NameID>` +
+            `</saml:Subject></saml:Assertion></samlp:Response>`,
+        idpKeys,
+        "Issuer"
+    );
+    acsBody = new URLSearchParams({
+        SAMLResponse: Buffer.from(xml).toString("base64"),
+        RelayState: "/orders/42",
+    }).toString();
+});
+
+// ---------------------------------------------------------------------------
+// Express / Connect
+// ---------------------------------------------------------------------------
+
+function mockExpressRequest(method: string, url: string, body?: string): any {
+    const req = new EventEmitter() as any;
+    req.method = method;
+    req.url = url;
+    req.headers = { "content-type": "application/x-www-form-urlencoded" };
+    if (body !== undefined) {
+        process.nextTick(() => {
+            req.emit("data", Buffer.from(body));
+            req.emit("end");
+        });
+    }
+    return req;
+}
+
+function mockServerResponse(): Promise<{ status: number; headers: any; body: string }> & {
+    res: any;
+} {
+    const headers: Record<string, string> = {};
+    const res: any = { statusCode: 200, setHeader: (n: string, v: string) => (headers[n] = v) };
+    const done = new Promise<{ status: number; headers: any; body: string }>((resolve) => {
+        res.end = (body: string) => resolve({ status: res.statusCode, headers, body });
+    }) as any;
+    done.res = res;
+    return done;
+}
+
+describe("createExpressMiddleware", () => {
+    it("serves a route relative to the mount point", async () => {
+        const middleware = createExpressMiddleware({ ...baseOptions, onLogin: () => undefined });
+        const response = mockServerResponse();
+        middleware(mockExpressRequest("GET", "/metadata"), response.res, () => {
+            throw new Error("next should not be called");
+        });
+        const { status, headers, body } = await response;
+        expect(status).toBe(200);
+        expect(headers["Content-Type"]).toBe("application/samlmetadata+xml");
+        expect(body).toContain("EntityDescriptor");
+    });
+
+    it("reads the ACS body from the stream", async () => {
+        const onLogin = jest.fn();
+        const middleware = createExpressMiddleware({ ...baseOptions, onLogin });
+        const req = mockExpressRequest("POST", "/acs", acsBody);
+        const response = mockServerResponse();
+        middleware(req, response.res, () => undefined);
+        const { status, headers } = await response;
+        expect(status).toBe(303);
+        expect(headers.Location).toBe("/orders/42");
+        expect(onLogin.mock.calls[0][1]).toBe(req);
+    });
+
+    it("uses a body parsed by urlencoded()", async () => {
+        const middleware = createExpressMiddleware({ ...baseOptions, onLogin: () => "/in" });
+        const req = mockExpressRequest("POST", "/acs");
+        req.readableEnded = true;
+        req.body = Object.fromEntries(new URLSearchParams(acsBody));
+        const response = mockServerResponse();
+        middleware(req, response.res, () => undefined);
+        expect((await response).headers.Location).toBe("/in");
+    });
+
+    it("passes unmatched requests and callback errors to next", async () => {
+        const failure = new Error("session store down");
+        const middleware = createExpressMiddleware({
+            ...baseOptions,
+            onLogin: () => {
+                throw failure;
+            },
+        });
+        const next = jest.fn();
+        middleware(mockExpressRequest("GET", "/elsewhere"), mockServerResponse().res, next);
+        expect(next).toHaveBeenCalledWith();
+
+        const req = mockExpressRequest("POST", "/acs", acsBody);
+        const error = await new Promise((resolve) =>
+            middleware(req, mockServerResponse().res, resolve)
+        );
+        expect(error).toBe(failure);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Koa
+// ---------------------------------------------------------------------------
+
+function mockKoaContext(method: string, path: string, body?: unknown): KoaContextLike {
+    const headers: Record<string, string> = {};
+    return {
+        method,
+        path,
+        querystring: "",
+        req: Object.assign(new EventEmitter(), { readableEnded: true }) as any,
+        request: { body },
+        status: 404,
+        body: undefined,
+        set: (field, value) => (headers[field] = value),
+        headers,
+    } as KoaContextLike;
+}
+
+describe("createKoaMiddleware", () => {
+    it("serves routes under basePath using the parsed body", async () => {
+        const middleware = createKoaMiddleware({
+            ...baseOptions,
+            basePath: "/saml",
+            onLogin: () => undefined,
+        });
+        const parsed = Object.fromEntries(new URLSearchParams(acsBody));
+        const ctx = mockKoaContext("POST", "/saml/acs", parsed);
+        await middleware(ctx, async () => undefined);
+        expect(ctx.status).toBe(303);
+        expect((ctx as any).headers.Location).toBe("/orders/42");
+        expect(ctx.body).toBe("");
+    });
+
+    it("calls next for other paths", async () => {
+        const middleware = createKoaMiddleware({ ...baseOptions, onLogin: () => undefined });
+        const next = jest.fn(async () => undefined);
+        await middleware(mockKoaContext("GET", "/saml/metadata"), next);
+        expect(next).toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Fastify
+// ---------------------------------------------------------------------------
+
+function mockFastify(hasFormParser: boolean) {
+    const routes: Parameters<FastifyInstanceLike["route"]>[0][] = [];
+    const parsers: string[] = [];
+    const instance: FastifyInstanceLike = {
+        route: (options) => routes.push(options),
+        hasContentTypeParser: () => hasFormParser,
+        addContentTypeParser: (contentType) => parsers.push(contentType),
+    };
+    return { instance, routes, parsers };
+}
+
+describe("createFastifyPlugin", () => {
+    it("registers each route and a urlencoded parser when none exists", async () => {
+        const fastify = mockFastify(false);
+        await createFastifyPlugin({ ...baseOptions, onLogin: () => undefined })(fastify.instance);
+        expect(fastify.routes.map((r) => [r.method, r.url])).toEqual([
+            [["GET"], "/metadata"],
+            [["GET"], "/login"],
+            [["GET", "POST"], "/acs"],
+        ]);
+        expect(fastify.parsers).toEqual(["application/x-www-form-urlencoded"]);
+    });
+
+    it("keeps an existing urlencoded parser and sends the route response", async () => {
+        const fastify = mockFastify(true);
+        await createFastifyPlugin({ ...baseOptions, onLogin: () => undefined })(fastify.instance);
+        expect(fastify.parsers).toEqual([]);
+
+        const sent: Record<string, unknown> = { headers: {} };
+        const reply: FastifyReplyLike = {
+            code: (status) => (sent.status = status),
+            header: (name, value) => ((sent.headers as any)[name] = value),
+            send: (payload) => (sent.body = payload),
+        };
+        const acs = fastify.routes.find((r) => r.url === "/acs")!;
+        await acs.handler({ method: "POST", url: "/saml/acs", body: acsBody }, reply);
+        expect(sent).toEqual({ status: 303, headers: { Location: "/orders/42" }, body: "" });
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Fetch API
+// ---------------------------------------------------------------------------
+
+describe("createFetchHandler", () => {
+    it("serves routes under basePath and 404s anything else", async () => {
+        const handler = createFetchHandler({
+            ...baseOptions,
+            basePath: "/api/saml",
+            onLogin: () => undefined,
+        });
+        const metadata = await handler(new Request("https://sp.example.com/api/saml/metadata"));
+        expect(metadata.status).toBe(200);
+        expect(metadata.headers.get("Content-Type")).toBe("application/samlmetadata+xml");
+
+        const missing = await handler(new Request("https://sp.example.com/metadata"));
+        expect(missing.status).toBe(404);
+    });
+
+    it("logs in from a posted response", async () => {
+        const onLogin = jest.fn();
+        const handler = createFetchHandler({ ...baseOptions, onLogin });
+        const request = new Request("https://sp.example.com/acs", {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: acsBody,
+        });
+        const response = await handler(request);
+        expect(response.status).toBe(303);
+        expect(response.headers.get("Location")).toBe("/orders/42");
+        expect(onLogin.mock.calls[0][0].nameID).toBe("ann@example.com");
+        expect(onLogin.mock.calls[0][1]).toBe(request);
+    });
+
+    it("redirects login to the IdP", async () => {
+        const handler = createFetchHandler({ ...baseOptions, onLogin: () => undefined });
+        const response = await handler(new Request("https://sp.example.com/login?returnTo=%2Fa"));
+        expect(response.status).toBe(302);
+        expect(response.headers.get("Location")).toMatch(/^https:\/\/idp\.example\.com\/sso\?/);
+    });
+});
@@ -0,0 +1,306 @@
+import {
+    BINDINGS,
+    IdentityProvider,
+    SAMLResponse,
+    ServiceProvider,
+    createArtifact,
+    parseArtifact,
+    readSOAPBody,
+} from "../src";
+import { artifactSourceID, buildArtifactResolve, buildSOAPEnvelope } from "../src/artifact";
+import { BindingError, MalformedXMLError, SAMLError, StatusError } from "../src/errors";
+import { verifyEnvelopedSignature } from "../src/signature";
+import { KeyPair, SAMLResponseOptions, SOAPTransport } from "../src/types";
+import { NS } from "../src/xml";
+import { MockArtifactResolver } from "./fixtures/artifactResolver";
+
+const IDP_ENTITY_ID = "https://idp.example.com/metadata";
+const ACS_URL = "https://sp.example.com/saml/acs";
+
+let idpKeys: KeyPair;
+let sp: ServiceProvider;
+
+beforeAll(async () => {
+    idpKeys = await ServiceProvider.generateKeys(2048);
+    sp = await ServiceProvider.create({
+        assertionEndpoint: ACS_URL,
+        entityID: "https://sp.example.com/metadata",
+    });
+});
+
+function identityProvider(location: string): IdentityProvider {
+    return new IdentityProvider({
+        entityID: IDP_ENTITY_ID,
+        artifactResolutionServices: [{ binding: BINDINGS.soap, location, index: 1 }],
+        signingCertificates: [idpKeys.certificate],
+    });
+}
+
+function resolver(options: { signArtifactResponse?: boolean } = {}): MockArtifactResolver {
+    return new MockArtifactResolver({
+        entityID: IDP_ENTITY_ID,
+        signingKeys: idpKeys,
+        spCertificate: sp.certificate,
+        ...options,
+    });
+}
+
+function samlResponse(
+    transport: SOAPTransport | undefined,
+    options: Partial<SAMLResponseOptions> = {}
+): SAMLResponse {
+    return new SAMLResponse({
+        privateKey: sp.privateKey,
+        serviceProvider: sp,
+        identityProvider: identityProvider("https://idp.example.com/artifact"),
+        allowUnsolicited: true,
+        artifactResolution: { transport },
+        ...options,
+    });
+}
+
+async function rejectionOf(promise: Promise<unknown>): Promise<unknown> {
+    return promise.then(
+        () => {
+            throw new Error("Expected a rejection.");
+        },
+        (err: unknown) => err
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Artifact encoding and SOAP framing
+// ---------------------------------------------------------------------------
+
+describe("artifacts", () => {
+    it("round-trips the fields of a type 0x0004 artifact", () => {
+        const handle = Buffer.alloc(20, 7);
+        const artifact = parseArtifact(createArtifact(IDP_ENTITY_ID, 3, handle));
+        expect(artifact.typeCode).toBe(4);
+        expect(artifact.endpointIndex).toBe(3);
+        expect(artifact.sourceID.equals(artifactSourceID(IDP_ENTITY_ID))).toBe(true);
+        expect(artifact.messageHandle.equals(handle)).toBe(true);
+    });
+
+    it("rejects other type codes, lengths and malformed Base64", () => {
+        const other = Buffer.from(createArtifact(IDP_ENTITY_ID), "base64");
+        other.writeUInt16BE(0x0005, 0);
+        expect(() => parseArtifact(other.toString("base64"))).toThrow(
+            "Unsupported artifact type code 0x0005."
+        );
+        const short = Buffer.from(createArtifact(IDP_ENTITY_ID), "base64").subarray(0, 40);
+        expect(() => parseArtifact(short.toString("base64"))).toThrow("SAMLart is 40 bytes");
+        expect(() => parseArtifact("not*base64")).toThrow(BindingError);
+    });
+
+    it("reads the single element of a SOAP Body and reports Faults", () => {
+        const message = readSOAPBody(buildSOAPEnvelope(`<samlp:Foo xmlns:samlp="${NS.samlp}"/>`));
+        expect(message.localName).toBe("Foo");
+
+        const fault =
+            `<e:Envelope xmlns:e="${NS.soap}"><e:Body><e:Fault><faultcode>e:Server</faultcode>` +
+            `<faultstring>artifact store offline</faultstring></e:Fault></e:Body></e:Envelope>`;
+        expect(() => readSOAPBody(fault)).toThrow("SOAP Fault e:Server: artifact store offline");
+        expect(() => readSOAPBody(buildSOAPEnvelope("<a/><b/>"))).toThrow(MalformedXMLError);
+        expect(() => readSOAPBody("<Envelope/>")).toThrow("Expected a SOAP Envelope");
+    });
+
+    it("builds a signed ArtifactResolve", () => {
+        const { id, xml } = buildArtifactResolve("AAQAAA==", {
+            issuer: sp.entityID,
+            destination: "https://idp.example.com/artifact",
+            issueInstant: new Date("2026-01-01T00:00:00Z"),
+            signing: { privateKey: sp.privateKey },
+        });
+        const root = readSOAPBody(buildSOAPEnvelope(xml));
+        expect(root.getAttribute("ID")).toBe(id);
+        expect(root.getAttribute("Destination")).toBe("https://idp.example.com/artifact");
+        expect(verifyEnvelopedSignature(root, { certificates: [sp.certificate] })).toBe(true);
+    });
+});
+
+describe("IdentityProvider – ArtifactResolutionService", () => {
+    it("finds the SOAP endpoint an artifact's EndpointIndex names", () => {
+        const idp = new IdentityProvider({
+            entityID: IDP_ENTITY_ID,
+            artifactResolutionServices: [
+                { binding: BINDINGS.soap, location: "https://idp.example.com/ars0" },
+                { binding: BINDINGS.soap, location: "https://idp.example.com/ars5", index: 5 },
+            ],
+        });
+        expect(idp.artifactResolutionService(0)?.location).toBe("https://idp.example.com/ars0");
+        expect(idp.artifactResolutionService(5)?.location).toBe("https://idp.example.com/ars5");
+        expect(idp.artifactResolutionService(1)).toBeNull();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Resolution against a local mock ArtifactResolutionService
+// ---------------------------------------------------------------------------
+
+describe("SAMLResponse – HTTP-Artifact binding", () => {
+    let ars: MockArtifactResolver;
+    let url: string;
+
+    beforeAll(async () => {
+        ars = resolver({ signArtifactResponse: true });
+        url = await ars.listen();
+    });
+
+    afterAll(() => ars.close());
+
+    it("resolves an artifact over HTTP with the default transport", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "ada@example.com"), 1);
+        const response = samlResponse(undefined, { identityProvider: identityProvider(url) });
+        const query = new URLSearchParams({ SAMLart: artifact, RelayState: "/reports" });
+
+        const result = await response.processQuery(`${ACS_URL}?${query}`);
+        expect(result.nameID).toBe("ada@example.com");
+        expect(result.relayState).toBe("/reports");
+        expect(result.signed).toEqual({ response: false, assertion: true });
+
+        const sent = ars.requests[ars.requests.length - 1];
+        expect(sent.headers.soapaction).toBe("http://www.oasis-open.org/committees/security");
+        expect(sent.headers["content-type"]).toBe("text/xml; charset=utf-8");
+        const resolve = readSOAPBody(sent.body);
+        expect(resolve.localName).toBe("ArtifactResolve");
+        expect(resolve.getAttribute("Destination")).toBe(url);
+        expect(resolve.getElementsByTagNameNS(NS.saml, "Issuer")[0].textContent).toBe(
+            sp.entityID
+        );
+    });
+
+    it("reports an artifact that no longer resolves", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "ada@example.com"), 1);
+        const response = samlResponse(undefined, { identityProvider: identityProvider(url) });
+        await response.processArtifact(artifact);
+        await expect(response.processArtifact(artifact)).rejects.toMatchObject({
+            code: "ASSERTION_MISSING",
+        });
+    });
+
+    it("surfaces a SOAP Fault sent with HTTP 500", async () => {
+        const response = samlResponse(undefined, {
+            identityProvider: identityProvider(url),
+            artifactResolution: { signRequests: false },
+        });
+        const error = await rejectionOf(response.processArtifact(createArtifact(IDP_ENTITY_ID, 1)));
+        expect(error).toBeInstanceOf(BindingError);
+        expect((error as Error).message).toContain("ArtifactResolve is not signed.");
+    });
+});
+
+describe("SAMLResponse – artifact resolution checks", () => {
+    let ars: MockArtifactResolver;
+
+    beforeEach(() => {
+        ars = resolver();
+    });
+
+    it("accepts an artifact posted in the form body", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "bo@example.com"), 1);
+        const result = await samlResponse(ars.handle).processBody({
+            SAMLart: artifact,
+            RelayState: "/home",
+        });
+        expect(result.nameID).toBe("bo@example.com");
+        expect(result.relayState).toBe("/home");
+    });
+
+    it("resolves GET requests that carry SAMLart", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "cy@example.com"), 1);
+        const request = new Request(`${ACS_URL}?SAMLart=${encodeURIComponent(artifact)}`);
+        const result = await samlResponse(ars.handle).processFetchRequest(request);
+        expect(result.nameID).toBe("cy@example.com");
+    });
+
+    it("rejects a body carrying both SAMLResponse and SAMLart", async () => {
+        await expect(
+            samlResponse(ars.handle).processBody({ SAMLart: "x", SAMLResponse: "y" })
+        ).rejects.toThrow("both SAMLResponse and SAMLart");
+    });
+
+    it("rejects an artifact issued by another IdP before contacting anyone", async () => {
+        const error = await rejectionOf(
+            samlResponse(ars.handle).processArtifact(createArtifact("https://other.example.com", 1))
+        );
+        expect(error).toMatchObject({ code: "ISSUER_MISMATCH" });
+        expect(ars.requests).toHaveLength(0);
+    });
+
+    it("rejects an EndpointIndex the IdP does not publish", async () => {
+        const error = await rejectionOf(
+            samlResponse(ars.handle).processArtifact(createArtifact(IDP_ENTITY_ID, 2))
+        );
+        expect(error).toBeInstanceOf(BindingError);
+        expect((error as Error).message).toContain(
+            "no SOAP ArtifactResolutionService with index 2"
+        );
+    });
+
+    it("rejects an ArtifactResponse to a different ArtifactResolve", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "di@example.com"), 1);
+        ars.rewrite = (xml) => xml.replace(/InResponseTo="[^"]*"/, 'InResponseTo="_other"');
+        await expect(samlResponse(ars.handle).processArtifact(artifact)).rejects.toMatchObject({
+            code: "IN_RESPONSE_TO_MISMATCH",
+            actual: "_other",
+        });
+    });
+
+    it("rejects an ArtifactResponse whose status is not Success", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "di@example.com"), 1);
+        ars.rewrite = (xml) => xml.replace(/:status:Success/, ":status:Responder");
+        const error = await rejectionOf(samlResponse(ars.handle).processArtifact(artifact));
+        expect(error).toBeInstanceOf(StatusError);
+    });
+
+    it("rejects a tampered ArtifactResponse signature", async () => {
+        const signing = resolver({ signArtifactResponse: true });
+        const artifact = signing.issue(signing.signedResponse(sp, "ed@example.com"), 1);
+        signing.rewrite = (xml) => xml.replace("ed@example.com", "eve@example.com");
+        await expect(samlResponse(signing.handle).processArtifact(artifact)).rejects.toMatchObject(
+            { code: "SIGNATURE_INVALID" }
+        );
+    });
+
+    it("still requires the Response or Assertion to be signed", async () => {
+        const unsigned =
+            `<samlp:Response xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ID="_r1">` +
+            `<saml:Assertion ID="_a1"><saml:Subject><saml:NameID>fay@example.com</saml:NameID>` +
+            `</saml:Subject></saml:Assertion></samlp:Response>`;
+        const signing = resolver({ signArtifactResponse: true });
+        const artifact = signing.issue(unsigned, 1);
+        await expect(samlResponse(signing.handle).processArtifact(artifact)).rejects.toMatchObject(
+            { code: "SIGNATURE_MISSING" }
+        );
+    });
+
+    it("rejects an assertion smuggled beside the Response", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "gus@example.com"), 1);
+        ars.rewrite = (xml) =>
+            xml.replace(
+                "</samlp:ArtifactResponse>",
+                `<samlp:Extensions><saml:Assertion ID="_evil"/></samlp:Extensions>` +
+                    "</samlp:ArtifactResponse>"
+            );
+        await expect(samlResponse(ars.handle).processArtifact(artifact)).rejects.toThrow(
+            "Unexpected saml:Assertion outside the Response"
+        );
+    });
+
+    it("bounds the SOAP reply by bodyLimits.maxBytes", async () => {
+        const artifact = ars.issue(ars.signedResponse(sp, "hal@example.com"), 1);
+        const error = await rejectionOf(
+            samlResponse(ars.handle, { bodyLimits: { maxBytes: 1024 } }).processArtifact(artifact)
+        );
+        expect(error).toBeInstanceOf(SAMLError);
+        expect((error as Error).message).toBe("The SOAP response exceeds 1024 bytes.");
+    });
+
+    it("requires an identityProvider and serviceProvider", async () => {
+        const response = new SAMLResponse({ privateKey: sp.privateKey });
+        await expect(response.processArtifact(createArtifact(IDP_ENTITY_ID))).rejects.toThrow(
+            "identityProvider and serviceProvider are required to resolve artifacts."
+        );
+    });
+});
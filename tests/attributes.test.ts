@@ -0,0 +1,123 @@
+import { Element } from "@xmldom/xmldom";
+import { readAttribute } from "../src/attributes";
+import { parseXML } from "../src/xml";
+
+const SAML = `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"`;
+const XSI = `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`;
+const XS = `xmlns:xs="http://www.w3.org/2001/XMLSchema"`;
+
+function attribute(inner: string, attrs = `Name="a"`): Element {
+    return parseXML(`<saml:Attribute ${SAML} ${XSI} ${XS} ${attrs}>${inner}</saml:Attribute>`)
+        .documentElement!;
+}
+
+function value(content: string, xsiType?: string): string {
+    const type = xsiType ? ` xsi:type="${xsiType}"` : "";
+    return `<saml:AttributeValue${type}>${content}</saml:AttributeValue>`;
+}
+
+describe("readAttribute", () => {
+    it("keeps the Name, FriendlyName and NameFormat", () => {
+        const attr = readAttribute(
+            attribute(
+                value("alice@example.com"),
+                `Name="urn:oid:0.9.2342.19200300.100.1.3" FriendlyName="mail" ` +
+                    `NameFormat="urn:oasis:names:tc:SAML:2.0:attrname-format:uri"`
+            )
+        );
+        expect(attr).toEqual({
+            name: "urn:oid:0.9.2342.19200300.100.1.3",
+            friendlyName: "mail",
+            nameFormat: "urn:oasis:names:tc:SAML:2.0:attrname-format:uri",
+            values: [{ type: "string", value: "alice@example.com", xsiType: null }],
+        });
+    });
+
+    it("keeps empty values", () => {
+        const attr = readAttribute(attribute(value("") + value("x")));
+        expect(attr.values.map((v) => v.value)).toEqual(["", "x"]);
+    });
+
+    it.each<[string, string, unknown]>([
+        ["xs:string", " padded ", { type: "string", value: " padded " }],
+        ["xs:anyURI", "https://example.com", { type: "string", value: "https://example.com" }],
+        ["xs:boolean", "true", { type: "boolean", value: true }],
+        ["xs:boolean", "0", { type: "boolean", value: false }],
+        ["xs:int", " 42 ", { type: "integer", value: 42 }],
+        ["xs:unsignedShort", "-7", { type: "integer", value: -7 }],
+        [
+            "xs:dateTime",
+            "2024-05-01T12:00:00Z",
+            { type: "dateTime", value: new Date("2024-05-01T12:00:00Z") },
+        ],
+        [
+            "xs:dateTime",
+            "2024-01-01T12:00:00",
+            { type: "dateTime", value: new Date("2024-01-01T12:00:00Z") },
+        ],
+    ])("types an %s value %p", (xsiType, content, expected) => {
+        const [parsed] = readAttribute(attribute(value(content, xsiType))).values;
+        expect(parsed).toEqual({ ...(expected as object), xsiType });
+    });
+
+    it.each([
+        ["xs:boolean", "yes"],
+        ["xs:integer", "12.5"],
+        ["xs:long", "99999999999999999999"],
+        ["xs:dateTime", "tomorrow"],
+        ["xs:dateTime", "2024-02-30T00:00:00Z"],
+        ["xs:dateTime", "March 3, 2020"],
+    ])("keeps an %s value that does not parse (%p) as a string", (xsiType, content) => {
+        const [parsed] = readAttribute(attribute(value(content, xsiType))).values;
+        expect(parsed).toEqual({ type: "string", value: content, xsiType });
+    });
+
+    it("ignores types outside the XML Schema namespace", () => {
+        const [parsed] = readAttribute(
+            attribute(value("5", "x:int").replace("<saml:AttributeValue", `$& xmlns:x="urn:example"`))
+        ).values;
+        expect(parsed).toEqual({ type: "string", value: "5", xsiType: "x:int" });
+    });
+
+    it("resolves the xsd prefix when the IdP does not declare it", () => {
+        const element = parseXML(
+            `<saml:Attribute ${SAML} ${XSI} Name="a">${value("3", "xsd:integer")}</saml:Attribute>`
+        ).documentElement!;
+        expect(readAttribute(element).values[0]).toMatchObject({ type: "integer", value: 3 });
+    });
+
+    it("reads xsi:nil as nil", () => {
+        const [parsed] = readAttribute(
+            attribute(`<saml:AttributeValue xsi:nil="true"/>`)
+        ).values;
+        expect(parsed).toEqual({ type: "nil", value: null, xsiType: null });
+    });
+
+    it("reads a NameID value such as eduPersonTargetedID", () => {
+        const [parsed] = readAttribute(
+            attribute(
+                value(
+                    `<saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent" ` +
+                        `NameQualifier="https://idp.example.com" ` +
+                        `SPNameQualifier="https://sp.example.com">abc123</saml:NameID>`
+                )
+            )
+        ).values;
+        expect(parsed).toEqual({
+            type: "nameID",
+            value: "abc123",
+            format: "urn:oasis:names:tc:SAML:2.0:nameid-format:persistent",
+            nameQualifier: "https://idp.example.com",
+            spNameQualifier: "https://sp.example.com",
+            xsiType: null,
+        });
+    });
+
+    it("serializes other element content as XML", () => {
+        const [parsed] = readAttribute(
+            attribute(value(`<x:Address xmlns:x="urn:example"><x:City>Oslo</x:City></x:Address>`))
+        ).values;
+        expect(parsed.type).toBe("xml");
+        expect(parseXML(parsed.value as string).documentElement!.textContent).toBe("Oslo");
+    });
+});
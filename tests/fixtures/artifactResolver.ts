@@ -0,0 +1,159 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Element, XMLSerializer } from "@xmldom/xmldom";
+import { buildSOAPEnvelope, createArtifact, readSOAPBody } from "../../src/artifact";
+import { signElement, signXML, verifyEnvelopedSignature } from "../../src/signature";
+import { KeyPair, SOAPRequest, SOAPResponse } from "../../src/types";
+import { NS, STATUS_SUCCESS, childElements, parseXML } from "../../src/xml";
+
+const BEARER = "urn:oasis:names:tc:SAML:2.0:cm:bearer";
+
+export interface MockResolverOptions {
+    entityID: string;
+    signingKeys: KeyPair;
+    /** When set, every ArtifactResolve must carry a valid signature from this certificate. */
+    spCertificate?: string;
+    /** Sign the ArtifactResponse as well as the assertion. Default: `false`. */
+    signArtifactResponse?: boolean;
+}
+
+/**
+ * A stand-in for an IdP ArtifactResolutionService. `issue` stores a message
+ * and returns its artifact; each artifact resolves once. `handle` answers a
+ * SOAP request in-process and serves as a `SOAPTransport`; `listen` serves it
+ * over HTTP on a local port for the default `fetch` transport.
+ */
+export class MockArtifactResolver {
+    readonly requests: SOAPRequest[] = [];
+    /** Rewrites the serialized ArtifactResponse before it is sent, to simulate a faulty IdP. */
+    rewrite: ((artifactResponse: string) => string) | null = null;
+    private readonly options: MockResolverOptions;
+    private readonly messages = new Map<string, string>();
+    private server: http.Server | null = null;
+
+    constructor(options: MockResolverOptions) {
+        this.options = options;
+    }
+
+    /** Stores `xml` for resolution and returns the artifact that names it. */
+    issue(xml: string, endpointIndex = 0): string {
+        const artifact = createArtifact(this.options.entityID, endpointIndex);
+        this.messages.set(artifact, xml.replace(/^<\?xml[^>]*\?>\s*/, ""));
+        return artifact;
+    }
+
+    /**
+     * A Response for `nameID` whose assertion is signed and passes the Web
+     * Browser SSO profile checks for the given SP.
+     */
+    signedResponse(sp: { entityID: string; assertionEndpoint: string }, nameID: string): string {
+        const now = Date.now();
+        const later = new Date(now + 5 * 60 * 1000).toISOString();
+        const issuer = `<saml:Issuer>${this.options.entityID}</saml:Issuer>`;
+        const xml =
+            `<samlp:Response xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ` +
+            `ID="_response${now}" Version="2.0" IssueInstant="${new Date(now).toISOString()}" ` +
+            `Destination="${sp.assertionEndpoint}">${issuer}` +
+            `<samlp:Status><samlp:StatusCode Value="${STATUS_SUCCESS}"/></samlp:Status>` +
+            `<saml:Assertion ID="_assertion${now}" Version="2.0" ` +
+            `IssueInstant="${new Date(now).toISOString()}">${issuer}` +
+            `<saml:Subject><saml:NameID>${nameID}</saml:NameID>` +
+            `<saml:SubjectConfirmation Method="${BEARER}">` +
+            `<saml:SubjectConfirmationData NotOnOrAfter="${later}" ` +
+            `Recipient="${sp.assertionEndpoint}"/></saml:SubjectConfirmation></saml:Subject>` +
+            `<saml:Conditions NotBefore="${new Date(now - 60000).toISOString()}" ` +
+            `NotOnOrAfter="${later}"><saml:AudienceRestriction>` +
+            `<saml:Audience>${sp.entityID}</saml:Audience></saml:AudienceRestriction>` +
+            `</saml:Conditions></saml:Assertion></samlp:Response>`;
+        const doc = parseXML(xml);
+        const assertion = childElements(doc.documentElement as Element, NS.saml, "Assertion")[0];
+        signElement(
+            assertion,
+            this.options.signingKeys,
+            childElements(assertion, NS.saml, "Issuer")[0]
+        );
+        return new XMLSerializer().serializeToString(doc);
+    }
+
+    readonly handle = async (request: SOAPRequest): Promise<SOAPResponse> => {
+        this.requests.push(request);
+        let resolve: Element;
+        try {
+            resolve = readSOAPBody(request.body);
+            if (resolve.localName !== "ArtifactResolve") {
+                throw new Error(`Unexpected ${resolve.tagName}.`);
+            }
+            const { spCertificate } = this.options;
+            if (
+                spCertificate &&
+                !verifyEnvelopedSignature(resolve, { certificates: [spCertificate] })
+            ) {
+                throw new Error("ArtifactResolve is not signed.");
+            }
+        } catch (err) {
+            return fault((err as Error).message);
+        }
+
+        const artifact = childElements(resolve, NS.samlp, "Artifact")[0]?.textContent ?? "";
+        const message = this.messages.get(artifact) ?? "";
+        this.messages.delete(artifact);
+        let xml =
+            `<samlp:ArtifactResponse xmlns:samlp="${NS.samlp}" xmlns:saml="${NS.saml}" ` +
+            `ID="_artifactResponse${Date.now()}" Version="2.0" ` +
+            `IssueInstant="${new Date().toISOString()}" ` +
+            `InResponseTo="${resolve.getAttribute("ID")}">` +
+            `<saml:Issuer>${this.options.entityID}</saml:Issuer>` +
+            `<samlp:Status><samlp:StatusCode Value="${STATUS_SUCCESS}"/></samlp:Status>` +
+            `${message}</samlp:ArtifactResponse>`;
+        if (this.options.signArtifactResponse) {
+            xml = signXML(xml, this.options.signingKeys, "Issuer");
+        }
+        if (this.rewrite) xml = this.rewrite(xml);
+        return { status: 200, body: buildSOAPEnvelope(xml) };
+    };
+
+    /** Serves `handle` on a local port and resolves with its URL. */
+    listen(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on("data", (chunk: Buffer) => chunks.push(chunk));
+            req.on("end", async () => {
+                const headers: Record<string, string> = {};
+                for (const [name, value] of Object.entries(req.headers)) {
+                    if (typeof value === "string") headers[name] = value;
+                }
+                const reply = await this.handle({
+                    url: `http://${req.headers.host}${req.url}`,
+                    headers,
+                    body: Buffer.concat(chunks).toString("utf-8"),
+                });
+                res.writeHead(reply.status, { "Content-Type": "text/xml; charset=utf-8" });
+                res.end(reply.body);
+            });
+        });
+        return new Promise((resolve) => {
+            this.server!.listen(0, "127.0.0.1", () => {
+                const { port } = this.server!.address() as AddressInfo;
+                resolve(`http://127.0.0.1:${port}/artifact`);
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => {
+            if (this.server) this.server.close(() => resolve());
+            else resolve();
+        });
+    }
+}
+
+function fault(message: string): SOAPResponse {
+    return {
+        status: 500,
+        body:
+            `<SOAP-ENV:Envelope xmlns:SOAP-ENV="${NS.soap}"><SOAP-ENV:Body>` +
+            `<SOAP-ENV:Fault><faultcode>SOAP-ENV:Client</faultcode>` +
+            `<faultstring>${message}</faultstring></SOAP-ENV:Fault>` +
+            `</SOAP-ENV:Body></SOAP-ENV:Envelope>`,
+    };
+}
@@ -0,0 +1,195 @@
+import { Document, Element } from "@xmldom/xmldom";
+import { NS, childElements } from "../../src/xml";
+
+/** The NameID an attacker wants the SP to accept. */
+export const EVIL_NAME_ID = "attacker@evil.example.com";
+
+/**
+ * One XML Signature Wrapping variant. `wrap` receives a parsed Response that
+ * is correctly signed on the element named by `signed`, whose Response ID is
+ * `_response1` and Assertion ID `_assertion1`, and rewrites it in place into
+ * the attack. Variants 1-8 follow the taxonomy of Somorovsky et al., "On
+ * Breaking SAML: Be Whoever You Want to Be" (USENIX Security 2012), as
+ * implemented by SAML Raider.
+ */
+export interface XSWVariant {
+    name: string;
+    signed: "response" | "assertion";
+    /** The error code the attack must be rejected with. */
+    code: string;
+    wrap(doc: Document): void;
+}
+
+function response(doc: Document): Element {
+    return doc.documentElement as Element;
+}
+
+function assertion(doc: Document): Element {
+    return childElements(response(doc), NS.saml, "Assertion")[0];
+}
+
+function signatureOf(element: Element): Element {
+    return childElements(element, NS.ds, "Signature")[0];
+}
+
+/** A deep copy of `element` without its own signature. */
+function unsignedCopy(element: Element): Element {
+    const copy = element.cloneNode(true) as Element;
+    const signature = signatureOf(copy);
+    if (signature) copy.removeChild(signature);
+    return copy;
+}
+
+/** Rewrites every NameID below `element` to the attacker's. */
+function forgeNameID(element: Element): void {
+    const nameIDs = element.getElementsByTagNameNS(NS.saml, "NameID");
+    for (let i = 0; i < nameIDs.length; i++) {
+        const nameID = nameIDs[i];
+        while (nameID.firstChild) nameID.removeChild(nameID.firstChild);
+        nameID.appendChild((element.ownerDocument as Document).createTextNode(EVIL_NAME_ID));
+    }
+}
+
+/** An unsigned, forged copy of the signed assertion, with its own ID. */
+function forgedAssertion(doc: Document, id = "_evil_assertion"): Element {
+    const forged = unsignedCopy(assertion(doc));
+    forged.setAttribute("ID", id);
+    forgeNameID(forged);
+    return forged;
+}
+
+export const XSW_VARIANTS: XSWVariant[] = [
+    {
+        name: "XSW1: forged Response, signed original inside its Signature",
+        signed: "response",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const root = response(doc);
+            const original = unsignedCopy(root);
+            root.setAttribute("ID", "_evil_response");
+            forgeNameID(root);
+            signatureOf(root).appendChild(original);
+        },
+    },
+    {
+        name: "XSW2: forged Response, signed original beside its Signature",
+        signed: "response",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const root = response(doc);
+            const original = unsignedCopy(root);
+            root.setAttribute("ID", "_evil_response");
+            forgeNameID(root);
+            root.insertBefore(original, signatureOf(root));
+        },
+    },
+    {
+        name: "XSW3: forged Assertion before the signed one",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            response(doc).insertBefore(forgedAssertion(doc), assertion(doc));
+        },
+    },
+    {
+        name: "XSW4: forged Assertion wrapping the signed one",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const original = assertion(doc);
+            const forged = forgedAssertion(doc);
+            response(doc).replaceChild(forged, original);
+            forged.appendChild(original);
+        },
+    },
+    {
+        name: "XSW5: signed Assertion forged in place, unsigned original appended",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const original = assertion(doc);
+            const copy = unsignedCopy(original);
+            forgeNameID(original);
+            response(doc).appendChild(copy);
+        },
+    },
+    {
+        name: "XSW6: forged Assertion keeps the Signature, original inside it",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const original = assertion(doc);
+            const copy = unsignedCopy(original);
+            forgeNameID(original);
+            signatureOf(original).appendChild(copy);
+        },
+    },
+    {
+        name: "XSW7: signed Assertion moved into Extensions, forged one in its place",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const original = assertion(doc);
+            const extensions = doc.createElementNS(NS.samlp, "samlp:Extensions");
+            response(doc).replaceChild(forgedAssertion(doc), original);
+            extensions.appendChild(original);
+            response(doc).insertBefore(extensions, response(doc).firstChild);
+        },
+    },
+    {
+        name: "XSW8: forged Assertion keeps the Signature, original in a ds:Object",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const original = assertion(doc);
+            const copy = unsignedCopy(original);
+            forgeNameID(original);
+            const object = doc.createElementNS(NS.ds, "ds:Object");
+            object.appendChild(copy);
+            signatureOf(original).appendChild(object);
+        },
+    },
+    {
+        name: "Forged Assertion reusing the signed Assertion's ID",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            response(doc).insertBefore(forgedAssertion(doc, "_assertion1"), assertion(doc));
+        },
+    },
+    {
+        name: "EncryptedAssertion beside the signed Assertion",
+        signed: "assertion",
+        code: "MALFORMED_XML",
+        wrap(doc) {
+            const encrypted = doc.createElementNS(NS.saml, "saml2:EncryptedAssertion");
+            response(doc).appendChild(encrypted);
+        },
+    },
+    {
+        name: "Signed Response with its Assertion forged in place",
+        signed: "response",
+        code: "SIGNATURE_INVALID",
+        wrap(doc) {
+            forgeNameID(assertion(doc));
+        },
+    },
+    {
+        name: "Signed Assertion with its NameID forged in place",
+        signed: "assertion",
+        code: "SIGNATURE_INVALID",
+        wrap(doc) {
+            forgeNameID(assertion(doc));
+        },
+    },
+    {
+        name: "Signed Assertion given a new ID and a forged NameID",
+        signed: "assertion",
+        code: "SIGNATURE_INVALID",
+        wrap(doc) {
+            const original = assertion(doc);
+            original.setAttribute("ID", "_evil_assertion");
+            forgeNameID(original);
+        },
+    },
+];
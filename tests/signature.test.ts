@@ -0,0 +1,211 @@
+import { X509Certificate } from "node:crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { XMLSerializer } from "@xmldom/xmldom";
+import { canonicalize, signElement, signXML, verifyEnvelopedSignature } from "../src/signature";
+import { ServiceProvider } from "../src/ServiceProvider";
+import { KeyPair } from "../src/types";
+import { parseXML } from "../src/xml";
+
+let idpKeys: KeyPair;
+let otherKeys: KeyPair;
+
+beforeAll(async () => {
+    idpKeys = await ServiceProvider.generateKeys(2048);
+    otherKeys = await ServiceProvider.generateKeys(2048);
+});
+
+const RESPONSE_XML =
+    `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ` +
+    `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_resp" Version="2.0">` +
+    `<saml:Issuer>https://idp.example.com</saml:Issuer>` +
+    `<saml:Assertion ID="_assert" Version="2.0">` +
+    `<saml:Issuer>https://idp.example.com</saml:Issuer>` +
+    `<saml:Subject><saml:NameID>alice@example.com</saml:NameID></saml:Subject>` +
+    `</saml:Assertion>` +
+    `</samlp:Response>`;
+
+function fingerprintOf(pem: string): string {
+    return new X509Certificate(pem).fingerprint256;
+}
+
+// ---------------------------------------------------------------------------
+// canonicalize
+// ---------------------------------------------------------------------------
+
+describe("signature – canonicalize", () => {
+    it("renders only visibly utilised namespaces on the apex element", () => {
+        const doc = parseXML(RESPONSE_XML);
+        const assertion = doc.getElementsByTagNameNS(
+            "urn:oasis:names:tc:SAML:2.0:assertion",
+            "Assertion"
+        )[0];
+        const c14n = canonicalize(assertion);
+        expect(c14n.startsWith(
+            `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_assert" Version="2.0">`
+        )).toBe(true);
+        expect(c14n).not.toContain("xmlns:samlp");
+    });
+
+    it("sorts attributes and expands empty elements", () => {
+        const doc = parseXML(`<a xmlns:x="urn:x" z="1" x:b="2" a="3"><b/></a>`);
+        expect(canonicalize(doc.documentElement!)).toBe(
+            `<a xmlns:x="urn:x" a="3" z="1" x:b="2"><b></b></a>`
+        );
+    });
+
+    it("escapes text and attribute values", () => {
+        const doc = parseXML(`<a v="&quot;&lt;&#9;">1 &lt; 2 &amp;&gt; 3</a>`);
+        expect(canonicalize(doc.documentElement!)).toBe(
+            `<a v="&quot;&lt;&#x9;">1 &lt; 2 &amp;&gt; 3</a>`
+        );
+    });
+
+    it("drops comments unless requested", () => {
+        const doc = parseXML(`<a>x<!-- note -->y</a>`);
+        expect(canonicalize(doc.documentElement!)).toBe(`<a>xy</a>`);
+        expect(canonicalize(doc.documentElement!, { withComments: true })).toBe(
+            `<a>x<!-- note -->y</a>`
+        );
+    });
+
+    it("undeclares an inherited default namespace", () => {
+        const doc = parseXML(`<a xmlns="urn:a"><b xmlns=""></b></a>`);
+        expect(canonicalize(doc.documentElement!)).toBe(`<a xmlns="urn:a"><b xmlns=""></b></a>`);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// signXML / verifyEnvelopedSignature
+// ---------------------------------------------------------------------------
+
+describe("signature – sign and verify", () => {
+    it("places the signature immediately after the Issuer", () => {
+        const signed = signXML(RESPONSE_XML, idpKeys, "Issuer");
+        const root = parseXML(signed).documentElement!;
+        const children = Array.from(root.childNodes).map((n) => n.localName);
+        expect(children).toEqual(["Issuer", "Signature", "Assertion"]);
+    });
+
+    it("verifies a signature against the signing certificate", () => {
+        const signed = signXML(RESPONSE_XML, idpKeys, "Issuer");
+        const root = parseXML(signed).documentElement!;
+        expect(verifyEnvelopedSignature(root, { certificates: [idpKeys.certificate] })).toBe(true);
+    });
+
+    it("verifies a signature against a fingerprint of the embedded certificate", () => {
+        const signed = signXML(RESPONSE_XML, idpKeys, "Issuer");
+        const root = parseXML(signed).documentElement!;
+        expect(
+            verifyEnvelopedSignature(root, { fingerprints: [fingerprintOf(idpKeys.certificate)] })
+        ).toBe(true);
+    });
+
+    it("returns false when the element is not signed", () => {
+        const root = parseXML(RESPONSE_XML).documentElement!;
+        expect(verifyEnvelopedSignature(root, { certificates: [idpKeys.certificate] })).toBe(false);
+    });
+
+    it("throws when signed by an untrusted key", () => {
+        const signed = signXML(RESPONSE_XML, otherKeys, "Issuer");
+        const root = parseXML(signed).documentElement!;
+        expect(() =>
+            verifyEnvelopedSignature(root, { certificates: [idpKeys.certificate] })
+        ).toThrow("not valid for any trusted certificate");
+    });
+
+    it("throws when no fingerprint matches the embedded certificate", () => {
+        const signed = signXML(RESPONSE_XML, otherKeys, "Issuer");
+        const root = parseXML(signed).documentElement!;
+        expect(() =>
+            verifyEnvelopedSignature(root, { fingerprints: [fingerprintOf(idpKeys.certificate)] })
+        ).toThrow("No trusted certificate");
+    });
+
+    it("throws when signed content has been modified", () => {
+        const signed = signXML(RESPONSE_XML, idpKeys, "Issuer").replace(
+            "alice@example.com",
+            "mallory@example.com"
+        );
+        const root = parseXML(signed).documentElement!;
+        expect(() =>
+            verifyEnvelopedSignature(root, { certificates: [idpKeys.certificate] })
+        ).toThrow("Digest mismatch");
+    });
+
+    it("throws when the reference points at a different element", () => {
+        const doc = parseXML(RESPONSE_XML);
+        const assertion = doc.getElementsByTagNameNS(
+            "urn:oasis:names:tc:SAML:2.0:assertion",
+            "Assertion"
+        )[0];
+        signElement(assertion, idpKeys);
+        assertion.setAttribute("ID", "_moved");
+        expect(() =>
+            verifyEnvelopedSignature(assertion, { certificates: [idpKeys.certificate] })
+        ).toThrow("does not point at the signed Assertion");
+    });
+
+    it("survives a serialise/parse round trip", () => {
+        const doc = parseXML(RESPONSE_XML);
+        const assertion = doc.getElementsByTagNameNS(
+            "urn:oasis:names:tc:SAML:2.0:assertion",
+            "Assertion"
+        )[0];
+        signElement(assertion, { ...idpKeys, algorithm: "rsa-sha512" });
+        const reparsed = parseXML(new XMLSerializer().serializeToString(doc));
+        const verified = reparsed.getElementsByTagNameNS(
+            "urn:oasis:names:tc:SAML:2.0:assertion",
+            "Assertion"
+        )[0];
+        expect(verifyEnvelopedSignature(verified, { certificates: [idpKeys.certificate] })).toBe(
+            true
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// External test vector
+// ---------------------------------------------------------------------------
+
+describe("signature – xml-crypto test vector", () => {
+    // A Response whose Assertion was signed by xml-crypto 6 with exclusive C14N
+    // and an InclusiveNamespaces PrefixList of "xs", which is only used inside
+    // the xsi:type value and so is rendered only because the list names it.
+    const VECTOR = fs.readFileSync(
+        path.join(__dirname, "fixtures", "xmlCryptoResponse.xml"),
+        "utf-8"
+    );
+    const trusted = {
+        fingerprints: [
+            "C5:E9:E0:3C:39:53:3D:1E:16:47:9D:C5:87:7E:98:BD:" +
+                "79:0B:44:1E:EC:37:46:64:87:D8:02:B3:8D:DA:D7:50",
+        ],
+    };
+
+    function assertionOf(xml: string) {
+        return parseXML(xml).getElementsByTagNameNS(
+            "urn:oasis:names:tc:SAML:2.0:assertion",
+            "Assertion"
+        )[0];
+    }
+
+    it("verifies the signature made by another implementation", () => {
+        expect(verifyEnvelopedSignature(assertionOf(VECTOR), trusted)).toBe(true);
+    });
+
+    it.each([
+        ["the NameID", "alice@example.com<", "alicf@example.com<", "Digest mismatch"],
+        ["the attribute value", "admin &amp; owner", "admin &amp; ownes", "Digest mismatch"],
+        [
+            "the SignatureValue",
+            "<ds:SignatureValue>Z",
+            "<ds:SignatureValue>Y",
+            "not valid for any trusted certificate",
+        ],
+    ])("rejects the vector with one byte of %s changed", (_part, from, to, message) => {
+        expect(VECTOR).toContain(from);
+        const tampered = VECTOR.replace(from, to);
+        expect(() => verifyEnvelopedSignature(assertionOf(tampered), trusted)).toThrow(message);
+    });
+});
@@ -0,0 +1,100 @@
+import { Document, Element, XMLSerializer } from "@xmldom/xmldom";
+import { SAMLError } from "../src/errors";
+import { SAMLResponse } from "../src/SAMLResponse";
+import { ServiceProvider } from "../src/ServiceProvider";
+import { signElement } from "../src/signature";
+import { KeyPair } from "../src/types";
+import { NS, childElements, parseXML } from "../src/xml";
+import { EVIL_NAME_ID, XSW_VARIANTS } from "./fixtures/xsw";
+
+const NAME_ID = "alice@example.com";
+
+let idpKeys: KeyPair;
+let spKeys: KeyPair;
+
+beforeAll(async () => {
+    idpKeys = await ServiceProvider.generateKeys(2048);
+    spKeys = await ServiceProvider.generateKeys(2048);
+});
+
+/** A Response signed on the Response or on the Assertion, parsed for tampering. */
+function signedResponse(signed: "response" | "assertion", nameID = NAME_ID) {
+    const now = Date.now();
+    const xml =
+        `<samlp:Response xmlns:samlp="${NS.samlp}" xmlns:saml2="${NS.saml}" ` +
+        `ID="_response1" Version="2.0">` +
+        `<saml2:Issuer>https://idp.example.com</saml2:Issuer>` +
+        `<saml2:Assertion ID="_assertion1" Version="2.0">` +
+        `<saml2:Issuer>https://idp.example.com</saml2:Issuer>` +
+        `<saml2:Subject><saml2:NameID>${nameID}</saml2:NameID></saml2:Subject>` +
+        `<saml2:Conditions NotBefore="${new Date(now - 60000).toISOString()}" ` +
+        `NotOnOrAfter="${new Date(now + 60000).toISOString()}"/>` +
+        `</saml2:Assertion></samlp:Response>`;
+    const doc = parseXML(xml);
+    const root = doc.documentElement as Element;
+    const target = signed === "response" ? root : childElements(root, NS.saml, "Assertion")[0];
+    signElement(target, idpKeys, childElements(target, NS.saml, "Issuer")[0]);
+    return doc;
+}
+
+function serialize(doc: Document): string {
+    return new XMLSerializer().serializeToString(doc);
+}
+
+function samlResponse(): SAMLResponse {
+    return new SAMLResponse({
+        privateKey: spKeys.privateKey,
+        idpCertificates: [idpKeys.certificate],
+    });
+}
+
+describe("SAMLResponse – signature wrapping", () => {
+    it.each(["response", "assertion"] as const)(
+        "accepts the untouched fixture signed on the %s",
+        async (signed) => {
+            const result = await samlResponse().processXML(serialize(signedResponse(signed)));
+            expect(result.nameID).toBe(NAME_ID);
+        }
+    );
+
+    it.each(XSW_VARIANTS.map((variant) => [variant.name, variant] as const))(
+        "rejects %s",
+        async (_name, variant) => {
+            const doc = signedResponse(variant.signed);
+            variant.wrap(doc);
+            const error = await samlResponse().processXML(serialize(doc)).then(
+                (result) => result,
+                (err: unknown) => err
+            );
+            expect(error).toBeInstanceOf(SAMLError);
+            expect(error).toMatchObject({ code: variant.code });
+        }
+    );
+
+    it("rejects a Response with two signed assertions", async () => {
+        const doc = signedResponse("assertion");
+        const second = signedResponse("assertion", EVIL_NAME_ID).documentElement as Element;
+        const forged = childElements(second, NS.saml, "Assertion")[0];
+        forged.setAttribute("ID", "_assertion2");
+        doc.documentElement!.appendChild(forged);
+        await expect(samlResponse().processXML(serialize(doc))).rejects.toThrow(
+            "Response contains 2 assertions; exactly one is allowed."
+        );
+    });
+
+    it("reads the whole NameID when a comment was inserted after signing", async () => {
+        const doc = signedResponse("assertion", "admin@example.com.evil.example");
+        const nameID = doc.getElementsByTagNameNS(NS.saml, "NameID")[0];
+        const text = nameID.firstChild!;
+        nameID.insertBefore(doc.createComment(""), text.nextSibling);
+        nameID.removeChild(text);
+        nameID.insertBefore(doc.createTextNode("admin@example.com"), nameID.firstChild);
+        nameID.appendChild(doc.createTextNode(".evil.example"));
+        const xml = serialize(doc);
+        expect(xml).toContain("<saml2:NameID>admin@example.com<!---->.evil.example</saml2:NameID>");
+
+        const result = await samlResponse().processXML(xml);
+        expect(result.signed.assertion).toBe(true);
+        expect(result.nameID).toBe("admin@example.com.evil.example");
+    });
+});